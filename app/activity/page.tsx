@@ -0,0 +1,257 @@
+// app/activity/page.tsx
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { repo, supabase } from '../../utils/supabase';
+import { logRepositoryError } from '../../utils/repository';
+import { canSeeTeam } from '../../utils/access';
+import type { Profile, TaskActivity } from '../../types';
+import ActivityTimeline from '../../components/ActivityTimeline';
+
+const FEED_LIMIT = 300;
+
+export default function ActivityPage() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [entries, setEntries] = useState<TaskActivity[]>([]);
+  const [users, setUsers] = useState<Profile[]>([]);
+  const [currentProfile, setCurrentProfile] = useState<Profile | null>(null);
+  const [names, setNames] = useState<Record<string, string>>({});
+
+  const [actorFilter, setActorFilter] = useState('');
+  const [actionFilter, setActionFilter] = useState<
+    '' | TaskActivity['action']
+  >('');
+
+  const loadFeed = useCallback(async () => {
+    const { data, error } = await repo.activity.recent(FEED_LIMIT);
+    if (error) {
+      logRepositoryError('Load activity error', error);
+      setError(error.message);
+      return;
+    }
+    setError(null);
+    setEntries(data || []);
+  }, []);
+
+  // โหลด session + ข้อมูลที่ใช้แปลง id เป็นชื่อ
+  useEffect(() => {
+    const load = async () => {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      if (!session?.user) {
+        router.push('/login');
+        return;
+      }
+
+      const [profilesRes, teamsRes, tasksRes] = await Promise.all([
+        repo.profiles.list(),
+        repo.teams.list(),
+        repo.tasks.list(),
+      ]);
+      if (profilesRes.error) {
+        logRepositoryError('Load profiles error', profilesRes.error);
+      }
+      const profiles = profilesRes.data || [];
+      setUsers(profiles);
+      setCurrentProfile(
+        profiles.find((p) => p.id === session.user.id) ?? null,
+      );
+
+      const map: Record<string, string> = {};
+      (tasksRes.data || []).forEach((t) => (map[t.id] = t.name));
+      (teamsRes.data || []).forEach((t) => (map[t.id] = t.name));
+      setNames(map);
+
+      await loadFeed();
+      setLoading(false);
+    };
+
+    load();
+  }, [router, loadFeed]);
+
+  // มีคนแก้ task ที่ไหนก็ตาม → ดึง feed ใหม่
+  useEffect(() => {
+    if (loading) return;
+    return repo.watch((change) => {
+      if (change.table === 'tasks') loadFeed();
+    });
+  }, [loading, loadFeed]);
+
+  // เฉพาะ task ของทีมที่มองเห็น (RLS ใน DB กรองแล้ว ตรงนี้กันไว้อีกชั้น)
+  const visible = useMemo(
+    () =>
+      currentProfile
+        ? entries.filter((e) => canSeeTeam(currentProfile, e.team_id))
+        : [],
+    [entries, currentProfile],
+  );
+
+  const filtered = useMemo(
+    () =>
+      visible.filter(
+        (e) =>
+          (!actorFilter || e.actor_id === actorFilter) &&
+          (!actionFilter || e.action === actionFilter),
+      ),
+    [visible, actorFilter, actionFilter],
+  );
+
+  if (loading) {
+    return (
+      <div
+        style={{
+          minHeight: '100vh',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          background: '#f1f5f9',
+          color: '#64748b',
+          fontSize: 14,
+        }}
+      >
+        Loading activity…
+      </div>
+    );
+  }
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        display: 'flex',
+        justifyContent: 'center',
+        padding: '32px 16px',
+        background: 'radial-gradient(circle at top, #e0f2fe, #e2e8f0)',
+      }}
+    >
+      <div
+        style={{
+          width: 760,
+          maxWidth: '100%',
+          background: '#ffffff',
+          borderRadius: 24,
+          padding: 24,
+          boxShadow: '0 18px 60px rgba(15,23,42,0.22)',
+          alignSelf: 'flex-start',
+        }}
+      >
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'flex-start',
+            justifyContent: 'space-between',
+            gap: 12,
+            marginBottom: 16,
+          }}
+        >
+          <div>
+            <h1
+              style={{
+                margin: 0,
+                fontSize: 22,
+                fontWeight: 700,
+                color: '#0f172a',
+              }}
+            >
+              Activity feed
+            </h1>
+            <p
+              style={{
+                margin: '4px 0 0',
+                fontSize: 13,
+                color: '#64748b',
+              }}
+            >
+              Every task created, changed or deleted in the teams you can see.
+            </p>
+          </div>
+          <Link href="/" className="btn btn-secondary">
+            ← Back to tasks
+          </Link>
+        </div>
+
+        <div
+          style={{
+            display: 'flex',
+            gap: 8,
+            marginBottom: 16,
+          }}
+        >
+          <select
+            className="select"
+            value={actorFilter}
+            onChange={(e) => setActorFilter(e.target.value)}
+          >
+            <option value="">Everyone</option>
+            {users.map((u) => (
+              <option key={u.id} value={u.id}>
+                {u.display_name || u.email}
+              </option>
+            ))}
+          </select>
+          <select
+            className="select"
+            value={actionFilter}
+            onChange={(e) =>
+              setActionFilter(e.target.value as '' | TaskActivity['action'])
+            }
+          >
+            <option value="">All changes</option>
+            <option value="create">Created</option>
+            <option value="update">Updated</option>
+            <option value="delete">Deleted</option>
+          </select>
+          <button
+            type="button"
+            className="btn btn-ghost"
+            onClick={loadFeed}
+          >
+            Refresh
+          </button>
+        </div>
+
+        {error && (
+          <div
+            style={{
+              marginBottom: 12,
+              fontSize: 13,
+              color: '#b91c1c',
+            }}
+          >
+            Cannot load activity: {error}
+          </div>
+        )}
+
+        <ActivityTimeline
+          entries={filtered}
+          users={users}
+          names={names}
+          showTaskName
+          emptyText={
+            visible.length
+              ? 'No activity matches these filters.'
+              : 'No activity recorded yet.'
+          }
+        />
+
+        {entries.length >= FEED_LIMIT && (
+          <div
+            style={{
+              marginTop: 8,
+              fontSize: 11,
+              color: '#94a3b8',
+            }}
+          >
+            Showing the latest {FEED_LIMIT} changes.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
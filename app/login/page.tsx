@@ -4,7 +4,8 @@
 import { FormEvent, useState } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { supabase } from '../../utils/supabase';
+import { repo, supabase } from '../../utils/supabase';
+import { logRepositoryError } from '../../utils/repository';
 
 export default function LoginPage() {
   const router = useRouter();
@@ -45,11 +46,7 @@ export default function LoginPage() {
         const {
           data: existingProfile,
           error: profileCheckError,
-        } = await supabase
-          .from('profiles')
-          .select('id')
-          .eq('id', user.id)
-          .maybeSingle();
+        } = await repo.profiles.findBy('id', user.id);
 
         if (!profileCheckError && !existingProfile) {
           // ➜ ยังไม่มี profile: สร้างใหม่ (role default = 'user' ใน DB)
@@ -58,11 +55,14 @@ export default function LoginPage() {
             user.email?.split('@')[0] ||
             'User';
 
-          await supabase.from('profiles').insert({
+          const { error: createError } = await repo.profiles.create({
             id: user.id,
-            email: user.email,
+            email: user.email ?? '',
             display_name: displayName,
           });
+          if (createError) {
+            logRepositoryError('profile create error:', createError);
+          }
         }
       }
 
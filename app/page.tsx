@@ -1,18 +1,74 @@
 // app/page.tsx
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { AppShell } from '../components/AppShell';
 import GanttChart from '../components/GanttChart';
 import TaskModal from '../components/TaskModal';
-import { supabase } from '../utils/supabase';
-import type { Task, Team, Profile, Role } from '../types';
+import { repo, supabase } from '../utils/supabase';
+import {
+  logRepositoryError,
+  type RepositoryError,
+} from '../utils/repository';
+import { canEditCalendar, canSeeTeam } from '../utils/access';
+import {
+  PROFILE_ORDER,
+  REMOTE_HIGHLIGHT_MS,
+  TASK_ORDER,
+  TEAM_ORDER,
+  mergeRowChange,
+} from '../utils/realtime';
+import { planRollupUpdates, withRollupUpdates } from '../utils/schedule';
+import { formatInputDate } from '../utils/dates';
+import {
+  DEFAULT_WORK_CALENDAR,
+  applyCalendarRows,
+  calendarRowsToSave,
+  isOverdueWorking,
+  parseWorkCalendarFile,
+  type WorkCalendar,
+} from '../utils/workCalendar';
+import {
+  EMPTY_HISTORY,
+  diffTask,
+  makeHistoryEntry,
+  planReplay,
+  type HistoryChange,
+  pushHistory,
+  stepHistory,
+  type HistoryEntry,
+  type HistoryState,
+} from '../utils/history';
+import {
+  describeIssues,
+  validateSchedule,
+  type ScheduleIssue,
+} from '../utils/validation';
+import type { UnreadInfo } from '../utils/comments';
+import type { Task, Team, Profile } from '../types';
 
 type ViewType = 'gantt' | 'list' | 'board' | 'calendar';
 
-function roleCanSeeAll(role: Role | undefined | null) {
-  return role === 'admin' || role === 'manager';
+const WORKING_DAYS_STORAGE_KEY = 'working-days-only';
+
+// มีการแก้ค้างในคิว offline → ลองส่งใหม่ทุก ๆ
+const OFFLINE_RETRY_MS = 30000;
+
+// จำนวน comment ที่ยังไม่อ่าน (สีเหลือง = มีคน @ ถึงเรา)
+function CommentBadge({ info }: { info?: UnreadInfo }) {
+  if (!info?.count) return null;
+  return (
+    <span
+      className={'comment-badge' + (info.mentioned ? ' is-mention' : '')}
+      title={
+        `${info.count} unread comment${info.count === 1 ? '' : 's'}` +
+        (info.mentioned ? ' (you were mentioned)' : '')
+      }
+    >
+      💬 {info.count}
+    </span>
+  );
 }
 
 export default function HomePage() {
@@ -22,6 +78,23 @@ export default function HomePage() {
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
 
+  // realtime: task ที่คนอื่นเพิ่งแก้ (ไฮไลต์ชั่วคราว)
+  const [remoteChangedIds, setRemoteChangedIds] = useState<string[]>([]);
+  // task ที่เปิดอยู่ใน modal ถูกแก้ / ลบจากที่อื่นระหว่างที่เรากำลังแก้
+  const [modalConflict, setModalConflict] = useState<{
+    deleted: boolean;
+    latest: Task | null;
+  } | null>(null);
+  const openTaskIdRef = useRef<string | null>(null);
+
+  // จำนวนการแก้ที่รอส่ง (offline)
+  const [pendingWrites, setPendingWrites] = useState(0);
+  // comment ที่ยังไม่อ่าน ต่อ task
+  const [commentUnread, setCommentUnread] = useState<
+    Record<string, UnreadInfo>
+  >({});
+  openTaskIdRef.current = isModalOpen && selectedTask ? selectedTask.id : null;
+
   const [view, setView] = useState<ViewType>('gantt');
 
   const [teams, setTeams] = useState<Team[]>([]);
@@ -37,28 +110,67 @@ export default function HomePage() {
   const [loading, setLoading] = useState(true);
   const [initError, setInitError] = useState<string | null>(null);
 
+  // ปฏิทินวันทำงาน (วันหยุดราชการ + override รายทีม)
+  const [workCalendar, setWorkCalendar] = useState<WorkCalendar>(
+    DEFAULT_WORK_CALENDAR,
+  );
+  const [workingDaysOnly, setWorkingDaysOnly] = useState<boolean>(() => {
+    if (typeof window === 'undefined') return false;
+    return window.localStorage.getItem(WORKING_DAYS_STORAGE_KEY) === '1';
+  });
+
+  useEffect(() => {
+    window.localStorage.setItem(
+      WORKING_DAYS_STORAGE_KEY,
+      workingDaysOnly ? '1' : '0',
+    );
+  }, [workingDaysOnly]);
+
+  // undo / redo ของการแก้ task ใน session นี้ (Ctrl+Z / Ctrl+Shift+Z)
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const replayingRef = useRef(false);
+
+  const recordHistory = (entry: HistoryEntry) =>
+    setHistory((prev) => pushHistory(prev, entry));
+
+  // ========= parent rollup: เพิ่ม / ลบ subtask แล้วบันทึกค่าใหม่ของ ancestor =========
+  // (การแก้ task ใช้ withRollupUpdates บันทึกพร้อมกันใน batch เดียว)
+  // คืน change ที่บันทึกไป (ใส่ใน history entry เดียวกับการสร้าง task)
+  const saveParentRollups = async (
+    rows: Task[],
+    ids: Array<string | null | undefined>,
+  ): Promise<(HistoryChange | null)[]> => {
+    const updates = planRollupUpdates(rows, ids);
+    if (!updates.length) return [];
+    const { error } = await repo.tasks.updateBatch(
+      updates.map(({ id, ...rollup }) => ({ id, changes: rollup })),
+    );
+    if (error) {
+      logRepositoryError('parent rollup update error:', error);
+      return [];
+    }
+    return updates.map(({ id, ...rollup }) => {
+      const before = rows.find((t) => t.id === id);
+      return before ? diffTask(before, rollup) : null;
+    });
+  };
+
   // ========= โหลด tasks =========
-  const loadTasks = async () => {
-    setLoading(true);
+  // silent = โหลดใหม่โดยไม่ขึ้นหน้า loading (แก้ inline ใน Gantt แล้วไม่เสีย focus)
+  const loadTasks = async (silent = false) => {
+    if (!silent) setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('tasks')
-        .select('*')
-        .order('start_date', { ascending: true });
+      const { data, error } = await repo.tasks.list();
 
       if (error) {
-        console.error('loadTasks error:', {
-          message: error.message,
-          details: (error as any).details,
-          hint: (error as any).hint,
-        });
+        logRepositoryError('loadTasks error:', error);
       } else if (data) {
-        setTasks(data as Task[]);
+        setTasks(data);
       }
     } catch (err) {
       console.error('loadTasks unexpected error:', err);
     } finally {
-      setLoading(false);
+      if (!silent) setLoading(false);
     }
   };
 
@@ -88,18 +200,11 @@ export default function HomePage() {
         }
 
         // 2) profile: ใช้ email เป็น key หลัก
-        const { data: profileRows, error: profileError } = await supabase
-          .from('profiles')
-          .select('*')
-          .eq('email', user.email ?? '')
-          .limit(1);
+        const { data: profile, error: profileError } =
+          await repo.profiles.findBy('email', user.email ?? '');
 
         if (profileError) {
-          console.error('profiles select error:', {
-            message: profileError.message,
-            details: (profileError as any).details,
-            hint: (profileError as any).hint,
-          });
+          logRepositoryError('profiles select error:', profileError);
           setInitError(
             'Cannot read your profile (database error). Please contact the administrator.',
           );
@@ -107,8 +212,6 @@ export default function HomePage() {
           return;
         }
 
-        const profile = profileRows && profileRows[0];
-
         if (!profile) {
           setInitError(
             'Your account is not registered in the system. Please contact the administrator.',
@@ -117,23 +220,18 @@ export default function HomePage() {
           return;
         }
 
-        setCurrentProfile(profile as Profile);
+        setCurrentProfile(profile);
+        // คิว offline ของผู้ใช้คนนี้ (ต้องรู้ก่อนโหลด tasks: ใส่การแก้ที่ค้างทับ)
+        repo.sync.setUser(profile.id);
 
         // 3) teams
         try {
-          const { data: teamRows, error: teamError } = await supabase
-            .from('teams')
-            .select('*')
-            .order('name', { ascending: true });
+          const { data: teamRows, error: teamError } = await repo.teams.list();
 
           if (teamError) {
-            console.error('teams error:', {
-              message: teamError.message,
-              details: (teamError as any).details,
-              hint: (teamError as any).hint,
-            });
+            logRepositoryError('teams error:', teamError);
           } else if (teamRows) {
-            setTeams(teamRows as Team[]);
+            setTeams(teamRows);
           }
         } catch (errTeams) {
           console.error('teams unexpected error:', errTeams);
@@ -141,25 +239,36 @@ export default function HomePage() {
 
         // 4) users list (profiles)
         try {
-          const { data: userRows, error: usersError } = await supabase
-            .from('profiles')
-            .select('*')
-            .order('display_name', { ascending: true });
+          const { data: userRows, error: usersError } =
+            await repo.profiles.list();
 
           if (usersError) {
-            console.error('users (profiles) error:', {
-              message: usersError.message,
-              details: (usersError as any).details,
-              hint: (usersError as any).hint,
-            });
+            logRepositoryError('users (profiles) error:', usersError);
           } else if (userRows) {
-            setUsers(userRows as Profile[]);
+            setUsers(userRows);
           }
         } catch (errUsers) {
           console.error('users unexpected error:', errUsers);
         }
 
-        // 5) tasks
+        // 5) work calendar: ปฏิทินกลาง + override ของทีมที่เห็นได้
+        //    (ถ้ายังไม่เคย import ใช้วันหยุดราชการ default)
+        try {
+          const { data: calendarRows, error: calendarError } =
+            await repo.calendars.list();
+
+          if (calendarError) {
+            logRepositoryError('work calendar error:', calendarError);
+          } else if (calendarRows?.length) {
+            setWorkCalendar(
+              applyCalendarRows(DEFAULT_WORK_CALENDAR, calendarRows),
+            );
+          }
+        } catch (errCalendar) {
+          console.error('work calendar unexpected error:', errCalendar);
+        }
+
+        // 6) tasks
         await loadTasks();
       } catch (err) {
         console.error('init unexpected error:', err);
@@ -171,6 +280,137 @@ export default function HomePage() {
     init();
   }, [router]);
 
+  // ========= realtime: รวมการแก้ของคนอื่นเข้า state ทันที =========
+  useEffect(() => {
+    if (!currentProfile) return;
+    const timers: ReturnType<typeof setTimeout>[] = [];
+
+    const unsubscribe = repo.watch((change) => {
+      if (change.table === 'teams') {
+        setTeams((prev) => mergeRowChange(prev, change, TEAM_ORDER));
+        return;
+      }
+      if (change.table === 'profiles') {
+        setUsers((prev) => mergeRowChange(prev, change, PROFILE_ORDER));
+        if (change.type === 'UPDATE' && change.row) {
+          setCurrentProfile((prev) =>
+            prev && prev.id === change.id ? change.row : prev,
+          );
+        }
+        return;
+      }
+      if (change.table !== 'tasks') return;
+
+      setTasks((prev) => mergeRowChange(prev, change, TASK_ORDER));
+      if (change.local || !change.id) return;
+
+      const id = change.id;
+      setRemoteChangedIds((prev) =>
+        prev.includes(id) ? prev : [...prev, id],
+      );
+      timers.push(
+        setTimeout(
+          () => setRemoteChangedIds((prev) => prev.filter((x) => x !== id)),
+          REMOTE_HIGHLIGHT_MS,
+        ),
+      );
+
+      if (openTaskIdRef.current === id) {
+        setModalConflict({
+          deleted: change.type === 'DELETE',
+          latest: change.row,
+        });
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      timers.forEach(clearTimeout);
+    };
+  }, [currentProfile?.id]);
+
+  // ========= comment ที่ยังไม่อ่าน: นับใหม่เมื่อมี comment เข้า / อ่านแล้ว =========
+  const loadCommentUnread = async () => {
+    if (!currentProfile) return;
+    const { data, error } = await repo.comments.unread();
+    if (error) {
+      logRepositoryError('Load unread comments error', error);
+      return;
+    }
+    setCommentUnread(data || {});
+  };
+
+  useEffect(() => {
+    if (!currentProfile) return;
+    loadCommentUnread();
+    return repo.comments.watch(() => loadCommentUnread());
+  }, [currentProfile?.id]);
+
+  // ========= offline queue: ส่งการแก้ที่ค้างไว้เมื่อกลับมา online =========
+  const syncPendingWrites = async () => {
+    const report = await repo.sync.replay();
+    const problems = [...report.conflicts, ...report.failed];
+    // มีตัวที่ไม่ผ่าน = ค่าที่แสดงไว้ตอน offline ไม่ตรงกับ DB → โหลดใหม่
+    if (report.applied || problems.length) await loadTasks(true);
+    if (problems.length) {
+      alert(
+        'Some offline changes were not saved:\n\n' + problems.join('\n'),
+      );
+    }
+  };
+
+  useEffect(() => repo.sync.onPendingChange(setPendingWrites), []);
+
+  useEffect(() => {
+    if (!currentProfile) return;
+    syncPendingWrites();
+    const onOnline = () => syncPendingWrites();
+    window.addEventListener('online', onOnline);
+    return () => window.removeEventListener('online', onOnline);
+  }, [currentProfile?.id]);
+
+  // Wi-Fi บางที่ต่อได้แต่ส่งไม่ผ่าน (online event ไม่มา) → ลองใหม่เป็นระยะ
+  useEffect(() => {
+    if (!currentProfile || !pendingWrites) return;
+    const timer = setInterval(syncPendingWrites, OFFLINE_RETRY_MS);
+    return () => clearInterval(timer);
+  }, [currentProfile?.id, pendingWrites > 0]);
+
+  // เปิด / เปลี่ยน task ใน modal → เริ่มนับใหม่
+  useEffect(() => {
+    setModalConflict(null);
+  }, [isModalOpen, selectedTask]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (hook ต้องอยู่ก่อน return ของ initError → เรียกผ่าน ref)
+  const replayHistoryRef = useRef<
+    ((direction: 'undo' | 'redo') => Promise<void>) | null
+  >(null);
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isModalOpen) return;
+      const key = e.key.toLowerCase();
+      const redo = (key === 'z' && e.shiftKey) || key === 'y';
+      if (key !== 'z' && !redo) return;
+
+      // ช่องกรอกข้อความใช้ undo ของ browser เอง
+      const el = e.target as HTMLElement;
+      const tag = el?.tagName;
+      if (
+        tag === 'INPUT' ||
+        tag === 'TEXTAREA' ||
+        tag === 'SELECT' ||
+        el?.isContentEditable
+      ) {
+        return;
+      }
+
+      e.preventDefault();
+      replayHistoryRef.current?.(redo ? 'redo' : 'undo');
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
   // ========= ถ้า init ผิดพลาด =========
   if (initError) {
     return (
@@ -206,12 +446,33 @@ export default function HomePage() {
   // ========= สิทธิ์ของ role =========
   const canEditTasks =
     !!currentProfile && currentProfile.role !== 'manager';
+  // ปฏิทินที่ import ได้: admin = ปฏิทินกลาง (null), คนในทีม = ของทีมตัวเอง, undefined = ไม่ได้
+  const calendarScope = !currentProfile
+    ? undefined
+    : currentProfile.role === 'admin'
+      ? null
+      : canEditCalendar(currentProfile, currentProfile.team_id)
+        ? currentProfile.team_id
+        : undefined;
+
+  // ========= overdue: นับวันปฏิทิน หรือเฉพาะวันทำงาน =========
+  const isTaskOverdue = (t: Task, now: Date) => {
+    if (!t.end_date || t.status === 'Done') return false;
+    if (workingDaysOnly) {
+      return isOverdueWorking(
+        workCalendar,
+        t.end_date,
+        formatInputDate(now),
+        t.team_id,
+      );
+    }
+    return new Date(t.end_date) < now;
+  };
 
   // ========= filters =========
   const roleFilteredTasks = useMemo(() => {
-    if (!currentProfile || roleCanSeeAll(currentProfile.role)) return tasks;
-    if (!currentProfile.team_id) return tasks;
-    return tasks.filter((t) => t.team_id === currentProfile.team_id);
+    if (!currentProfile) return tasks;
+    return tasks.filter((t) => canSeeTeam(currentProfile, t.team_id));
   }, [tasks, currentProfile]);
 
   const timeFilteredTasks = useMemo(() => {
@@ -231,12 +492,11 @@ export default function HomePage() {
         return d >= weekStart && d < weekEnd;
       }
       if (filterDateRange === 'overdue') {
-        if (!end) return false;
-        return end < now && t.status !== 'Done';
+        return isTaskOverdue(t, now);
       }
       return true;
     });
-  }, [roleFilteredTasks, filterDateRange]);
+  }, [roleFilteredTasks, filterDateRange, workingDaysOnly, workCalendar]);
 
   const fullyFilteredTasks = useMemo(() => {
     return timeFilteredTasks.filter((t) => {
@@ -246,6 +506,12 @@ export default function HomePage() {
     });
   }, [timeFilteredTasks, filterTeamId, filterAssignee]);
 
+  // ตรวจความสอดคล้องจาก task ทั้งหมด (ไม่ผ่าน filter) แสดง ⚠ ใน Gantt / List / modal
+  const scheduleIssues = useMemo(
+    () => validateSchedule(tasks, workingDaysOnly ? workCalendar : null),
+    [tasks, workingDaysOnly, workCalendar],
+  );
+
   // tasks ที่ไม่มีลูก = leaf tasks (งานจริง)
   const leafTasks = useMemo(() => {
     const parentIds = new Set(
@@ -260,12 +526,15 @@ export default function HomePage() {
   }, [fullyFilteredTasks]);
 
   const summary = useMemo(() => {
-    const total = fullyFilteredTasks.length;
-    const inProgress = fullyFilteredTasks.filter(
+    // milestone ไม่ใช่งาน → ไม่นับใน summary cards
+    const workTasks = fullyFilteredTasks.filter((t) => !t.is_milestone);
+
+    const total = workTasks.length;
+    const inProgress = workTasks.filter(
       (t) => t.status === 'In Progress',
     ).length;
 
-    const done = fullyFilteredTasks.filter((t) => t.status === 'Done').length;
+    const done = workTasks.filter((t) => t.status === 'Done').length;
 
     const now = new Date();
     const todayStart = new Date(
@@ -274,14 +543,10 @@ export default function HomePage() {
       now.getDate(),
     );
 
-    const overdue = fullyFilteredTasks.filter((t) => {
-      if (!t.end_date) return false;
-      const end = new Date(t.end_date);
-      return end < now && t.status !== 'Done';
-    }).length;
+    const overdue = workTasks.filter((t) => isTaskOverdue(t, now)).length;
 
     return { total, inProgress, done, overdue };
-  }, [fullyFilteredTasks]);
+  }, [fullyFilteredTasks, workingDaysOnly, workCalendar]);
 
   const totalLabel = summary.total === 1 ? 'task' : 'tasks';
 
@@ -303,6 +568,15 @@ export default function HomePage() {
     setIsModalOpen(true);
   };
 
+  // task ใหม่ + rollup ของ parent = history entry เดียว (undo ลบ task แล้วคืนค่า parent)
+  const recordCreate = async (label: string, created: Task) => {
+    const rollup = created.parent_id
+      ? await saveParentRollups([...tasks, created], [created.parent_id])
+      : [];
+    const entry = makeHistoryEntry(label, rollup, [created]);
+    if (entry) recordHistory(entry);
+  };
+
   const handleSaveTask = async (partial: Partial<Task>) => {
     try {
       if (!canEditTasks) return;
@@ -321,82 +595,46 @@ export default function HomePage() {
       if (selectedTask) {
         // ========= UPDATE =========
         const { id, ...rest } = partial;
+        const patch = { ...rest, assignee: normalizedAssignee };
 
-        const { error } = await supabase
-          .from('tasks')
-          .update({
-            ...rest,
-            assignee: normalizedAssignee,
-          })
-          .eq('id', selectedTask.id);
+        // parent ของ task นี้ rollup ใหม่ไปพร้อมกัน (undo ได้ทั้งชุด)
+        const updates = withRollupUpdates(tasks, [
+          { id: selectedTask.id, changes: patch },
+        ]);
+        const { error } = await repo.tasks.updateBatch(updates);
 
         if (error) {
-          console.error('Supabase UPDATE error:', {
-            message: error.message,
-            details: (error as any).details,
-            hint: (error as any).hint,
-          });
-          alert(
-            'Cannot update task: ' +
-              (error.message || JSON.stringify(error)),
-          );
+          logRepositoryError('task update error:', error);
+          alert('Cannot update task: ' + error.message);
           return;
         }
+
+        const entry = makeHistoryEntry(
+          `Edit ${selectedTask.name}`,
+          updates.map((u) => {
+            const before = tasks.find((t) => t.id === u.id);
+            return before ? diffTask(before, u.changes) : null;
+          }),
+        );
+        if (entry) recordHistory(entry);
       } else {
         // ========= INSERT =========
-        const insertPayload: any = {
-          name: partial.name.trim(),
-          description: partial.description ?? '',
-          start_date: partial.start_date ?? null,
-          end_date: partial.end_date ?? null,
-          status: partial.status ?? 'To Do',
-          priority: partial.priority ?? 'Medium',
-          progress: partial.progress ?? 0,
-
+        // ค่า default ของ column อื่น ๆ อยู่ใน buildTaskRow (utils/repository)
+        const { data, error } = await repo.tasks.create({
+          ...partial,
           assignee: normalizedAssignee,
-
-          is_recurring: partial.is_recurring ?? false,
-          recurring_type: partial.is_recurring
-            ? partial.recurring_type ?? 'none'
-            : 'none',
-          recurring_interval: partial.is_recurring
-            ? partial.recurring_interval ?? 1
-            : null,
-          recurring_unit: partial.is_recurring
-            ? partial.recurring_unit ?? 'month'
-            : null,
-
-          dependencies: partial.dependencies ?? '',
-
-          team_id:
-            (partial as any).team_id ?? currentProfile?.team_id ?? null,
-          parent_id: partial.parent_id ?? null,
-        };
-
-        // work_type (routine / strategic / process / self / other)
-        (insertPayload as any).work_type =
-          (partial as any).work_type ?? 'routine';
-
-        console.log('Insert payload', insertPayload);
-
-        const { error } = await supabase.from('tasks').insert(insertPayload);
+          team_id: partial.team_id ?? currentProfile?.team_id ?? null,
+        });
 
         if (error) {
-          console.error('Supabase INSERT error:', {
-            message: error.message,
-            details: (error as any).details,
-            hint: (error as any).hint,
-          });
-          alert(
-            'Cannot create task: ' +
-              (error.message || JSON.stringify(error)),
-          );
+          logRepositoryError('task create error:', error);
+          alert('Cannot create task: ' + error.message);
           return;
         }
+        if (data) await recordCreate(`Create ${data.name}`, data);
       }
 
       setIsModalOpen(false);
-      await loadTasks();
     } catch (err) {
       console.error('handleSaveTask unexpected error:', err);
       alert('Unexpected error when saving task.');
@@ -407,21 +645,22 @@ export default function HomePage() {
     try {
       if (!canEditTasks) return;
 
-      const { error } = await supabase.from('tasks').delete().eq('id', id);
+      // ไฟล์แนบ: แถวหายไปพร้อม task แล้ว server ลบไฟล์ให้เอง (task_attachment_orphans)
+      const parentId = tasks.find((t) => t.id === id)?.parent_id;
+
+      const { error } = await repo.tasks.remove(id);
       if (error) {
-        console.error('Supabase DELETE error:', {
-          message: error.message,
-          details: (error as any).details,
-          hint: (error as any).hint,
-        });
-        alert(
-          'Cannot delete task: ' +
-            (error.message || JSON.stringify(error)),
-        );
+        logRepositoryError('task delete error:', error);
+        alert('Cannot delete task: ' + error.message);
         return;
       }
+      if (parentId) {
+        await saveParentRollups(
+          tasks.filter((t) => t.id !== id),
+          [parentId],
+        );
+      }
       setIsModalOpen(false);
-      await loadTasks();
     } catch (err) {
       console.error('handleDeleteTask unexpected error:', err);
       alert('Unexpected error when deleting task.');
@@ -433,52 +672,127 @@ export default function HomePage() {
     try {
       if (!canEditTasks) return;
 
-      const insertPayload: any = {
+      const { data, error } = await repo.tasks.create({
+        ...task,
         name: `${task.name} (copy)`,
-        description: task.description ?? '',
-        start_date: task.start_date ?? null,
-        end_date: task.end_date ?? null,
 
         // reset สถานะให้เป็นงานใหม่
         status: 'To Do',
-        priority: task.priority ?? 'Medium',
         progress: 0,
 
-        assignee: task.assignee ?? null,
+        team_id: task.team_id ?? currentProfile?.team_id ?? null,
+      });
 
-        is_recurring: task.is_recurring ?? false,
-        recurring_type: task.is_recurring ? task.recurring_type ?? 'none' : 'none',
-        recurring_interval: task.is_recurring ? task.recurring_interval ?? 1 : null,
-        recurring_unit: task.is_recurring ? task.recurring_unit ?? 'month' : null,
+      if (error) {
+        logRepositoryError('task duplicate error:', error);
+        alert('Cannot duplicate task: ' + error.message);
+        return;
+      }
+      if (data) await recordCreate(`Duplicate ${task.name}`, data);
 
-        dependencies: task.dependencies ?? '',
+      setIsModalOpen(false); // ถ้าอยากให้ modal ยังเปิดอยู่ก็ลบบรรทัดนี้ได้
+    } catch (err) {
+      console.error('handleDuplicateTask unexpected error:', err);
+      alert('Unexpected error when duplicating task.');
+    }
+  };
 
-        team_id: task.team_id ?? currentProfile?.team_id ?? null,
-        parent_id: task.parent_id ?? null,
+  // ========= undo / redo: ส่ง update ย้อนกลับ (หรือซ้ำ) ไปที่ DB =========
+  const replayHistory = async (direction: 'undo' | 'redo') => {
+    if (!canEditTasks || replayingRef.current) return;
+    const stack = direction === 'undo' ? history.past : history.future;
+    const entry = stack[stack.length - 1];
+    if (!entry) return;
+
+    const { updates, creates, removes, stale, missing } = planReplay(
+      entry,
+      direction,
+      tasks,
+    );
+    if (!updates.length && !creates.length && !removes.length) {
+      alert(`Cannot ${direction} "${entry.label}": the task no longer exists.`);
+      setHistory((prev) => stepHistory(prev, direction));
+      return;
+    }
+    if (
+      (stale.length || missing.length) &&
+      !confirm(
+        `"${entry.label}": ` +
+          [
+            stale.length && `${stale.length} task(s) changed since then`,
+            missing.length && `${missing.length} task(s) were deleted`,
+          ]
+            .filter(Boolean)
+            .join(', ') +
+          `. ${direction === 'undo' ? 'Undo' : 'Redo'} anyway?`,
+      )
+    ) {
+      return;
+    }
 
-        work_type: (task as any).work_type ?? 'routine',
-      };
+    replayingRef.current = true;
+    try {
+      // task ที่ entry สร้าง: สร้างคืน / ลบก่อน ไม่สำเร็จ = ยังไม่แตะ update ที่เหลือ
+      let error: RepositoryError | null = null;
+      for (const t of creates) {
+        if (error) break;
+        error = (await repo.tasks.create(t, t.id)).error;
+      }
+      for (const id of removes) {
+        if (error) break;
+        error = (await repo.tasks.remove(id)).error;
+      }
+      // update ทั้ง entry ใน transaction เดียว: ล้มเหลว = ไม่มีตัวไหนเปลี่ยน (entry ยังอยู่ให้ลองใหม่ได้)
+      // ไม่ต้องโหลดใหม่: repository แจ้งค่าใหม่ (หรือ rollback) ผ่าน watch อยู่แล้ว
+      if (!error && updates.length) {
+        error = (
+          await repo.tasks.updateBatch(
+            updates.map(({ id, patch }) => ({ id, changes: patch })),
+          )
+        ).error;
+      }
+      if (error) {
+        logRepositoryError(`${direction} error:`, error);
+        alert(`Cannot ${direction} "${entry.label}": ` + error.message);
+      } else {
+        setHistory((prev) => stepHistory(prev, direction));
+      }
+    } catch (err) {
+      console.error(`${direction} unexpected error:`, err);
+      alert(`Unexpected error when trying to ${direction}.`);
+    } finally {
+      replayingRef.current = false;
+    }
+  };
+  replayHistoryRef.current = replayHistory;
 
-      const { error } = await supabase.from('tasks').insert(insertPayload);
+  // ========= import ปฏิทินวันหยุดจากไฟล์ (JSON / CSV) =========
+  // admin = ปฏิทินกลาง + override ทุกทีมในไฟล์, คนในทีม = override ของทีมตัวเอง (RLS ตรวจซ้ำ)
+  const handleImportCalendar = async (file: File) => {
+    if (calendarScope === undefined) return;
+    try {
+      const config = parseWorkCalendarFile(await file.text());
+      const rows = calendarRowsToSave(config, calendarScope);
 
+      const { error } = await repo.calendars.save(rows);
       if (error) {
-        console.error('Supabase DUPLICATE error:', {
-          message: error.message,
-          details: (error as any).details,
-          hint: (error as any).hint,
-        });
-        alert(
-          'Cannot duplicate task: ' +
-            (error.message || JSON.stringify(error)),
-        );
+        logRepositoryError('work calendar save error:', error);
+        alert('Cannot save calendar: ' + error.message);
         return;
       }
 
-      setIsModalOpen(false); // ถ้าอยากให้ modal ยังเปิดอยู่ก็ลบบรรทัดนี้ได้
-      await loadTasks();
+      setWorkCalendar((prev) => applyCalendarRows(prev, rows));
+      alert(
+        calendarScope
+          ? `Imported ${rows[0].config.holidays?.length ?? 0} holidays for your team.`
+          : `Imported ${config.holidays.length} holidays.`,
+      );
     } catch (err) {
-      console.error('handleDuplicateTask unexpected error:', err);
-      alert('Unexpected error when duplicating task.');
+      console.error('handleImportCalendar error:', err);
+      alert(
+        'Cannot read calendar file: ' +
+          (err instanceof Error ? err.message : String(err)),
+      );
     }
   };
 
@@ -486,8 +800,20 @@ export default function HomePage() {
 
   const handleSignOut = async () => {
     try {
+      const unsent = repo.sync.pendingCount();
+      if (
+        unsent &&
+        !confirm(
+          `${unsent} offline change(s) have not been saved yet and will be discarded. Sign out anyway?`,
+        )
+      ) {
+        return;
+      }
+      // คิว offline ไม่ค้างให้คนที่ใช้เครื่องต่อ
+      await repo.sync.clear();
       await supabase.auth.signOut();
       setCurrentProfile(null);
+      setHistory(EMPTY_HISTORY);
       setFilterAssignee(null);
       router.push('/login');
     } catch (err) {
@@ -502,9 +828,15 @@ export default function HomePage() {
   // ========= Helper views (list / board / calendar) =========
   function TasksListView({
     tasks,
+    issues,
+    highlightIds,
+    unread,
     onTaskClick,
   }: {
     tasks: Task[];
+    issues: Record<string, ScheduleIssue[]>;
+    highlightIds: string[];
+    unread: Record<string, UnreadInfo>;
     onTaskClick: (t: Task) => void;
   }) {
     return (
@@ -529,10 +861,32 @@ export default function HomePage() {
             {tasks.map((t) => (
               <tr
                 key={t.id}
+                className={
+                  highlightIds.includes(t.id) ? 'remote-changed' : undefined
+                }
                 style={{ cursor: 'pointer' }}
                 onClick={() => onTaskClick(t)}
               >
-                <td style={{ padding: 6 }}>{t.name}</td>
+                <td style={{ padding: 6 }}>
+                  {t.is_milestone && (
+                    <span
+                      title="Milestone"
+                      style={{ color: '#7c3aed', marginRight: 4 }}
+                    >
+                      ◆
+                    </span>
+                  )}
+                  {t.name}
+                  {issues[t.id] && (
+                    <span
+                      className="schedule-issue-icon"
+                      title={describeIssues(issues[t.id])}
+                    >
+                      ⚠
+                    </span>
+                  )}
+                  <CommentBadge info={unread[t.id]} />
+                </td>
                 <td style={{ padding: 6, textAlign: 'center' }}>
                   {t.assignee}
                 </td>
@@ -553,9 +907,11 @@ export default function HomePage() {
 
   function TasksBoardView({
     tasks,
+    unread,
     onTaskClick,
   }: {
     tasks: Task[];
+    unread: Record<string, UnreadInfo>;
     onTaskClick: (t: Task) => void;
   }) {
     const columns: Array<{ key: Task['status']; label: string }> = [
@@ -620,7 +976,14 @@ export default function HomePage() {
                     }}
                     onClick={() => onTaskClick(t)}
                   >
-                    <div style={{ fontWeight: 500 }}>{t.name}</div>
+                    <div style={{ fontWeight: 500 }}>
+                      {t.is_milestone && (
+                        <span style={{ color: '#7c3aed', marginRight: 4 }}>
+                          ◆
+                        </span>
+                      )}
+                      {t.name}
+                    </div>
                     <div
                       style={{
                         fontSize: 11,
@@ -629,6 +992,7 @@ export default function HomePage() {
                       }}
                     >
                       {t.assignee || 'Unassigned'}
+                      <CommentBadge info={unread[t.id]} />
                     </div>
                   </div>
                 ))}
@@ -691,13 +1055,16 @@ export default function HomePage() {
                   style={{
                     borderRadius: 999,
                     padding: '4px 10px',
-                    background: '#ffffff',
-                    border: '1px solid #e2e8f0',
+                    background: t.is_milestone ? '#f5f3ff' : '#ffffff',
+                    border: `1px solid ${t.is_milestone ? '#c4b5fd' : '#e2e8f0'}`,
                     fontSize: 12,
                     cursor: 'pointer',
                   }}
                   onClick={() => onTaskClick(t)}
                 >
+                  {t.is_milestone && (
+                    <span style={{ color: '#7c3aed', marginRight: 4 }}>◆</span>
+                  )}
                   {t.name}
                 </div>
               ))}
@@ -776,6 +1143,65 @@ export default function HomePage() {
           </div>
         </div>
 
+        {/* Undo / redo ของการแก้ task */}
+        {canEditTasks && (
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'flex-end',
+              gap: 6,
+              marginTop: -10,
+              marginBottom: 8,
+            }}
+          >
+            {pendingWrites > 0 && (
+              <button
+                type="button"
+                className="btn btn-ghost"
+                style={{
+                  padding: '2px 10px',
+                  fontSize: 12,
+                  color: '#b45309',
+                  marginRight: 'auto',
+                }}
+                title="Saved on this device. Click to retry sending now."
+                onClick={syncPendingWrites}
+              >
+                ⟳ {pendingWrites} change{pendingWrites === 1 ? '' : 's'}{' '}
+                waiting to sync
+              </button>
+            )}
+            <button
+              type="button"
+              className="btn btn-ghost"
+              style={{ padding: '2px 10px', fontSize: 12 }}
+              disabled={!history.past.length}
+              title={
+                history.past.length
+                  ? `Undo ${history.past[history.past.length - 1].label} (Ctrl+Z)`
+                  : 'Nothing to undo'
+              }
+              onClick={() => replayHistory('undo')}
+            >
+              ↶ Undo
+            </button>
+            <button
+              type="button"
+              className="btn btn-ghost"
+              style={{ padding: '2px 10px', fontSize: 12 }}
+              disabled={!history.future.length}
+              title={
+                history.future.length
+                  ? `Redo ${history.future[history.future.length - 1].label} (Ctrl+Shift+Z)`
+                  : 'Nothing to redo'
+              }
+              onClick={() => replayHistory('redo')}
+            >
+              ↷ Redo
+            </button>
+          </div>
+        )}
+
         {/* Main view area */}
         <div style={{ flex: 1, display: 'flex', minHeight: 0 }}>
           {loading ? (
@@ -794,17 +1220,35 @@ export default function HomePage() {
           ) : view === 'gantt' ? (
             <GanttChart
               tasks={fullyFilteredTasks}
-              onTaskUpdate={loadTasks}
+              allTasks={roleFilteredTasks}
+              canEdit={canEditTasks}
+              calendar={workCalendar}
+              workingDaysOnly={workingDaysOnly}
+              onWorkingDaysOnlyChange={setWorkingDaysOnly}
+              onImportCalendar={
+                calendarScope !== undefined ? handleImportCalendar : undefined
+              }
+              teams={teams}
+              users={users}
+              onTaskRefresh={() => loadTasks(true)}
+              onHistory={recordHistory}
+              issues={scheduleIssues}
+              highlightIds={remoteChangedIds}
+              onTaskUpdate={() => loadTasks(true)}
               onTaskClick={handleTaskClick}
             />
           ) : view === 'list' ? (
             <TasksListView
               tasks={fullyFilteredTasks}
+              issues={scheduleIssues}
+              highlightIds={remoteChangedIds}
+              unread={commentUnread}
               onTaskClick={handleTaskClick}
             />
           ) : view === 'board' ? (
             <TasksBoardView
               tasks={fullyFilteredTasks}
+              unread={commentUnread}
               onTaskClick={handleTaskClick}
             />
           ) : (
@@ -820,13 +1264,23 @@ export default function HomePage() {
         isOpen={isModalOpen}
         task={selectedTask}
         allTasks={tasks}
+        calendar={workingDaysOnly ? workCalendar : null}
         users={users}
+        teams={teams}
         currentUser={currentProfile}
         canEdit={canEditTasks}
         onClose={() => setIsModalOpen(false)}
         onSave={handleSaveTask}
         onDelete={handleDeleteTask}
         onDuplicate={handleDuplicateTask}  
+        remoteChange={modalConflict}
+        onLoadRemote={() => {
+          if (modalConflict?.latest) setSelectedTask(modalConflict.latest);
+        }}
+        unreadComments={
+          selectedTask ? commentUnread[selectedTask.id]?.count ?? 0 : 0
+        }
+        onCommentsRead={loadCommentUnread}
       />
     </AppShell>
   );
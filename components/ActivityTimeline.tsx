@@ -0,0 +1,88 @@
+// components/ActivityTimeline.tsx
+'use client';
+
+import type { Profile, TaskActivity } from '../types';
+import { activityLines, activityVerb, actorName } from '../utils/activity';
+
+interface ActivityTimelineProps {
+  entries: TaskActivity[]; // ใหม่สุดก่อน
+  users: Profile[];
+  names?: Record<string, string>; // id → ชื่อ task / team
+  showTaskName?: boolean; // feed รวมทั้ง workspace ต้องบอกว่าเป็น task ไหน
+  emptyText?: string;
+}
+
+const ACTION_COLORS: Record<TaskActivity['action'], string> = {
+  create: '#16a34a',
+  update: '#2563eb',
+  delete: '#dc2626',
+};
+
+const formatWhen = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export default function ActivityTimeline({
+  entries,
+  users,
+  names = {},
+  showTaskName = false,
+  emptyText = 'No activity recorded yet.',
+}: ActivityTimelineProps) {
+  if (!entries.length) {
+    return <div className="activity-empty">{emptyText}</div>;
+  }
+
+  return (
+    <ol className="activity-timeline">
+      {entries.map((entry) => {
+        const lines = activityLines(entry, names);
+        const taskName = entry.task_name || names[entry.task_id] || 'a task';
+        return (
+          <li key={entry.id} className="activity-item">
+            <span
+              className="activity-dot"
+              style={{ background: ACTION_COLORS[entry.action] }}
+            />
+            <div className="activity-head">
+              <strong>{actorName(entry.actor_id, users)}</strong>{' '}
+              {activityVerb(entry.action)}
+              {showTaskName && (
+                <>
+                  {' '}
+                  <strong>{taskName}</strong>
+                </>
+              )}
+              <span className="activity-time">
+                {formatWhen(entry.created_at)}
+              </span>
+            </div>
+            {lines.length > 0 && (
+              <ul className="activity-changes">
+                {lines.map((line) => (
+                  <li key={line.field}>
+                    <span className="activity-field">{line.label}</span>
+                    {entry.action === 'create' ? (
+                      <span>{line.after}</span>
+                    ) : (
+                      <>
+                        <span className="activity-before">{line.before}</span>
+                        {' → '}
+                        <span>{line.after}</span>
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
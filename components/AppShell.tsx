@@ -237,6 +237,11 @@ export function AppShell({
                       Change password
                     </Link>
 
+                    {/* ประวัติการแก้ task ทั้ง workspace */}
+                    <Link href="/activity" className="profile-menu-item">
+                      Activity feed
+                    </Link>
+
                     {/* Logout button */}
                     <button
                       type="button"
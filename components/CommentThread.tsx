@@ -0,0 +1,462 @@
+// components/CommentThread.tsx
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Profile, TaskComment } from '../types';
+import { repo } from '../utils/supabase';
+import { logRepositoryError } from '../utils/repository';
+import {
+  mentionHandle,
+  mentionSuggestions,
+  resolveMentions,
+} from '../utils/comments';
+import { parseMarkdown, type Inline } from '../utils/markdown';
+
+interface CommentThreadProps {
+  taskId: string;
+  users: Profile[];
+  currentUser: Profile | null;
+  onRead?: () => void; // อ่านถึง comment ล่าสุดแล้ว (ให้หน้าหลักนับ unread ใหม่)
+}
+
+const formatWhen = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export default function CommentThread({
+  taskId,
+  users,
+  currentUser,
+  onRead,
+}: CommentThreadProps) {
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  const onReadRef = useRef(onRead);
+  onReadRef.current = onRead;
+
+  const load = useCallback(async () => {
+    const { data, error } = await repo.comments.forTask(taskId);
+    setLoading(false);
+    if (error) {
+      logRepositoryError('Load comments error', error);
+      setError(error.message);
+      return;
+    }
+    setError(null);
+    const list = data || [];
+    setComments(list);
+
+    if (currentUser && list.length) {
+      const latest = list[list.length - 1].created_at;
+      const res = await repo.comments.markRead(
+        taskId,
+        currentUser.id,
+        latest,
+      );
+      if (res.error) logRepositoryError('Mark comments read error', res.error);
+      else onReadRef.current?.();
+    }
+  }, [taskId, currentUser?.id]);
+
+  useEffect(() => {
+    setLoading(true);
+    setComments([]);
+    load();
+    // realtime delete ไม่มี task_id มาด้วย → โหลดใหม่ทุกครั้งที่มีการลบ
+    return repo.comments.watch((change) => {
+      if (
+        change.type === 'DELETE' ||
+        (change.table === 'task_comments' && change.row?.task_id === taskId)
+      ) {
+        load();
+      }
+    });
+  }, [taskId, load]);
+
+  // เลื่อนลงล่างสุดเมื่อมี comment ใหม่
+  useEffect(() => {
+    const el = listRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [comments.length]);
+
+  const authorOf = (id: string) => {
+    const user = users.find((u) => u.id === id);
+    return user ? user.display_name || user.email : 'Unknown user';
+  };
+
+  const mentionIds = (body: string) =>
+    resolveMentions(body, users).map((u) => u.id);
+
+  const handlePost = async () => {
+    if (!currentUser || !draft.trim()) return;
+    setPosting(true);
+    const { error } = await repo.comments.create({
+      task_id: taskId,
+      author_id: currentUser.id,
+      body: draft,
+      mentions: mentionIds(draft),
+    });
+    setPosting(false);
+    if (error) {
+      logRepositoryError('Post comment error', error);
+      alert(`Cannot post comment: ${error.message}`);
+      return;
+    }
+    setDraft('');
+    load();
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingId) return;
+    const { error } = await repo.comments.update(editingId, {
+      body: editDraft,
+      mentions: mentionIds(editDraft),
+    });
+    if (error) {
+      logRepositoryError('Edit comment error', error);
+      alert(`Cannot save comment: ${error.message}`);
+      return;
+    }
+    setEditingId(null);
+    load();
+  };
+
+  const handleDelete = async (comment: TaskComment) => {
+    if (!confirm('Delete this comment?')) return;
+    const { error } = await repo.comments.remove(comment.id);
+    if (error) {
+      logRepositoryError('Delete comment error', error);
+      alert(`Cannot delete comment: ${error.message}`);
+      return;
+    }
+    load();
+  };
+
+  return (
+    <div className="comment-thread">
+      <div ref={listRef} className="comment-list">
+        {loading ? (
+          <div className="activity-empty">Loading comments…</div>
+        ) : error ? (
+          <div className="activity-empty" style={{ color: '#b91c1c' }}>
+            Cannot load comments: {error}
+          </div>
+        ) : !comments.length ? (
+          <div className="activity-empty">
+            No comments yet. Ask a question or describe what help is needed.
+          </div>
+        ) : (
+          comments.map((c) => {
+            const mine = c.author_id === currentUser?.id;
+            return (
+              <div
+                key={c.id}
+                className={
+                  'comment' +
+                  (currentUser && c.mentions?.includes(currentUser.id)
+                    ? ' is-mention'
+                    : '')
+                }
+              >
+                <div className="comment-head">
+                  <strong>{authorOf(c.author_id)}</strong>
+                  <span className="activity-time">
+                    {formatWhen(c.created_at)}
+                    {c.updated_at && ' · edited'}
+                  </span>
+                  {mine && editingId !== c.id && (
+                    <span className="comment-actions">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEditingId(c.id);
+                          setEditDraft(c.body);
+                        }}
+                      >
+                        Edit
+                      </button>
+                      <button type="button" onClick={() => handleDelete(c)}>
+                        Delete
+                      </button>
+                    </span>
+                  )}
+                </div>
+                {editingId === c.id ? (
+                  <CommentEditor
+                    value={editDraft}
+                    onChange={setEditDraft}
+                    users={users}
+                    submitLabel="Save"
+                    onSubmit={handleSaveEdit}
+                    onCancel={() => setEditingId(null)}
+                  />
+                ) : (
+                  <CommentBody
+                    body={c.body}
+                    users={users}
+                    currentUserId={currentUser?.id ?? null}
+                  />
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {currentUser ? (
+        <CommentEditor
+          value={draft}
+          onChange={setDraft}
+          users={users}
+          submitLabel={posting ? 'Posting…' : 'Comment'}
+          busy={posting}
+          onSubmit={handlePost}
+        />
+      ) : (
+        <div className="activity-empty">Sign in to comment.</div>
+      )}
+    </div>
+  );
+}
+
+// ====== markdown → React ======
+
+function CommentBody({
+  body,
+  users,
+  currentUserId,
+}: {
+  body: string;
+  users: Profile[];
+  currentUserId: string | null;
+}) {
+  const blocks = useMemo(() => parseMarkdown(body), [body]);
+  const byHandle = useMemo(() => {
+    const map: Record<string, Profile> = {};
+    users.forEach((u) => (map[mentionHandle(u)] = u));
+    return map;
+  }, [users]);
+
+  const inline = (parts: Inline[]) =>
+    parts.map((p, i) => {
+      switch (p.type) {
+        case 'bold':
+          return <strong key={i}>{p.text}</strong>;
+        case 'italic':
+          return <em key={i}>{p.text}</em>;
+        case 'strike':
+          return <s key={i}>{p.text}</s>;
+        case 'code':
+          return <code key={i}>{p.text}</code>;
+        case 'link':
+          return (
+            <a
+              key={i}
+              href={p.href}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              {p.text}
+            </a>
+          );
+        case 'mention': {
+          const user = byHandle[p.handle.toLowerCase()];
+          if (!user) return <span key={i}>{p.text}</span>;
+          return (
+            <span
+              key={i}
+              className={
+                'comment-mention' +
+                (user.id === currentUserId ? ' is-me' : '')
+              }
+              title={user.email}
+            >
+              @{user.display_name || p.handle}
+            </span>
+          );
+        }
+        default:
+          return <span key={i}>{p.text}</span>;
+      }
+    });
+
+  const lines = (list: Inline[][]) =>
+    list.map((line, i) => (
+      <span key={i}>
+        {i > 0 && <br />}
+        {inline(line)}
+      </span>
+    ));
+
+  return (
+    <div className="comment-body">
+      {blocks.map((b, i) => {
+        if (b.type === 'code') return <pre key={i}>{b.text}</pre>;
+        if (b.type === 'quote') {
+          return <blockquote key={i}>{lines(b.lines)}</blockquote>;
+        }
+        if (b.type === 'list') {
+          const items = b.items.map((item, j) => (
+            <li key={j}>{inline(item)}</li>
+          ));
+          return b.ordered ? (
+            <ol key={i}>{items}</ol>
+          ) : (
+            <ul key={i}>{items}</ul>
+          );
+        }
+        return <p key={i}>{lines(b.lines)}</p>;
+      })}
+    </div>
+  );
+}
+
+// ====== textarea + @mention autocomplete ======
+
+// "@ab" ที่อยู่ก่อน cursor (ยังพิมพ์ไม่จบ)
+const MENTION_QUERY_RE = /(^|[^a-zA-Z0-9._-])@([a-zA-Z0-9._-]*)$/;
+
+function CommentEditor({
+  value,
+  onChange,
+  users,
+  submitLabel,
+  busy = false,
+  onSubmit,
+  onCancel,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  users: Profile[];
+  submitLabel: string;
+  busy?: boolean;
+  onSubmit: () => void;
+  onCancel?: () => void;
+}) {
+  const inputRef = useRef<HTMLTextAreaElement | null>(null);
+  const [mention, setMention] = useState<{
+    start: number;
+    query: string;
+  } | null>(null);
+  const [active, setActive] = useState(0);
+
+  const suggestions = useMemo(
+    () => (mention ? mentionSuggestions(mention.query, users) : []),
+    [mention, users],
+  );
+
+  const updateMention = (el: HTMLTextAreaElement) => {
+    const before = el.value.slice(0, el.selectionStart ?? el.value.length);
+    const m = MENTION_QUERY_RE.exec(before);
+    setMention(
+      m ? { start: before.length - m[2].length - 1, query: m[2] } : null,
+    );
+    setActive(0);
+  };
+
+  const pick = (user: Profile) => {
+    const el = inputRef.current;
+    if (!el || !mention) return;
+    const cursor = el.selectionStart ?? value.length;
+    const insert = `@${mentionHandle(user)} `;
+    onChange(value.slice(0, mention.start) + insert + value.slice(cursor));
+    setMention(null);
+    const pos = mention.start + insert.length;
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(pos, pos);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActive((i) => (i + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        pick(suggestions[active]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        setMention(null);
+        return;
+      }
+    }
+    // Ctrl/Cmd + Enter = ส่ง
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="comment-editor">
+      <textarea
+        ref={inputRef}
+        className="textarea"
+        rows={3}
+        value={value}
+        placeholder="Write a comment… Type @ to mention someone."
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateMention(e.target);
+        }}
+        onClick={(e) => updateMention(e.currentTarget)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setTimeout(() => setMention(null), 150)}
+      />
+      {suggestions.length > 0 && (
+        <div className="mention-suggestions">
+          {suggestions.map((u, i) => (
+            <button
+              key={u.id}
+              type="button"
+              className={i === active ? 'is-active' : undefined}
+              onMouseDown={(e) => {
+                e.preventDefault(); // ไม่ให้ textarea blur ก่อนเลือก
+                pick(u);
+              }}
+            >
+              <strong>{u.display_name || u.email}</strong>
+              <span>@{mentionHandle(u)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="comment-editor-footer">
+        <span>
+          **bold**, *italic*, `code`, - lists and links · Ctrl+Enter to send
+        </span>
+        {onCancel && (
+          <button type="button" className="btn btn-ghost" onClick={onCancel}>
+            Cancel
+          </button>
+        )}
+        <button
+          type="button"
+          className="btn btn-primary"
+          onClick={onSubmit}
+          disabled={busy || !value.trim()}
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -5,16 +5,268 @@ import 'frappe-gantt/dist/frappe-gantt.css';
 import { useEffect, useMemo, useRef, useState } from 'react';
 // @ts-ignore
 import Gantt from 'frappe-gantt';
-import { Task } from '../types';
-import { supabase } from '../utils/supabase';
+import type { Task, Team, Profile, Baseline, BaselineItem } from '../types';
+import { repo } from '../utils/supabase';
+import { logRepositoryError } from '../utils/repository';
+import GanttTreeGrid from './GanttTreeGrid';
+import WorkloadHistogram from './WorkloadHistogram';
+import {
+  diffTask,
+  makeHistoryEntry,
+  type HistoryEntry,
+} from '../utils/history';
+import {
+  computeCriticalPath,
+  findDependencyCycle,
+  formatDependencies,
+  parseDependencies,
+  planBulkShift,
+  planDependentShift,
+  shiftDelta,
+  withRollupUpdates,
+  type ScheduleChange,
+} from '../utils/schedule';
+import { formatInputDate, resolveBarDrag } from '../utils/dates';
+import {
+  WORK_TYPES,
+  normalizeWorkType,
+  GROUP_LEVELS,
+  GROUPING_PRESETS,
+  buildTreeRows,
+  groupingKey,
+  parseGrouping,
+  planTreeDrop,
+  type DropPosition,
+  type GroupLevel,
+  type Grouping,
+  type TreeRow,
+} from '../utils/ganttTree';
+import { computeWorkload, type WorkloadBucket } from '../utils/workload';
+import type { ScheduleIssue } from '../utils/validation';
+import {
+  describeRecurrence,
+  pendingOccurrences,
+  recurrenceStep,
+  type Occurrence,
+} from '../utils/recurrence';
+import {
+  LONG_SCALES,
+  buildLongScaleTicks,
+  clampZoom,
+  isLongScale,
+  padLongScaleRange,
+  ZOOM_MAX,
+  ZOOM_MIN,
+  type LongScale,
+  type ScaleTick,
+} from '../utils/ganttScales';
+import {
+  buildGanttExport,
+  downloadPng,
+  downloadSvg,
+  openPrintLayout,
+} from '../utils/ganttExport';
+import {
+  addWorkingDays,
+  countWorkingDays,
+  holidayName,
+  isWorkingDay,
+  type WorkCalendar,
+} from '../utils/workCalendar';
 
 interface GanttProps {
   tasks: Task[];
+  // ทุก task ที่ผู้ใช้เห็นได้ (ไม่ผ่าน filter ของหน้าจอ) ใช้หา dependent ตอน auto-schedule,
+  // critical path และ snapshot baseline (RLS ให้เก็บเฉพาะ task ที่เห็นได้)
+  allTasks?: Task[];
   onTaskUpdate: () => void;
   onTaskClick: (task: Task) => void;
+  canEdit?: boolean;
+
+  // ปฏิทินวันทำงาน: shade วันหยุด + นับ/เลื่อนวันเฉพาะวันทำงาน
+  calendar?: WorkCalendar;
+  workingDaysOnly?: boolean;
+  onWorkingDaysOnlyChange?: (value: boolean) => void;
+  onImportCalendar?: (file: File) => void;
+
+  // ใช้แสดงชื่อทีมเมื่อ group ตาม team
+  teams?: Team[];
+
+  // คอลัมน์ใน tree: รายชื่อ assignee + โหลดใหม่แบบไม่ขึ้นหน้า loading
+  users?: Profile[];
+  onTaskRefresh?: () => void;
+
+  // บันทึกการแก้ลง undo stack
+  onHistory?: (entry: HistoryEntry) => void;
+
+  // ผลตรวจความสอดคล้องของแผน (แสดง ⚠ ใน tree)
+  issues?: Record<string, ScheduleIssue[]>;
+
+  // task ที่คนอื่นเพิ่งแก้ (realtime) → ไฮไลต์ทั้ง row และ bar
+  highlightIds?: string[];
 }
 
-type ViewMode = 'Day' | 'Week' | 'Month';
+type ViewMode = 'Day' | 'Week' | 'Month' | LongScale;
+
+const VIEW_MODES: ViewMode[] = [
+  'Day',
+  'Week',
+  'Month',
+  'Quarter',
+  'Half-year',
+  'Year',
+];
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// ขนาด row ต้องตรงกับ .gantt-tree-row (42px) ให้ tree กับ Gantt ตรงกัน
+const BAR_HEIGHT = 24;
+const BAR_PADDING = 18;
+const ROW_HEIGHT = BAR_HEIGHT + BAR_PADDING;
+const HEADER_HEIGHT = 50; // header_height default ของ frappe-gantt
+
+// virtualization: render เพิ่มเหนือ/ใต้จอ และขยับ window ทีละ chunk (ลดจำนวน refresh)
+const ROW_OVERSCAN = 15;
+const ROW_CHUNK = 10;
+
+/**
+ * frappe-gantt คำนวณช่วงวันที่จาก task ที่ส่งเข้าไป ถ้าส่งแค่ row ที่มองเห็น
+ * แกนวันที่จะเปลี่ยนทุกครั้งที่ scroll → ขยายช่วงด้วย options.range_anchor
+ *
+ * เพิ่ม scale ระยะยาว (Quarter / Half-year / Year ตามปีงบ) และ options.zoom
+ * ที่คูณความกว้าง column ของทุก view mode
+ */
+class StableRangeGantt extends (Gantt as any) {
+  constructor(wrapper: HTMLElement, tasks: any[], options: any) {
+    super(wrapper, tasks, options);
+  }
+
+  update_view_scale(viewMode: string) {
+    const self = this as any;
+    if (isLongScale(viewMode)) {
+      self.options.view_mode = viewMode;
+      self.options.step = 24;
+      self.options.column_width = LONG_SCALES[viewMode].dayWidth;
+    } else {
+      super.update_view_scale(viewMode);
+    }
+    self.options.column_width *= self.options.zoom || 1;
+  }
+
+  // bar ที่ถูกเลือกไว้หลายตัว: ลากตัวหนึ่งแล้วตัวที่เลือกขยับตามทั้งชุด
+  // auto-schedule: ไม่ให้ frappe ลาก dependents เอง (planDependentShift วางแผนทั้ง chain จาก bar ที่ลาก)
+  // frappe เรียกตอน mousedown เท่านั้น → ใช้บอก bar ที่ user ลากด้วย
+  get_all_dependent_tasks(taskId: string) {
+    const self = this as any;
+    self.options.on_drag_start?.(taskId);
+    const deps: string[] = super.get_all_dependent_tasks(taskId);
+    const selected: string[] = self.options.get_selection?.() || [];
+    if (!selected.includes(taskId)) {
+      return self.options.get_auto_schedule?.() ? [] : deps;
+    }
+    const extra = selected.filter(
+      (id) => id !== taskId && !deps.includes(id) && self.get_bar(id),
+    );
+    return [...deps, ...extra];
+  }
+
+  setup_gantt_dates() {
+    const self = this as any;
+    const anchor = self.options.range_anchor;
+    const tasks = self.tasks;
+    const all = anchor
+      ? tasks.concat([{ _start: anchor.start, _end: anchor.end }])
+      : tasks;
+
+    const mode = self.options.view_mode;
+    if (isLongScale(mode)) {
+      let start: Date | null = null;
+      let end: Date | null = null;
+      for (const t of all) {
+        if (!start || t._start < start) start = t._start;
+        if (!end || t._end > end) end = t._end;
+      }
+      const range = padLongScaleRange(mode, start!, end!);
+      self.gantt_start = range.start;
+      self.gantt_end = range.end;
+      return;
+    }
+
+    self.tasks = all;
+    super.setup_gantt_dates();
+    self.tasks = tasks;
+  }
+
+  setup_date_values() {
+    const self = this as any;
+    if (!isLongScale(self.options.view_mode)) {
+      super.setup_date_values();
+      return;
+    }
+    // 1 column = 1 วัน
+    self.dates = [];
+    const cur = new Date(self.gantt_start);
+    while (cur < self.gantt_end) {
+      self.dates.push(new Date(cur));
+      cur.setDate(cur.getDate() + 1);
+    }
+  }
+
+  longScaleTicks(): ScaleTick[] {
+    const self = this as any;
+    return buildLongScaleTicks(
+      self.options.view_mode,
+      self.gantt_start,
+      self.gantt_end,
+      self.options.column_width,
+    );
+  }
+
+  make_grid_ticks() {
+    const self = this as any;
+    if (!isLongScale(self.options.view_mode)) {
+      super.make_grid_ticks();
+      return;
+    }
+    const { header_height, padding, bar_height } = self.options;
+    const y = header_height + padding / 2;
+    const height = (bar_height + padding) * self.tasks.length;
+
+    for (const tick of this.longScaleTicks()) {
+      if (tick.row !== 'lower') continue;
+      const path = document.createElementNS(SVG_NS, 'path');
+      path.setAttribute('d', `M ${tick.x} ${y} v ${height}`);
+      path.setAttribute('class', tick.thick ? 'tick thick' : 'tick');
+      self.layers.grid.appendChild(path);
+    }
+  }
+
+  make_dates() {
+    const self = this as any;
+    if (!isLongScale(self.options.view_mode)) {
+      super.make_dates();
+      return;
+    }
+    const { header_height } = self.options;
+
+    for (const tick of this.longScaleTicks()) {
+      // label ไม่พอที่ → ไม่วาด (ซูมออกมาก ๆ)
+      if (tick.width < tick.label.length * 6) continue;
+      const text = document.createElementNS(SVG_NS, 'text');
+      text.setAttribute('x', String(tick.x + tick.width / 2));
+      text.setAttribute(
+        'y',
+        String(tick.row === 'lower' ? header_height : header_height - 25),
+      );
+      text.setAttribute(
+        'class',
+        tick.row === 'lower' ? 'lower-text' : 'upper-text',
+      );
+      text.textContent = tick.label;
+      self.layers.date.appendChild(text);
+    }
+  }
+}
 
 // -------- helper: date utils --------
 function toDate(value: string | null | undefined): Date | null {
@@ -23,11 +275,55 @@ function toDate(value: string | null | undefined): Date | null {
   return Number.isNaN(d.getTime()) ? null : d;
 }
 
-function formatInputDate(d: Date) {
-  const y = d.getFullYear();
-  const m = String(d.getMonth() + 1).padStart(2, '0');
-  const day = String(d.getDate()).padStart(2, '0');
-  return `${y}-${m}-${day}`;
+// จำนวนวันระหว่าง 'YYYY-MM-DD' สองค่า (b - a)
+function diffDays(a: string, b: string) {
+  return Math.round(
+    (new Date(b).getTime() - new Date(a).getTime()) / (24 * 60 * 60 * 1000),
+  );
+}
+
+function markSelectedDependency(
+  svgEl: SVGSVGElement | null | undefined,
+  selected: { from: string; to: string } | null,
+) {
+  svgEl?.querySelectorAll('.arrow path[data-from]').forEach((el) => {
+    const isSelected =
+      !!selected &&
+      el.getAttribute('data-from') === selected.from &&
+      el.getAttribute('data-to') === selected.to &&
+      !el.classList.contains('dependency-hit');
+    el.classList.toggle('is-selected-arrow', isSelected);
+  });
+}
+
+// ใส่ / ถอด class ของ bar ตาม id (multi-select, realtime highlight)
+function markBars(svgEl: SVGSVGElement, className: string, ids: string[]) {
+  svgEl.querySelectorAll('.bar-wrapper').forEach((el) => {
+    el.classList.toggle(
+      className,
+      ids.includes(el.getAttribute('data-id') || ''),
+    );
+  });
+}
+
+// แปลงวันที่ → ตำแหน่ง x ใน SVG ของ frappe-gantt (สูตรเดียวกับ Bar.compute_x)
+function dateToX(gantt: any, value: string | Date): number | null {
+  const d = value instanceof Date ? value : toDate(value);
+  const ganttStart: Date | undefined = gantt?.gantt_start;
+  if (!d || !ganttStart) return null;
+
+  // 'YYYY-MM-DD' parse เป็น UTC → ขยับเป็นเที่ยงคืน local ให้ตรงกับ gantt
+  const local =
+    value instanceof Date
+      ? d
+      : new Date(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+
+  const { step, column_width, view_mode } = gantt.options;
+  const diffHours = (local.getTime() - ganttStart.getTime()) / 36e5;
+  if (view_mode === 'Month') {
+    return ((diffHours / 24) * column_width) / 30;
+  }
+  return (diffHours / step) * column_width;
 }
 
 // check ว่างานตัดกับ range หรือไม่
@@ -54,71 +350,252 @@ function rangesIntersect(
   return true;
 }
 
-// -------- Tree row model (user > category > task) --------
-
-type TreeRowKind = 'user' | 'category' | 'task';
-
-type TreeRow =
-  | {
-      kind: 'user';
-      id: string; // e.g. "user:abcd"
-      depth: number;
-      label: string;
-      userKey: string; // assignee key
-    }
-  | {
-      kind: 'category';
-      id: string; // e.g. "cat:userKey:routine"
-      depth: number;
-      label: string;
-      userKey: string;
-      workType: string;
-    }
-  | {
-      kind: 'task';
-      id: string; // task.id
-      depth: number;
-      label: string;
-      task: Task;
-    };
+const AUTO_SCHEDULE_STORAGE_KEY = 'gantt-auto-schedule';
+const ZOOM_STORAGE_KEY = 'gantt-zoom';
+const GROUPING_STORAGE_KEY = 'gantt-grouping';
+const COLLAPSE_STORAGE_KEY = 'gantt-collapsed';
+const WORKLOAD_STORAGE_KEY = 'gantt-workload';
+const WORKLOAD_CAPACITY_STORAGE_KEY = 'gantt-workload-capacity';
+const RECURRING_STORAGE_KEY = 'gantt-recurring';
+const HIDE_OUT_OF_RANGE_STORAGE_KEY = 'gantt-hide-out-of-range';
+
+// scale ปัจจุบันของ Gantt ที่ histogram ต้องใช้วางตำแหน่งให้ตรงกัน
+interface GanttScale {
+  gantt_start: Date;
+  gantt_end: Date;
+  options: { step: number; column_width: number; view_mode: string };
+  width: number;
+}
 
-// mapping ประเภทงาน (work_type) → label ภาษาไทย
-const WORK_TYPES: { value: string; label: string }[] = [
-  { value: 'routine', label: 'งานประจำ' },
-  { value: 'strategic', label: 'งานยุทธศาสตร์' },
-  { value: 'process_improvement', label: 'งานพัฒนากระบวนการ' },
-  { value: 'self_development', label: 'งานพัฒนาตนเอง' },
-  { value: 'other', label: 'งานอื่นๆ' },
-];
+function readGanttScale(gantt: any): GanttScale {
+  const row = gantt.$svg.querySelector('.grid .grid-row');
+  return {
+    gantt_start: gantt.gantt_start,
+    gantt_end: gantt.gantt_end,
+    options: {
+      step: gantt.options.step,
+      column_width: gantt.options.column_width,
+      view_mode: gantt.options.view_mode,
+    },
+    width: Number(row?.getAttribute('width')) || 0,
+  };
+}
 
-function normalizeWorkType(raw: string | null | undefined): string {
-  const v = raw || 'routine';
-  if (WORK_TYPES.some((w) => w.value === v)) return v;
-  return 'other';
+function sameScale(a: GanttScale | null, b: GanttScale): boolean {
+  return (
+    !!a &&
+    a.gantt_start.getTime() === b.gantt_start.getTime() &&
+    a.gantt_end.getTime() === b.gantt_end.getTime() &&
+    a.options.step === b.options.step &&
+    a.options.column_width === b.options.column_width &&
+    a.options.view_mode === b.options.view_mode &&
+    a.width === b.width
+  );
 }
 
 export default function GanttChart({
   tasks,
+  allTasks,
   onTaskUpdate,
   onTaskClick,
+  canEdit = true,
+  calendar,
+  workingDaysOnly = false,
+  onWorkingDaysOnlyChange,
+  onImportCalendar,
+  teams = [],
+  users = [],
+  onTaskRefresh,
+  onHistory,
+  issues,
+  highlightIds = [],
 }: GanttProps) {
   const ganttRef = useRef<HTMLDivElement | null>(null);
   const treeRef = useRef<HTMLDivElement | null>(null);
   const bodyScrollRef = useRef<HTMLDivElement | null>(null);
+  // instance ล่าสุดของ frappe-gantt (สร้างครั้งเดียวต่อ view mode แล้วใช้ refresh)
+  const ganttInstanceRef = useRef<any>(null);
+  const handlersRef = useRef<Record<string, (...args: any[]) => any>>({});
+
+  // ช่วง row ที่ render จริง [start, end)
+  const [rowWindow, setRowWindow] = useState({ start: 0, end: 60 });
 
   const [viewMode, setViewMode] = useState<ViewMode>('Week');
-  const [collapsedParents, setCollapsedParents] = useState<Set<string>>(
-    () => new Set(),
+
+  // zoom ต่อเนื่อง: คูณความกว้าง column (slider / Ctrl + wheel)
+  const [zoom, setZoom] = useState<number>(() => {
+    if (typeof window === 'undefined') return 1;
+    const saved = Number(window.localStorage.getItem(ZOOM_STORAGE_KEY));
+    return saved ? clampZoom(saved) : 1;
+  });
+
+  useEffect(() => {
+    window.localStorage.setItem(ZOOM_STORAGE_KEY, String(zoom));
+  }, [zoom]);
+
+  // grouping ของ tree (เลือก/เรียงลำดับชั้นได้) จำไว้ใน localStorage
+  const [grouping, setGrouping] = useState<Grouping>(() =>
+    typeof window === 'undefined'
+      ? parseGrouping(null)
+      : parseGrouping(window.localStorage.getItem(GROUPING_STORAGE_KEY)),
   );
 
-  // ใช้จำว่าเรา set default collapse ไปแล้วหรือยัง (กันทำซ้ำ)
-  const initialCollapseAppliedRef = useRef(false);
+  // row ที่ collapse แยกตาม grouping (key = groupingKey)
+  const [collapsedByGrouping, setCollapsedByGrouping] = useState<
+    Record<string, string[]>
+  >(() => {
+    if (typeof window === 'undefined') return {};
+    try {
+      return JSON.parse(
+        window.localStorage.getItem(COLLAPSE_STORAGE_KEY) || '{}',
+      );
+    } catch {
+      return {};
+    }
+  });
+
+  const currentGroupingKey = groupingKey(grouping);
+  const collapsedParents = useMemo(
+    () => new Set(collapsedByGrouping[currentGroupingKey] || []),
+    [collapsedByGrouping, currentGroupingKey],
+  );
+
+  useEffect(() => {
+    window.localStorage.setItem(GROUPING_STORAGE_KEY, JSON.stringify(grouping));
+  }, [grouping]);
+
+  useEffect(() => {
+    window.localStorage.setItem(
+      COLLAPSE_STORAGE_KEY,
+      JSON.stringify(collapsedByGrouping),
+    );
+  }, [collapsedByGrouping]);
 
   // filter ประเภทงาน (ค่าเริ่มต้น = แสดงทุกประเภท)
   const [workTypeFilter, setWorkTypeFilter] = useState<string[]>(() =>
     WORK_TYPES.map((w) => w.value),
   );
 
+  // ไฮไลต์ critical path (ค่าเริ่มต้น = เปิด)
+  const [showCriticalPath, setShowCriticalPath] = useState(true);
+
+  // แสดงรอบถัดไปของงานที่ทำซ้ำเป็น ghost bar (ค่าเริ่มต้น = เปิด)
+  const [showRecurring, setShowRecurring] = useState<boolean>(() => {
+    if (typeof window === 'undefined') return true;
+    return window.localStorage.getItem(RECURRING_STORAGE_KEY) !== '0';
+  });
+
+  useEffect(() => {
+    window.localStorage.setItem(
+      RECURRING_STORAGE_KEY,
+      showRecurring ? '1' : '0',
+    );
+  }, [showRecurring]);
+
+  // auto-schedule: ลาก bar แล้วเลื่อน task ที่พึ่งพาตามไปด้วย (opt-in, จำไว้ใน localStorage)
+  const [autoSchedule, setAutoSchedule] = useState<boolean>(() => {
+    if (typeof window === 'undefined') return false;
+    return window.localStorage.getItem(AUTO_SCHEDULE_STORAGE_KEY) === '1';
+  });
+  const [pendingShift, setPendingShift] = useState<ScheduleChange[] | null>(
+    null,
+  );
+  const [savingShift, setSavingShift] = useState(false);
+  const autoScheduleRef = useRef(autoSchedule);
+  autoScheduleRef.current = autoSchedule;
+
+  // multi-select: shift-click / ลากกรอบบนพื้นที่ว่าง แล้วเลื่อนทั้งชุด
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const selectedIdsRef = useRef<string[]>([]);
+  selectedIdsRef.current = selectedIds;
+  const [shiftDialogDays, setShiftDialogDays] = useState<string | null>(null);
+  // bar ที่ frappe ขยับใน mouseup เดียวกัน (ตัวที่ลาก + dependents + ที่เลือก)
+  const dateChangeQueueRef = useRef<{ task: any; start: Date; end: Date }[]>(
+    [],
+  );
+  const dragLeadRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    window.localStorage.setItem(
+      AUTO_SCHEDULE_STORAGE_KEY,
+      autoSchedule ? '1' : '0',
+    );
+  }, [autoSchedule]);
+
+  // workload histogram ใต้ Gantt (opt-in) + จำนวนงานพร้อมกันที่รับได้ต่อคน
+  const [showWorkload, setShowWorkload] = useState<boolean>(() => {
+    if (typeof window === 'undefined') return false;
+    return window.localStorage.getItem(WORKLOAD_STORAGE_KEY) === '1';
+  });
+  const [workloadCapacity, setWorkloadCapacity] = useState<number>(() => {
+    if (typeof window === 'undefined') return 3;
+    const saved = Number(
+      window.localStorage.getItem(WORKLOAD_CAPACITY_STORAGE_KEY),
+    );
+    return saved >= 1 ? saved : 3;
+  });
+  const [ganttScale, setGanttScale] = useState<GanttScale | null>(null);
+  const workloadScrollRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    window.localStorage.setItem(WORKLOAD_STORAGE_KEY, showWorkload ? '1' : '0');
+  }, [showWorkload]);
+
+  useEffect(() => {
+    window.localStorage.setItem(
+      WORKLOAD_CAPACITY_STORAGE_KEY,
+      String(workloadCapacity),
+    );
+  }, [workloadCapacity]);
+
+  // baseline: รายการ snapshot + ตัวที่เลือกมาแสดงเป็น ghost bar
+  const [baselines, setBaselines] = useState<Baseline[]>([]);
+  const [baselineId, setBaselineId] = useState<string | null>(null);
+  const [baselineItems, setBaselineItems] = useState<
+    Record<string, BaselineItem>
+  >({});
+
+  const loadBaselines = async () => {
+    const { data, error } = await repo.baselines.list();
+    if (error) {
+      logRepositoryError('baselines error:', error);
+      return;
+    }
+    setBaselines(data || []);
+  };
+
+  useEffect(() => {
+    loadBaselines();
+  }, []);
+
+  useEffect(() => {
+    if (!baselineId) {
+      setBaselineItems({});
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      const { data, error } = await repo.baselines.items(baselineId);
+      if (error) {
+        logRepositoryError('baseline items error:', error);
+        return;
+      }
+      if (cancelled) return;
+
+      const map: Record<string, BaselineItem> = {};
+      for (const item of data || []) {
+        map[item.task_id] = item;
+      }
+      setBaselineItems(map);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [baselineId]);
+
   // ช่วงวันที่ให้ user เลือก
   const [viewFrom, setViewFrom] = useState<string | null>(null);
   const [viewTo, setViewTo] = useState<string | null>(null);
@@ -136,16 +613,26 @@ export default function GanttChart({
     setViewTo(formatInputDate(to));
   }, []);
 
+  // ซ่อนงานที่ไม่ตัดกับ view range (ปิด = แสดงทุกงาน, bar ที่เกินถูกตัดที่ขอบ)
+  const [hideOutOfRange, setHideOutOfRange] = useState<boolean>(() => {
+    if (typeof window === 'undefined') return false;
+    return window.localStorage.getItem(HIDE_OUT_OF_RANGE_STORAGE_KEY) === '1';
+  });
+
+  useEffect(() => {
+    window.localStorage.setItem(
+      HIDE_OUT_OF_RANGE_STORAGE_KEY,
+      hideOutOfRange ? '1' : '0',
+    );
+  }, [hideOutOfRange]);
+
   // 1) filter งานตามช่วงวันที่
-  //const dateFilteredTasks = useMemo(() => {
-  //  return (tasks || []).filter((t) =>
-  //    rangesIntersect(t.start_date, t.end_date, viewFrom, viewTo),
-  //  );
-  //}, [tasks, viewFrom, viewTo]);
-  
   const dateFilteredTasks = useMemo(() => {
-    return tasks || [];
-  }, [tasks]);
+    if (!hideOutOfRange) return tasks || [];
+    return (tasks || []).filter((t) =>
+      rangesIntersect(t.start_date, t.end_date, viewFrom, viewTo),
+    );
+  }, [tasks, viewFrom, viewTo, hideOutOfRange]);
 
   // map สำหรับหา Task จาก id ได้เร็ว ๆ (ใช้ใน popup / update)
   const taskById = useMemo(() => {
@@ -156,6 +643,13 @@ export default function GanttChart({
     return map;
   }, [dateFilteredTasks]);
 
+  // total float / critical flag ของแต่ละ task คำนวณจาก dependencies + วันที่
+  // คิดจากทุก task (filter แค่ซ่อนการแสดงผล ไม่ควรทำให้ float เปลี่ยน)
+  const criticalPath = useMemo(
+    () => computeCriticalPath(allTasks || tasks || []),
+    [allTasks, tasks],
+  );
+
   // ใช้บอกว่า task ไหนมีลูก (subtask) เอาไปแสดง caret ใน tree
   const taskHasChildren = useMemo(() => {
     const map: Record<string, boolean> = {};
@@ -167,330 +661,1056 @@ export default function GanttChart({
     return map;
   }, [dateFilteredTasks]);
 
+  // filter ประเภทงานใช้กับทุก grouping
+  const groupedTasks = useMemo(
+    () =>
+      dateFilteredTasks.filter((t) =>
+        workTypeFilter.includes(normalizeWorkType(t.work_type)),
+      ),
+    [dateFilteredTasks, workTypeFilter],
+  );
+
   /**
-   * 2) เตรียม treeRows = [ user > category > task/subtask ... ]
+   * 2) เตรียม treeRows ตาม grouping ที่เลือก (เช่น assignee > work type > task/subtask)
    *    เพื่อให้ทั้ง tree ซ้าย และ Gantt ขวา ใช้ลำดับ row เดียวกัน
    */
-  const treeRows = useMemo<TreeRow[]>(() => {
-    const rows: TreeRow[] = [];
+  const treeRows = useMemo<TreeRow[]>(
+    () => buildTreeRows(groupedTasks, grouping, collapsedParents, teams),
+    [groupedTasks, grouping, collapsedParents, teams],
+  );
 
-    if (!dateFilteredTasks.length) return rows;
+  const visibleRows = useMemo(
+    () => treeRows.slice(rowWindow.start, rowWindow.end),
+    [treeRows, rowWindow],
+  );
 
-    // group tasks ตาม assignee (user)
-    const byUser: Record<
-      string,
-      {
-        label: string;
-        tasks: Task[];
+  // grouping ที่ยังไม่เคยเปิด: collapse group ชั้นที่ 2 ลงไป (เหมือน category เดิม)
+  useEffect(() => {
+    if (collapsedByGrouping[currentGroupingKey]) return;
+    if (!groupedTasks.length) return;
+
+    const defaults = buildTreeRows(groupedTasks, grouping, new Set(), teams)
+      .filter((row) => row.kind === 'group' && row.depth >= 1)
+      .map((row) => row.id);
+
+    setCollapsedByGrouping((prev) => ({
+      ...prev,
+      [currentGroupingKey]: defaults,
+    }));
+  }, [currentGroupingKey, groupedTasks]);
+
+  // แปลง treeRow → task ของ frappe-gantt (1 row ต่อ 1 treeRow เสมอ)
+  const toGanttTask = (row: TreeRow) => {
+    if (row.kind === 'task') {
+      const t = row.task;
+      const realStart = (t.start_date ?? t.end_date)?.slice(0, 10) ?? null;
+      // milestone = 1 จุดเวลา (ใช้ start_date เป็นหลัก)
+      const realEnd = t.is_milestone
+        ? realStart
+        : ((t.end_date ?? t.start_date)?.slice(0, 10) ?? null);
+
+      // ตัด bar ให้อยู่ใน view range (วันจริงเก็บไว้ใน real_start / real_end)
+      let shownStart = realStart;
+      let shownEnd = realEnd;
+      if (viewFrom && shownStart && shownStart < viewFrom) shownStart = viewFrom;
+      if (viewTo && shownEnd && shownEnd > viewTo) shownEnd = viewTo;
+      // ทั้ง bar อยู่นอก range → เหลือ 1 วันที่ขอบด้านนั้น
+      const outOfRange = !!(shownStart && shownEnd && shownEnd < shownStart);
+      if (outOfRange) {
+        if (viewFrom && realEnd! < viewFrom) shownEnd = shownStart;
+        else shownStart = shownEnd;
       }
-    > = {};
+      const clampedStart = shownStart !== realStart;
+      const clampedEnd = shownEnd !== realEnd;
 
-    for (const t of dateFilteredTasks) {
-      const key = t.assignee || '__unassigned__';
-      if (!byUser[key]) {
-        byUser[key] = {
-          label: key === '__unassigned__' ? 'Unassigned' : key,
-          tasks: [],
-        };
-      }
-      byUser[key].tasks.push(t);
+      const isCritical =
+        showCriticalPath && !!criticalPath[t.id]?.critical;
+      // parent = summary bar (วันที่/progress rollup มาจาก subtask แล้ว)
+      const isSummary = !!taskHasChildren[t.id];
+
+      return {
+        id: row.id,
+        name: row.label,
+        start: shownStart,
+        end: shownEnd,
+        progress: t.progress ?? 0,
+        dependencies: t.dependencies || '',
+        custom_class: `status-${(t.status || '')
+          .toLowerCase()
+          .replace(/\s/g, '')}${isCritical ? ' is-critical' : ''}${
+          isSummary ? ' is-summary' : ''
+        }${t.is_milestone ? ' is-milestone' : ''}${
+          outOfRange ? ' is-out-of-range' : ''
+        }`,
+        real_start: realStart,
+        real_end: realEnd,
+        shown_start: shownStart,
+        shown_end: shownEnd,
+        clamped_start: clampedStart,
+        clamped_end: clampedEnd,
+      };
     }
 
-    const sortedUserKeys = Object.keys(byUser).sort((a, b) =>
-      byUser[a].label.localeCompare(byUser[b].label),
-    );
+    // กรณี group row → ใช้ "fake task" เพื่อเก็บ row height ให้ align กับ tree
+    const baseDate =
+      viewFrom && toDate(viewFrom) ? toDate(viewFrom)! : new Date();
+    const startStr = formatInputDate(baseDate);
+
+    // ให้ end = start + 1 day กัน error duration 0
+    const endDate = new Date(baseDate);
+    endDate.setDate(endDate.getDate() + 1);
+    const endStr = formatInputDate(endDate);
+
+    const customClass =
+      row.depth === 0 ? 'row-user-header' : 'row-category-header';
+
+    return {
+      id: row.id,
+      name: row.label,
+      start: startStr,
+      end: endStr,
+      progress: 0,
+      dependencies: '',
+      custom_class: customClass,
+    };
+  };
 
-    for (const userKey of sortedUserKeys) {
-      const userInfo = byUser[userKey];
-      const userRowId = `user:${userKey}`;
-      const userCollapsed = collapsedParents.has(userRowId);
-
-      // User row (depth 0)
-      rows.push({
-        kind: 'user',
-        id: userRowId,
-        depth: 0,
-        label: userInfo.label,
-        userKey,
-      });
+  // ช่วงวันที่ของ Gantt คำนวณจากทุก row (ไม่ใช่แค่ row ที่มองเห็น) กันแกนวันที่กระโดดตอน scroll
+  // ขอบที่ตั้ง view range ไว้ใช้ตามนั้น (bar ที่เกินถูกตัด) ขอบที่ว่างขยายตามงาน
+  const ganttRange = useMemo(() => {
+    let start: Date | null = viewFrom ? toDate(viewFrom) : null;
+    let end: Date | null = viewTo ? toDate(viewTo) : null;
+    for (const row of treeRows) {
+      if (row.kind !== 'task') continue;
+      const s = toDate(row.task.start_date);
+      const e = toDate(row.task.end_date);
+      if (!viewFrom && s && (!start || s < start)) start = s;
+      if (!viewTo && e && (!end || e > end)) end = e;
+    }
+    if (!start || !end) return null;
+    return { start, end };
+  }, [treeRows, viewFrom, viewTo]);
+
+  const createGantt = (el: HTMLElement, ganttTasks: any[]) =>
+    new StableRangeGantt(el, ganttTasks, {
+      view_mode: viewMode,
+      date_format: 'YYYY-MM-DD',
+      bar_height: BAR_HEIGHT,
+      padding: BAR_PADDING,
+      arrow_curve: 5,
+      range_anchor: ganttRange,
+      zoom,
+      get_selection: () => selectedIdsRef.current,
+      get_auto_schedule: () => autoScheduleRef.current,
+      on_drag_start: (id: string) => {
+        dragLeadRef.current = id;
+      },
+      custom_popup_html: (task: any) =>
+        handlersRef.current.custom_popup_html(task),
+      on_click: (task: any) => handlersRef.current.on_click(task),
+      on_date_change: (task: any, start: Date, end: Date) =>
+        handlersRef.current.on_date_change(task, start, end),
+      on_progress_change: (task: any, progress: number) =>
+        handlersRef.current.on_progress_change(task, progress),
+    });
 
-      // ถ้า user ถูก collapse → ไม่สร้าง category / task ใต้ user นี้เลย
-      if (userCollapsed) {
-        continue;
+  // handler ของ frappe-gantt อ่านผ่าน ref เพื่อให้ instance เดิมใช้ state ล่าสุดเสมอ
+  // (refresh ได้โดยไม่ต้องสร้าง Gantt ใหม่)
+  handlersRef.current = {
+    custom_popup_html: (task: any) => {
+      const original = taskById[task.id];
+
+      // ถ้าเป็น row header (user / category) ไม่ต้องขึ้น popup
+      if (!original) return '';
+
+      const formatDate = (value: any) => {
+        if (value == null) return '';
+        const d = value instanceof Date ? value : new Date(value);
+        if (Number.isNaN(d.getTime())) return '';
+        return d.toLocaleDateString('en-GB', {
+          day: '2-digit',
+          month: 'short',
+          year: 'numeric',
+        });
+      };
+
+      // วันจริงของ task (bar อาจถูกตัดตาม view range)
+      const startLabel = formatDate(task.real_start);
+      const endLabel = formatDate(task.real_end);
+      const clampedLine =
+        task.clamped_start || task.clamped_end
+          ? `<div style="color:#b45309;margin-bottom:2px">
+               Continues ${
+                 task.clamped_start && task.clamped_end
+                   ? 'beyond both ends of'
+                   : task.clamped_start
+                     ? 'before'
+                     : 'after'
+               } the view range
+             </div>`
+          : '';
+
+      const durationLine =
+        original.start_date && original.end_date
+          ? `<div style="display:flex;justify-content:space-between;color:#64748b;margin-bottom:2px">
+               <span>Duration</span>
+               <span style="font-weight:600;color:#0f172a">${
+                 workingDaysOnly && calendar
+                   ? `${countWorkingDays(calendar, original.start_date, original.end_date, original.team_id)} working days`
+                   : `${diffDays(original.start_date, original.end_date) + 1} days`
+               }</span>
+             </div>`
+          : '';
+
+      const base = baselineItems[original.id];
+      const endVariance =
+        base?.end_date && original.end_date
+          ? diffDays(base.end_date, original.end_date)
+          : null;
+      const baselineLine = !base
+        ? ''
+        : `<div style="color:#64748b;margin-bottom:2px">
+             Baseline: ${formatDate(base.start_date)} – ${formatDate(base.end_date)}
+             ${
+               endVariance == null
+                 ? ''
+                 : `<span style="font-weight:600;color:${
+                     endVariance > 0 ? '#dc2626' : endVariance < 0 ? '#16a34a' : '#0f172a'
+                   }">(${endVariance > 0 ? '+' : ''}${endVariance} day${
+                     Math.abs(endVariance) === 1 ? '' : 's'
+                   })</span>`
+             }
+           </div>`;
+
+      const cp = criticalPath[original.id];
+      const floatLine = !cp
+        ? ''
+        : cp.critical
+          ? `<div style="color:#dc2626;font-weight:600;margin-bottom:2px">On critical path</div>`
+          : `<div style="display:flex;justify-content:space-between;color:#64748b;margin-bottom:2px">
+               <span>Total float</span>
+               <span style="font-weight:600;color:#0f172a">${cp.totalFloat} day${cp.totalFloat === 1 ? '' : 's'}</span>
+             </div>`;
+
+      return `
+        <div style="
+          background:#fff;
+          box-shadow:0 10px 30px rgba(15,23,42,0.25);
+          border-radius:12px;
+          border:1px solid #e2e8f0;
+          padding:8px 10px;
+          font-size:12px;
+        ">
+          <div style="font-weight:600;color:#0f172a;margin-bottom:2px">${task.name}</div>
+          <div style="color:#64748b;margin-bottom:4px">
+            ${startLabel} – ${endLabel}
+          </div>
+          <div style="display:flex;justify-content:space-between;color:#64748b;margin-bottom:2px">
+            <span>Progress</span>
+            <span style="font-weight:600;color:#0f172a">${task.progress || 0}%</span>
+          </div>
+          ${clampedLine}
+          ${durationLine}
+          ${floatLine}
+          ${baselineLine}
+          ${
+            original.assignee
+              ? `<div style="color:#64748b">
+                   <span>Assignee: </span>
+                   <span style="font-weight:500;color:#0f172a">${original.assignee}</span>
+                 </div>`
+              : ''
+          }
+        </div>
+      `;
+    },
+    on_click: (task: any) => {
+      const original = taskById[task.id];
+
+      // header row → toggle collapse
+      if (!original) {
+        toggleCollapse(task.id);
+        return;
       }
 
-      // แยก task ตาม work_type ภายใน user นี้
-      for (const wt of WORK_TYPES) {
-        // ถ้า filter ประเภทงานไม่เลือก type นี้ → ข้าม
-        if (!workTypeFilter.includes(wt.value)) continue;
+      // task row → เปิด modal
+      onTaskClick(original);
+    },
+    // รวบ date_change ของทุก bar ใน mouseup เดียวกันก่อน (ลากหลาย bar = บันทึกชุดเดียว)
+    on_date_change: (task: any, start: Date, end: Date) => {
+      if (!dateChangeQueueRef.current.length) {
+        setTimeout(flushDateChanges, 0);
+      }
+      dateChangeQueueRef.current.push({ task, start, end });
+    },
+    apply_date_change: async (task: any, start: Date, end: Date) => {
+      const original = taskById[task.id];
+      if (!original) return; // header row ไม่ต้อง update DB
+
+      // summary bar แก้ตรง ๆ ไม่ได้ → โหลดใหม่ให้กลับที่เดิม
+      if (taskHasChildren[original.id]) {
+        onTaskUpdate();
+        return;
+      }
 
-        const catTasksAll = userInfo.tasks.filter((t) => {
-          const norm = normalizeWorkType((t as any).work_type);
-          return norm === wt.value;
-        });
+      // ใช้ local date (toISOString จะเลื่อนวันตาม timezone)
+      let newStart = formatInputDate(start);
+      let newEnd = original.is_milestone ? newStart : formatInputDate(end);
 
-        const catRowId = `cat:${userKey}:${wt.value}`;
-        const catCollapsed = collapsedParents.has(catRowId);
-
-        // สร้าง category row เสมอถ้ามี task อย่างน้อย 1 ใน type นี้
-        if (catTasksAll.length > 0) {
-          rows.push({
-            kind: 'category',
-            id: catRowId,
-            depth: 1,
-            label: wt.label,
-            userKey,
-            workType: wt.value,
-          });
+      // bar ถูกตัดตาม view range → แปลงกลับเป็นวันจริง (ไม่บันทึกขอบ range ทับ)
+      if (task.clamped_start || task.clamped_end) {
+        const real = resolveBarDrag(
+          { start: task.real_start, end: task.real_end },
+          { start: task.shown_start, end: task.shown_end },
+          { start: newStart, end: newEnd },
+        );
+        newStart = real.start;
+        newEnd = original.is_milestone ? real.start : real.end;
+      }
+
+      // นับเฉพาะวันทำงาน: วางบนวันหยุดให้เลื่อนไปวันทำงานถัดไป
+      // ถ้าเป็นการย้าย bar ให้คงจำนวนวันทำงานเดิมไว้
+      if (workingDaysOnly && calendar) {
+        const team = original.team_id;
+        const moved = newStart !== original.start_date;
+        newStart = addWorkingDays(calendar, newStart, 0, team);
+        if (original.is_milestone) {
+          newEnd = newStart;
+        } else if (moved && original.start_date && original.end_date) {
+          const span = countWorkingDays(
+            calendar,
+            original.start_date,
+            original.end_date,
+            team,
+          );
+          newEnd = addWorkingDays(calendar, newStart, Math.max(span - 1, 0), team);
+        } else if (!isWorkingDay(calendar, newEnd, team)) {
+          newEnd = addWorkingDays(calendar, newEnd, 0, team);
         }
+      }
 
-        if (catTasksAll.length === 0 || catCollapsed) {
-          continue;
+      if (autoSchedule) {
+        const changes = planDependentShift(
+          allTasks || dateFilteredTasks,
+          original.id,
+          newStart,
+          newEnd,
+          workingDaysOnly ? calendar : null,
+        );
+        // มี dependent ต้องเลื่อนตาม → ให้ user ดู preview ก่อนบันทึก
+        if (changes.length > 1) {
+          setPendingShift(changes);
+          return;
         }
+      }
 
-        // ภายใน category นี้ สร้าง tree parent_id → children
-        const childrenByParent: Record<string, Task[]> = {};
-        catTasksAll.forEach((t) => {
-          const key = t.parent_id || 'root';
-          if (!childrenByParent[key]) childrenByParent[key] = [];
-          childrenByParent[key].push(t);
-        });
+      const error = await saveTaskChanges(`Move ${original.name}`, [
+        { id: task.id, changes: { start_date: newStart, end_date: newEnd } },
+      ]);
+      if (error) logRepositoryError('task move error:', error);
+      onTaskUpdate();
+    },
+    on_dependency_create: (fromId: string, toId: string) =>
+      handleCreateDependency(fromId, toId),
+    on_dependency_select: (from: string, to: string) =>
+      setSelectedDependency({ from, to }),
+    on_progress_change: async (task: any, progress: number) => {
+      const original = taskById[task.id];
+      if (!original) return; // header row
+
+      if (taskHasChildren[original.id]) {
+        onTaskUpdate();
+        return;
+      }
 
-        const walkTasks = (
-          parentId: string | null,
-          depth: number,
-          parentHidden: boolean,
-        ) => {
-          const list = childrenByParent[parentId || 'root'] || [];
-          for (const t of list) {
-            const rowId = t.id;
-            const isCollapsed = collapsedParents.has(rowId);
-            if (!parentHidden) {
-              rows.push({
-                kind: 'task',
-                id: rowId,
-                depth,
-                label: t.name,
-                task: t,
-              });
-            }
-            const nextHidden = parentHidden || isCollapsed;
-            walkTasks(t.id, depth + 1, nextHidden);
-          }
-        };
+      const error = await saveTaskChanges(`Progress ${original.name}`, [
+        { id: task.id, changes: { progress } },
+      ]);
+      if (error) logRepositoryError('task progress error:', error);
+      onTaskUpdate();
+    },
+  };
 
-        // เริ่มจาก root parent (depth = 2 เพราะ 0=user, 1=category)
-        walkTasks(null, 2, false);
-      }
+  const flushDateChanges = () => {
+    const queue = dateChangeQueueRef.current;
+    const leadId = dragLeadRef.current;
+    dateChangeQueueRef.current = [];
+    dragLeadRef.current = null;
+    const selected = selectedIdsRef.current;
+    const lead =
+      selected.length > 1
+        ? queue.find((q) => selected.includes(q.task.id))
+        : undefined;
+    if (!lead) {
+      // auto-schedule: วางแผนจาก bar ที่ลากตัวเดียว → preview + batch เดียวทั้ง chain
+      const own =
+        autoSchedule && leadId
+          ? queue.filter((q) => q.task.id === leadId)
+          : queue;
+      own.forEach((q) =>
+        handlersRef.current.apply_date_change(q.task, q.start, q.end),
+      );
+      return;
     }
+    handleBulkDrag(
+      lead,
+      queue.map((q) => q.task.id),
+    );
+  };
 
-    return rows;
-  }, [dateFilteredTasks, collapsedParents, workTypeFilter]);
+  // ลาก bar ที่เลือกไว้: ทุกตัวในชุด (และ dependents ที่ขยับตาม) เลื่อนเท่ากัน
+  const handleBulkDrag = async (
+    lead: { task: any; start: Date },
+    movedIds: string[],
+  ) => {
+    const original = taskById[lead.task.id];
+    const from = lead.task.shown_start ?? original?.start_date;
+    if (!original || !from) {
+      onTaskUpdate();
+      return;
+    }
+    const cal = workingDaysOnly ? calendar : null;
+    const days = shiftDelta(
+      from,
+      formatInputDate(lead.start),
+      cal,
+      original.team_id,
+    );
+    const ids = Array.from(new Set([...selectedIdsRef.current, ...movedIds]));
+    const changes = planBulkShift(allTasks || tasks, ids, days, cal);
+    if (changes.length) {
+      await saveScheduleChanges(changes, `Shift ${changes.length} tasks`);
+    }
+    onTaskUpdate();
+  };
 
-  // ---------- NEW: default collapse category rows on first load ----------
-  useEffect(() => {
-    if (initialCollapseAppliedRef.current) return;
-    if (!treeRows.length) return;
+  // ====== dependency editing ======
+  const [selectedDependency, setSelectedDependency] = useState<{
+    from: string;
+    to: string;
+  } | null>(null);
 
-    initialCollapseAppliedRef.current = true;
+  const taskName = (id: string) =>
+    (allTasks || tasks).find((t) => t.id === id)?.name || id;
 
-    setCollapsedParents((prev) => {
-      const next = new Set(prev);
-      for (const row of treeRows) {
-        if (row.kind === 'category') {
-          next.add(row.id); // collapse ทุก category ตอนเริ่มต้น
-        }
-      }
-      return next;
+  const saveDependencies = async (taskId: string, deps: string[]) => {
+    const { error } = await repo.tasks.update(taskId, {
+      dependencies: formatDependencies(deps),
     });
-  }, [treeRows]);
-  // -----------------------------------------------------------------------
 
-  // 3) สร้าง / อัปเดต Gantt
-  useEffect(() => {
-    if (!ganttRef.current || treeRows.length === 0) {
-      if (ganttRef.current) ganttRef.current.innerHTML = '';
+    if (error) {
+      logRepositoryError('dependency update error:', error);
+      alert('Cannot save dependency: ' + error.message);
+      return false;
+    }
+    return true;
+  };
+
+  // toId จะเริ่มได้หลัง fromId เสร็จ (finish-to-start)
+  const handleCreateDependency = async (fromId: string, toId: string) => {
+    if (!canEdit || fromId === toId) return;
+    const all = allTasks || tasks;
+    const target = all.find((t) => t.id === toId);
+    if (!target || !all.some((t) => t.id === fromId)) return;
+
+    const current = parseDependencies(target.dependencies);
+    if (current.includes(fromId)) return;
+
+    const next = [...current, fromId];
+    const cycle = findDependencyCycle(all, toId, next);
+    if (cycle) {
+      alert(
+        'Cannot add dependency: it would create a cycle (' +
+          cycle.map(taskName).join(' → ') +
+          ').',
+      );
       return;
     }
 
-    ganttRef.current.innerHTML = '';
+    if (await saveDependencies(toId, next)) onTaskUpdate();
+  };
 
-    const fromD = viewFrom ? toDate(viewFrom) : null;
-    const toD = viewTo ? toDate(viewTo) : null;
+  const handleDeleteDependency = async () => {
+    if (!selectedDependency || !canEdit) return;
+    const { from, to } = selectedDependency;
+    const target = (allTasks || tasks).find((t) => t.id === to);
+    if (!target) return;
 
-    // สร้าง task list ให้ Gantt โดยให้มี 1 row ต่อ 1 treeRow เสมอ
-    const ganttTasks = treeRows.map((row) => {
-      if (row.kind === 'task') {
-        const t = row.task;
-        const origStart = toDate(t.start_date);
-        const origEnd = toDate(t.end_date);
+    const next = parseDependencies(target.dependencies).filter(
+      (d) => d !== from,
+    );
+    if (await saveDependencies(to, next)) {
+      setSelectedDependency(null);
+      onTaskUpdate();
+    }
+  };
 
-        let displayStart = origStart;
-        let displayEnd = origEnd;
+  // Delete / Backspace ลบลูกศรที่เลือก, Esc ยกเลิก
+  useEffect(() => {
+    if (!selectedDependency) return;
+    const onKey = (e: KeyboardEvent) => {
+      const tag = (e.target as HTMLElement)?.tagName;
+      if (tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT') return;
+      if (e.key === 'Escape') setSelectedDependency(null);
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        handleDeleteDependency();
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [selectedDependency]);
 
-        // clamp ให้ไม่ออกนอก view range
-        if (fromD && displayStart && displayStart < fromD) {
-          displayStart = fromD;
-        }
-        if (toD && displayEnd && displayEnd > toD) {
-          displayEnd = toD;
-        }
+  // อัปเดต class ของลูกศรที่เลือกโดยไม่ต้อง refresh Gantt
+  useEffect(() => {
+    const svgEl = ganttInstanceRef.current?.$svg;
+    if (svgEl) markSelectedDependency(svgEl, selectedDependency);
+  }, [selectedDependency]);
 
-        const startStr =
-          displayStart != null
-            ? formatInputDate(displayStart)
-            : t.start_date;
-        const endStr =
-          displayEnd != null ? formatInputDate(displayEnd) : t.end_date;
-
-        return {
-          id: row.id,
-          name: row.label,
-          start: startStr,
-          end: endStr,
-          progress: t.progress ?? 0,
-          dependencies: t.dependencies || '',
-          custom_class: `status-${(t.status || '')
-            .toLowerCase()
-            .replace(/\s/g, '')}`,
-        };
-      }
+  useEffect(() => {
+    const svgEl = ganttInstanceRef.current?.$svg;
+    if (svgEl) markBars(svgEl, 'is-selected', selectedIds);
+  }, [selectedIds]);
 
-      // กรณี user / category → ใช้ "fake task" เพื่อเก็บ row height ให้ align กับ tree
-      const baseDate =
-        viewFrom && toDate(viewFrom) ? toDate(viewFrom)! : new Date();
-      const startStr = formatInputDate(baseDate);
+  useEffect(() => {
+    const svgEl = ganttInstanceRef.current?.$svg;
+    if (svgEl) markBars(svgEl, 'remote-changed', highlightIds);
+  }, [highlightIds]);
 
-      // ให้ end = start + 1 day กัน error duration 0
-      const endDate = new Date(baseDate);
-      endDate.setDate(endDate.getDate() + 1);
-      const endStr = formatInputDate(endDate);
+  // S = เลื่อนชุดที่เลือก N วัน, Esc = ยกเลิกการเลือก
+  useEffect(() => {
+    if (!selectedIds.length || shiftDialogDays !== null) return;
+    const onKey = (e: KeyboardEvent) => {
+      const tag = (e.target as HTMLElement)?.tagName;
+      if (tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT') return;
+      if (e.key === 'Escape') setSelectedIds([]);
+      if (
+        canEdit &&
+        e.key.toLowerCase() === 's' &&
+        !e.ctrlKey &&
+        !e.metaKey &&
+        !e.altKey
+      ) {
+        e.preventDefault();
+        setShiftDialogDays('');
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [selectedIds, shiftDialogDays, canEdit]);
+
+  // shift-click = เลือก/ไม่เลือก bar, ลากบนพื้นที่ว่าง = เลือกแบบกรอบ (ผูกครั้งเดียวต่อ instance)
+  const bindBarSelection = (gantt: any) => {
+    const svgEl: SVGSVGElement | null = gantt.$svg || null;
+    if (!svgEl) return;
+
+    const toSvgPoint = (e: MouseEvent) => {
+      const ctm = svgEl.getScreenCTM();
+      const pt = svgEl.createSVGPoint();
+      pt.x = e.clientX;
+      pt.y = e.clientY;
+      return ctm ? pt.matrixTransform(ctm.inverse()) : pt;
+    };
 
-      const customClass =
-        row.kind === 'user'
-          ? 'row-user-header'
-          : 'row-category-header';
+    svgEl.addEventListener(
+      'click',
+      (e) => {
+        if (!e.shiftKey) return;
+        const wrapper = (e.target as Element).closest('.bar-wrapper');
+        const id = wrapper?.getAttribute('data-id');
+        if (!id || id.startsWith('grp:')) return;
+        e.stopPropagation(); // ไม่ให้ frappe เปิด popup
+        setSelectedIds((prev) =>
+          prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id],
+        );
+      },
+      true,
+    );
 
-      return {
-        id: row.id,
-        name: row.label,
-        start: startStr,
-        end: endStr,
-        progress: 0,
-        dependencies: '',
-        custom_class: customClass,
+    svgEl.addEventListener('mousedown', (e) => {
+      const target = e.target as Element;
+      if (
+        e.button !== 0 ||
+        target.closest(
+          '.bar-wrapper, .arrow, .dependency-layer, .recurrence-ghost',
+        )
+      ) {
+        return;
+      }
+      const start = toSvgPoint(e);
+      if (start.y < gantt.options.header_height) return;
+
+      const box = document.createElementNS(SVG_NS, 'rect');
+      box.setAttribute('class', 'selection-box');
+      svgEl.appendChild(box);
+
+      const update = (ev: MouseEvent) => {
+        const p = toSvgPoint(ev);
+        const r = {
+          x: Math.min(start.x, p.x),
+          y: Math.min(start.y, p.y),
+          width: Math.abs(p.x - start.x),
+          height: Math.abs(p.y - start.y),
+        };
+        box.setAttribute('x', String(r.x));
+        box.setAttribute('y', String(r.y));
+        box.setAttribute('width', String(r.width));
+        box.setAttribute('height', String(r.height));
+        return r;
+      };
+      const onMove = (ev: MouseEvent) => {
+        update(ev);
+      };
+      const onUp = (ev: MouseEvent) => {
+        document.removeEventListener('mousemove', onMove);
+        document.removeEventListener('mouseup', onUp);
+        const r = update(ev);
+        box.remove();
+
+        // คลิกเฉย ๆ บนพื้นที่ว่าง = ยกเลิกการเลือก
+        if (r.width < 4 && r.height < 4) {
+          if (!ev.shiftKey) setSelectedIds([]);
+          return;
+        }
+        const ids = ((gantt.bars || []) as any[])
+          .filter(
+            (bar) =>
+              !String(bar.task.id).startsWith('grp:') &&
+              bar.x < r.x + r.width &&
+              bar.x + bar.width > r.x &&
+              bar.y < r.y + r.height &&
+              bar.y + bar.height > r.y,
+          )
+          .map((bar) => bar.task.id as string);
+        setSelectedIds((prev) =>
+          ev.shiftKey ? Array.from(new Set([...prev, ...ids])) : ids,
+        );
       };
+      document.addEventListener('mousemove', onMove);
+      document.addEventListener('mouseup', onUp);
     });
+  };
 
-    const gantt = new Gantt(ganttRef.current, ganttTasks, {
-      view_mode: viewMode,
-      date_format: 'YYYY-MM-DD',
-      bar_height: 24,
-      padding: 18,
-      arrow_curve: 5,
-      custom_popup_html: (task: any) => {
-        const original = taskById[task.id];
-
-        // ถ้าเป็น row header (user / category) ไม่ต้องขึ้น popup
-        if (!original) return '';
-
-        const formatDate = (value: any) => {
-          const d = value instanceof Date ? value : new Date(value);
-          if (Number.isNaN(d.getTime())) return '';
-          return d.toLocaleDateString('en-GB', {
-            day: '2-digit',
-            month: 'short',
-            year: 'numeric',
-          });
+  const drawDependencyConnectors = (gantt: any) => {
+    const svgEl: SVGSVGElement | null = gantt.$svg || null;
+    if (!svgEl) return;
+
+    const layer = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+    layer.setAttribute('class', 'dependency-layer');
+    svgEl.appendChild(layer);
+
+    // แปลงตำแหน่งเมาส์ → พิกัดใน svg
+    const toSvgPoint = (e: MouseEvent) => {
+      const ctm = svgEl.getScreenCTM();
+      const pt = svgEl.createSVGPoint();
+      pt.x = e.clientX;
+      pt.y = e.clientY;
+      return ctm ? pt.matrixTransform(ctm.inverse()) : pt;
+    };
+
+    for (const bar of gantt.bars || []) {
+      const fromId: string = bar.task.id;
+      if (!taskById[fromId]) continue; // group row
+
+      const cx = bar.x + bar.width + 8;
+      const cy = bar.y + bar.height / 2;
+
+      const handle = document.createElementNS(
+        'http://www.w3.org/2000/svg',
+        'circle',
+      );
+      handle.setAttribute('class', 'dependency-connector');
+      handle.setAttribute('cx', String(cx));
+      handle.setAttribute('cy', String(cy));
+      handle.setAttribute('r', '5');
+      const title = document.createElementNS(
+        'http://www.w3.org/2000/svg',
+        'title',
+      );
+      title.textContent = 'Drag to another bar to add a dependency';
+      handle.appendChild(title);
+      layer.appendChild(handle);
+
+      handle.addEventListener('mousedown', (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+
+        const line = document.createElementNS(
+          'http://www.w3.org/2000/svg',
+          'line',
+        );
+        line.setAttribute('class', 'dependency-drag-line');
+        line.setAttribute('x1', String(cx));
+        line.setAttribute('y1', String(cy));
+        line.setAttribute('x2', String(cx));
+        line.setAttribute('y2', String(cy));
+        layer.appendChild(line);
+
+        const onMove = (ev: MouseEvent) => {
+          const p = toSvgPoint(ev);
+          line.setAttribute('x2', String(p.x));
+          line.setAttribute('y2', String(p.y));
         };
+        const onUp = (ev: MouseEvent) => {
+          document.removeEventListener('mousemove', onMove);
+          document.removeEventListener('mouseup', onUp);
+          line.remove();
+
+          const target = document
+            .elementFromPoint(ev.clientX, ev.clientY)
+            ?.closest('.bar-wrapper');
+          const toId = target?.getAttribute('data-id');
+          if (toId && toId !== fromId) {
+            handlersRef.current.on_dependency_create(fromId, toId);
+          }
+        };
+        document.addEventListener('mousemove', onMove);
+        document.addEventListener('mouseup', onUp);
+      });
+    }
 
-        const startLabel = formatDate(task._start);
-        const endLabel = formatDate(task._end);
-
-        return `
-          <div style="
-            background:#fff;
-            box-shadow:0 10px 30px rgba(15,23,42,0.25);
-            border-radius:12px;
-            border:1px solid #e2e8f0;
-            padding:8px 10px;
-            font-size:12px;
-          ">
-            <div style="font-weight:600;color:#0f172a;margin-bottom:2px">${task.name}</div>
-            <div style="color:#64748b;margin-bottom:4px">
-              ${startLabel} – ${endLabel}
-            </div>
-            <div style="display:flex;justify-content:space-between;color:#64748b;margin-bottom:2px">
-              <span>Progress</span>
-              <span style="font-weight:600;color:#0f172a">${task.progress || 0}%</span>
-            </div>
-            ${
-              original.assignee
-                ? `<div style="color:#64748b">
-                     <span>Assignee: </span>
-                     <span style="font-weight:500;color:#0f172a">${original.assignee}</span>
-                   </div>`
-                : ''
-            }
-          </div>
-        `;
-      },
-      on_click: (task: any) => {
-        const original = taskById[task.id];
+    // ลูกศรเส้นบาง คลิกยาก → วาดเส้นโปร่งใสหนา ๆ ทับไว้สำหรับคลิก
+    svgEl.querySelectorAll('.arrow path').forEach((el) => {
+      const from = el.getAttribute('data-from') || '';
+      const to = el.getAttribute('data-to') || '';
+      const hit = el.cloneNode() as SVGPathElement;
+      hit.setAttribute('class', 'dependency-hit');
+      hit.addEventListener('click', (e) => {
+        e.stopPropagation();
+        handlersRef.current.on_dependency_select(from, to);
+      });
+      el.parentNode?.appendChild(hit);
+    });
+  };
 
-        // header row → toggle collapse
-        if (!original) {
-          toggleCollapse(task.id);
-          return;
-        }
+  // วาดของเสริมลง SVG หลัง frappe-gantt render (ทุกครั้งที่ render/refresh)
+  /**
+   * frappe วาดลูกศรเฉพาะระหว่าง bar ที่ render อยู่ (row ใน window ของ virtualization)
+   * dependency ที่อีกฝั่งอยู่นอก window → ลากเส้นไปถึงขอบบน/ล่าง พร้อมหัวลูกศรบอกทิศ
+   * (data-from / data-to เหมือนลูกศรจริง: critical path, คลิกเลือก, ลบ ใช้ได้ตามปกติ)
+   */
+  const drawOffscreenArrows = (gantt: any) => {
+    const arrowLayer: SVGGElement | undefined = gantt.layers?.arrow;
+    if (!arrowLayer) return;
+
+    const rowOf: Record<string, number> = {};
+    const successors: Record<string, string[]> = {};
+    treeRows.forEach((row, i) => {
+      if (row.kind !== 'task') return;
+      rowOf[row.task.id] = i;
+      for (const dep of parseDependencies(row.task.dependencies)) {
+        (successors[dep] = successors[dep] || []).push(row.task.id);
+      }
+    });
+    const offscreen = (id: string) =>
+      rowOf[id] != null &&
+      (rowOf[id] < rowWindow.start || rowOf[id] >= rowWindow.end);
+
+    const { header_height, padding } = gantt.options;
+    const topY = header_height + padding / 2;
+    const bottomY = topY + visibleRows.length * ROW_HEIGHT;
+
+    const addArrow = (
+      from: string,
+      to: string,
+      d: string,
+      otherId: string,
+    ) => {
+      const path = document.createElementNS(SVG_NS, 'path');
+      path.setAttribute('d', d);
+      path.setAttribute('data-from', from);
+      path.setAttribute('data-to', to);
+      path.setAttribute('class', 'offscreen-arrow');
+      const title = document.createElementNS(SVG_NS, 'title');
+      const other = taskById[otherId]?.name || otherId;
+      const where = rowOf[otherId] < rowWindow.start ? 'above' : 'below';
+      title.textContent =
+        otherId === from
+          ? `Depends on "${other}" (${where})`
+          : `"${other}" depends on this (${where})`;
+      path.appendChild(title);
+      arrowLayer.appendChild(path);
+    };
 
-        // task row → เปิด modal
-        onTaskClick(original);
-      },
-      on_date_change: async (task: any, start: Date, end: Date) => {
-        const original = taskById[task.id];
-        if (!original) return; // header row ไม่ต้อง update DB
+    // ขีดหัวลูกศรที่ขอบ (ชี้ออกไปทางที่ task อีกฝั่งอยู่)
+    const edgeMark = (x: number, up: boolean) =>
+      up
+        ? `M ${x - 4} ${topY + 6} l 4 -6 l 4 6`
+        : `M ${x - 4} ${bottomY - 6} l 4 6 l 4 -6`;
+
+    for (const bar of gantt.bars || []) {
+      const id: string = bar.task.id;
+      if (!taskById[id]) continue; // group row
+      const cy = bar.y + bar.height / 2;
+
+      // predecessor นอกจอ → เส้นจากขอบเข้าหัว bar
+      for (const dep of parseDependencies(taskById[id].dependencies)) {
+        if (!offscreen(dep)) continue;
+        const up = rowOf[dep] < rowWindow.start;
+        const x = bar.x - padding / 2;
+        const edge = up ? topY : bottomY;
+        addArrow(
+          dep,
+          id,
+          `M ${x} ${edge} V ${cy} H ${bar.x} m -5 -5 l 5 5 l -5 5 ` +
+            edgeMark(x, up),
+          dep,
+        );
+      }
 
-        const newStart = start.toISOString().split('T')[0];
-        const newEnd = end.toISOString().split('T')[0];
+      // successor นอกจอ → เส้นจากกลาง bar ออกไปที่ขอบ
+      for (const next of successors[id] || []) {
+        if (!offscreen(next)) continue;
+        const up = rowOf[next] < rowWindow.start;
+        const x = bar.x + bar.width / 2;
+        const from = up ? bar.y : bar.y + bar.height;
+        addArrow(
+          id,
+          next,
+          `M ${x} ${from} V ${up ? topY : bottomY} ` + edgeMark(x, up),
+          next,
+        );
+      }
+    }
+  };
 
-        const { error } = await supabase
-          .from('tasks')
-          .update({ start_date: newStart, end_date: newEnd })
-          .eq('id', task.id);
+  const decorateGantt = (gantt: any, forExport = false) => {
+    // export render ทุก row อยู่แล้ว
+    if (!forExport) {
+      try {
+        drawOffscreenArrows(gantt);
+      } catch (e) {
+        console.error('Failed to draw off-screen dependencies', e);
+      }
+    }
 
-        if (error) console.error(error);
-        onTaskUpdate();
-      },
-      on_progress_change: async (task: any, progress: number) => {
-        const original = taskById[task.id];
-        if (!original) return; // header row
+    // ====== ไฮไลต์ลูกศร dependency ที่อยู่บน critical path ======
+    if (showCriticalPath) {
+      const svgEl: SVGSVGElement | null = (gantt as any).$svg || null;
+      svgEl?.querySelectorAll('.arrow path').forEach((el) => {
+        const from = el.getAttribute('data-from') || '';
+        const to = el.getAttribute('data-to') || '';
+        if (criticalPath[from]?.critical && criticalPath[to]?.critical) {
+          el.classList.add('is-critical-arrow');
+        }
+      });
+    }
 
-        const { error } = await supabase
-          .from('tasks')
-          .update({ progress })
-          .eq('id', task.id);
+    // ====== shade วันหยุด / เสาร์-อาทิตย์ ใน grid ======
+    try {
+      const ganttStart: Date | undefined = (gantt as any).gantt_start;
+      const ganttEnd: Date | undefined = (gantt as any).gantt_end;
+      const gridLayer: SVGGElement | undefined = (gantt as any).layers?.grid;
+      const headerHeight: number = (gantt as any).options?.header_height ?? 0;
+      const gridBgRect = gridLayer?.querySelector(
+        '.grid-background',
+      ) as SVGRectElement | null;
+
+      // วันแคบเกินไป (scale ระยะยาว / ซูมออก) ไม่ต้อง shade
+      const { step, column_width, view_mode } = (gantt as any).options;
+      const dayWidth =
+        view_mode === 'Month'
+          ? column_width / 30
+          : (column_width * 24) / step;
+
+      if (
+        calendar &&
+        dayWidth >= 4 &&
+        ganttStart &&
+        ganttEnd &&
+        gridLayer &&
+        gridBgRect
+      ) {
+        const height = parseFloat(gridBgRect.getAttribute('height') || '0');
+        const day = new Date(ganttStart);
+        while (day < ganttEnd) {
+          const dateStr = formatInputDate(day);
+          if (!isWorkingDay(calendar, dateStr)) {
+            const next = new Date(day);
+            next.setDate(next.getDate() + 1);
+            const x1 = dateToX(gantt, day);
+            const x2 = dateToX(gantt, next);
+            if (x1 != null && x2 != null) {
+              const rect = document.createElementNS(
+                'http://www.w3.org/2000/svg',
+                'rect',
+              );
+              rect.setAttribute('class', 'non-working-day');
+              rect.setAttribute('x', String(x1));
+              rect.setAttribute('y', String(headerHeight));
+              rect.setAttribute('width', String(x2 - x1));
+              rect.setAttribute('height', String(height - headerHeight));
+
+              const name = holidayName(calendar, dateStr);
+              if (name) {
+                const title = document.createElementNS(
+                  'http://www.w3.org/2000/svg',
+                  'title',
+                );
+                title.textContent = name;
+                rect.appendChild(title);
+              }
+              gridLayer.appendChild(rect);
+            }
+          }
+          day.setDate(day.getDate() + 1);
+        }
+      }
+    } catch (e) {
+      console.error('Failed to shade non-working days', e);
+    }
 
-        if (error) console.error(error);
-        onTaskUpdate();
-      },
-    });
+    // ====== milestone: วาดรูปเพชรแทน bar ======
+    for (const bar of (gantt as any).bars || []) {
+      if (!taskById[bar.task.id]?.is_milestone) continue;
+      const size = bar.height / 2 + 2;
+      const cx = bar.x + bar.width / 2;
+      const cy = bar.y + bar.height / 2;
+
+      const diamond = document.createElementNS(
+        'http://www.w3.org/2000/svg',
+        'polygon',
+      );
+      diamond.setAttribute('class', 'milestone-diamond');
+      diamond.setAttribute(
+        'points',
+        `${cx},${cy - size} ${cx + size},${cy} ${cx},${cy + size} ${cx - size},${cy}`,
+      );
+      bar.bar_group?.appendChild(diamond);
+    }
 
-    // scroll ให้ไปใกล้ viewFrom (หรือใช้ start งานอันแรก ถ้าไม่มี)
+    // ====== bar ที่ถูกตัดตาม view range: ลูกศรที่ปลายด้านที่ยังต่อออกไป ======
+    for (const bar of (gantt as any).bars || []) {
+      const { clamped_start, clamped_end } = bar.task;
+      if (!clamped_start && !clamped_end) continue;
+      const cy = bar.y + bar.height / 2;
+      const size = Math.min(5, bar.height / 3);
+
+      const addCap = (tip: number, dir: -1 | 1) => {
+        const cap = document.createElementNS(
+          'http://www.w3.org/2000/svg',
+          'polygon',
+        );
+        cap.setAttribute('class', 'range-cap');
+        const base = tip - dir * size * 1.4;
+        cap.setAttribute(
+          'points',
+          `${tip},${cy} ${base},${cy - size} ${base},${cy + size}`,
+        );
+        bar.bar_group?.appendChild(cap);
+      };
+      if (clamped_start) addCap(bar.x + 2, -1);
+      if (clamped_end) addCap(bar.x + bar.width - 2, 1);
+    }
+
+    // ====== baseline: ghost bar บาง ๆ ใต้ bar จริง ======
     try {
-      const firstTaskRow = treeRows.find((r) => r.kind === 'task') as
-        | Extract<TreeRow, { kind: 'task' }>
-        | undefined;
+      const svgEl: SVGSVGElement | null = (gantt as any).$svg || null;
+      const barLayer: SVGGElement | undefined = (gantt as any).layers?.bar;
+      if (svgEl && barLayer && Object.keys(baselineItems).length) {
+        const layer = document.createElementNS(
+          'http://www.w3.org/2000/svg',
+          'g',
+        );
+        layer.setAttribute('class', 'baseline-layer');
+        svgEl.insertBefore(layer, barLayer);
 
-      const target =
-        (viewFrom && toDate(viewFrom)) ??
-        (firstTaskRow?.task.start_date
-          ? toDate(firstTaskRow.task.start_date)!
-          : new Date());
+        for (const bar of (gantt as any).bars || []) {
+          const item = baselineItems[bar.task.id];
+          if (!item || !item.start_date) continue;
 
-      gantt.set_scroll_position(target);
-    } catch {
-      // ignore
+          const endDate = new Date(item.end_date || item.start_date);
+          endDate.setDate(endDate.getDate() + 1); // end เป็นวันสุดท้าย (inclusive)
+
+          const x1 = dateToX(gantt, item.start_date);
+          const x2 = dateToX(gantt, formatInputDate(endDate));
+          if (x1 == null || x2 == null) continue;
+
+          const rect = document.createElementNS(
+            'http://www.w3.org/2000/svg',
+            'rect',
+          );
+          rect.setAttribute('class', 'baseline-bar');
+          rect.setAttribute('x', String(x1));
+          rect.setAttribute('y', String(bar.y + bar.height + 2));
+          rect.setAttribute('width', String(Math.max(x2 - x1, 2)));
+          rect.setAttribute('height', '4');
+          rect.setAttribute('rx', '2');
+          layer.appendChild(rect);
+        }
+      }
+    } catch (e) {
+      console.error('Failed to draw baseline bars', e);
+    }
+
+    // ====== recurring: รอบถัดไปเป็น ghost bar ในแถวเดียวกัน ======
+    try {
+      const svgEl: SVGSVGElement | null = (gantt as any).$svg || null;
+      const barLayer: SVGGElement | undefined = (gantt as any).layers?.bar;
+      if (showRecurring && svgEl && barLayer) {
+        const rangeStart = formatInputDate(gantt.gantt_start);
+        const rangeEnd = formatInputDate(gantt.gantt_end);
+        const layer = document.createElementNS(
+          'http://www.w3.org/2000/svg',
+          'g',
+        );
+        layer.setAttribute('class', 'recurrence-layer');
+        svgEl.insertBefore(layer, barLayer);
+
+        for (const bar of (gantt as any).bars || []) {
+          const original = taskById[bar.task.id];
+          const step = original ? recurrenceStep(original) : null;
+          if (!original || !step) continue;
+
+          const occurrences = pendingOccurrences(
+            original,
+            allTasks || tasks,
+            rangeStart,
+            rangeEnd,
+          );
+          for (const occ of occurrences) {
+            const endDate = new Date(occ.end_date);
+            endDate.setDate(endDate.getDate() + 1); // end เป็นวันสุดท้าย (inclusive)
+
+            const x1 = dateToX(gantt, occ.start_date);
+            const x2 = dateToX(gantt, formatInputDate(endDate));
+            if (x1 == null || x2 == null) continue;
+
+            const rect = document.createElementNS(
+              'http://www.w3.org/2000/svg',
+              'rect',
+            );
+            rect.setAttribute('class', 'recurrence-ghost');
+            rect.setAttribute('x', String(x1));
+            rect.setAttribute('y', String(bar.y));
+            rect.setAttribute('width', String(Math.max(x2 - x1, 4)));
+            rect.setAttribute('height', String(bar.height));
+            rect.setAttribute('rx', '3');
+
+            const title = document.createElementNS(
+              'http://www.w3.org/2000/svg',
+              'title',
+            );
+            title.textContent =
+              `${original.name} (${describeRecurrence(step)}): ` +
+              `${occ.start_date} – ${occ.end_date}` +
+              (canEdit ? '\nClick to create this occurrence' : '');
+            rect.appendChild(title);
+
+            if (canEdit && !forExport) {
+              rect.addEventListener('click', (e) => {
+                e.stopPropagation();
+                handleMaterializeOccurrence(original, occ);
+              });
+            } else {
+              rect.style.cursor = 'default';
+            }
+            layer.appendChild(rect);
+          }
+        }
+      }
+    } catch (e) {
+      console.error('Failed to draw recurring occurrences', e);
     }
 
     // ====== วาดเส้น Today ลงใน SVG ของ Gantt ======
@@ -543,15 +1763,101 @@ export default function GanttChart({
           line.setAttribute('stroke-width', '2');
           line.setAttribute('stroke-dasharray', '4 2');
 
-          const gridGroup =
-            svgEl.querySelector('.grid') || svgEl.firstChild;
-          gridGroup?.appendChild(line);
-        }
+          const gridGroup =
+            svgEl.querySelector('.grid') || svgEl.firstChild;
+          gridGroup?.appendChild(line);
+        }
+      }
+    } catch (e) {
+      console.error('Failed to draw today line', e);
+    }
+
+    // ====== dependency: คลิกลูกศรเพื่อเลือก, ลากจุดท้าย bar เพื่อสร้าง ======
+    if (canEdit && !forExport) {
+      drawDependencyConnectors(gantt);
+    }
+    markSelectedDependency(gantt.$svg, selectedDependency);
+    markBars(gantt.$svg, 'is-selected', selectedIds);
+    markBars(gantt.$svg, 'remote-changed', highlightIds);
+  };
+
+  const hasRows = treeRows.length > 0;
+
+  // เก็บ scale ไว้ให้ histogram + เลื่อน histogram ให้ตรงกับ Gantt
+  const syncGanttScale = (gantt: any) => {
+    const next = readGanttScale(gantt);
+    setGanttScale((prev) => (sameScale(prev, next) ? prev : next));
+    const container = gantt.$svg.parentElement as HTMLElement | null;
+    if (container && workloadScrollRef.current) {
+      workloadScrollRef.current.scrollLeft = container.scrollLeft;
+    }
+  };
+
+  // 3) สร้าง / อัปเดต Gantt เฉพาะ row ที่มองเห็น (virtualized)
+  useEffect(() => {
+    if (!ganttRef.current || visibleRows.length === 0) {
+      if (ganttRef.current) ganttRef.current.innerHTML = '';
+      ganttInstanceRef.current = null;
+      setGanttScale(null);
+      return;
+    }
+
+    const ganttTasks = visibleRows.map(toGanttTask);
+    const existing = ganttInstanceRef.current;
+
+    if (existing && existing.options.view_mode === viewMode) {
+      // refresh instance เดิม แล้วคืนตำแหน่ง scroll แนวนอน (render() จะ reset)
+      const container = existing.$svg.parentElement as HTMLElement | null;
+      const scrollLeft = container?.scrollLeft ?? 0;
+      // zoom เปลี่ยน → คงวันที่ตรงกลางจอไว้
+      const prevWidth = existing.options.column_width;
+      existing.options.range_anchor = ganttRange;
+      existing.options.zoom = zoom;
+      existing.refresh(ganttTasks);
+      if (container) {
+        const ratio = existing.options.column_width / prevWidth;
+        const half = container.clientWidth / 2;
+        container.scrollLeft =
+          ratio === 1 ? scrollLeft : (scrollLeft + half) * ratio - half;
       }
-    } catch (e) {
-      console.error('Failed to draw today line', e);
+      decorateGantt(existing);
+      syncGanttScale(existing);
+      return;
+    }
+
+    ganttRef.current.innerHTML = '';
+    const gantt = createGantt(ganttRef.current, ganttTasks);
+    ganttInstanceRef.current = gantt;
+    bindBarSelection(gantt);
+    decorateGantt(gantt);
+    syncGanttScale(gantt);
+  }, [
+    visibleRows,
+    viewMode,
+    zoom,
+    ganttRange,
+    viewFrom,
+    viewTo,
+    taskById,
+    criticalPath,
+    showCriticalPath,
+    taskHasChildren,
+    baselineItems,
+    showRecurring,
+    calendar,
+    workingDaysOnly,
+  ]);
+
+  // เลื่อนไปใกล้ viewFrom ตอนเปลี่ยน view mode / ช่วงวันที่ (ไม่ทำตอน refresh จากการ scroll)
+  useEffect(() => {
+    const gantt = ganttInstanceRef.current;
+    if (!gantt || !viewFrom) return;
+    const container = gantt.$svg.parentElement as HTMLElement | null;
+    const x = dateToX(gantt, viewFrom);
+    if (container && x != null) {
+      container.scrollLeft = Math.max(x - gantt.options.column_width, 0);
     }
-  }, [treeRows, viewMode, onTaskClick, onTaskUpdate, viewFrom, viewTo, taskById]);
+  }, [viewMode, viewFrom, hasRows]);
 
   // 4) sync scroll: ให้ scrollDown Gantt แล้ว Tree เลื่อนตาม
   useEffect(() => {
@@ -559,12 +1865,32 @@ export default function GanttChart({
     const bodyEl = bodyScrollRef.current;
     if (!treeEl || !bodyEl) return;
 
+    // คำนวณ window ของ row ที่ต้อง render จากตำแหน่ง scroll
+    const updateWindow = () => {
+      const first = Math.floor(bodyEl.scrollTop / ROW_HEIGHT);
+      const visibleCount = Math.ceil(bodyEl.clientHeight / ROW_HEIGHT);
+      const start = Math.max(
+        Math.floor((first - ROW_OVERSCAN) / ROW_CHUNK) * ROW_CHUNK,
+        0,
+      );
+      const end = Math.min(
+        start + visibleCount + ROW_OVERSCAN * 2 + ROW_CHUNK,
+        treeRows.length,
+      );
+      setRowWindow((prev) =>
+        prev.start === start && prev.end === end ? prev : { start, end },
+      );
+    };
+
     const syncFromBody = () => {
       if (treeEl.scrollTop !== bodyEl.scrollTop) {
         treeEl.scrollTop = bodyEl.scrollTop;
       }
+      updateWindow();
     };
 
+    updateWindow();
+
     const onWheelTree = (e: WheelEvent) => {
       if (bodyEl) {
         bodyEl.scrollTop += e.deltaY;
@@ -572,27 +1898,413 @@ export default function GanttChart({
       }
     };
 
+    // Ctrl + wheel (หรือ pinch บน trackpad) = zoom
+    const onWheelBody = (e: WheelEvent) => {
+      if (!e.ctrlKey) return;
+      e.preventDefault();
+      setZoom((z) => clampZoom(z * Math.exp(-e.deltaY * 0.002)));
+    };
+
+    // scroll แนวนอนอยู่ที่ .gantt-container ข้างใน (scroll ไม่ bubble → ใช้ capture)
+    const syncWorkload = (e: Event) => {
+      const target = e.target as HTMLElement;
+      if (target === bodyEl || !workloadScrollRef.current) return;
+      workloadScrollRef.current.scrollLeft = target.scrollLeft;
+    };
+
     bodyEl.addEventListener('scroll', syncFromBody);
+    bodyEl.addEventListener('scroll', syncWorkload, true);
+    bodyEl.addEventListener('wheel', onWheelBody, { passive: false });
     treeEl.addEventListener('wheel', onWheelTree, { passive: false });
 
     return () => {
       bodyEl.removeEventListener('scroll', syncFromBody);
+      bodyEl.removeEventListener('scroll', syncWorkload, true);
+      bodyEl.removeEventListener('wheel', onWheelBody);
       treeEl.removeEventListener('wheel', onWheelTree);
     };
   }, [treeRows.length]);
 
-  // toggle tree collapse (ใช้ได้กับทั้ง user, category, task parent)
+  // เลื่อน Gantt (และ tree ที่ sync อยู่) ให้เห็น row ที่เลือกด้วย keyboard
+  const revealRow = (index: number) => {
+    const bodyEl = bodyScrollRef.current;
+    if (!bodyEl) return;
+    const top = HEADER_HEIGHT + BAR_PADDING / 2 + index * ROW_HEIGHT;
+    if (top < bodyEl.scrollTop) {
+      bodyEl.scrollTop = top;
+    } else if (top + ROW_HEIGHT > bodyEl.scrollTop + bodyEl.clientHeight) {
+      bodyEl.scrollTop = top + ROW_HEIGHT - bodyEl.clientHeight;
+    }
+  };
+
+  // toggle tree collapse (ใช้ได้กับทั้ง group row และ task parent)
   const toggleCollapse = (id: string) => {
-    setCollapsedParents((prev) => {
-      const next = new Set(prev);
-      if (next.has(id)) next.delete(id);
-      else next.add(id);
-      return next;
+    setCollapsedByGrouping((prev) => {
+      const current = prev[currentGroupingKey] || [];
+      return {
+        ...prev,
+        [currentGroupingKey]: current.includes(id)
+          ? current.filter((x) => x !== id)
+          : [...current, id],
+      };
     });
   };
 
+  const updateGroupLevels = (levels: GroupLevel[]) => {
+    setGrouping((prev) => ({ ...prev, levels }));
+  };
+
+  const moveGroupLevel = (index: number, dir: -1 | 1) => {
+    const levels = [...grouping.levels];
+    const target = index + dir;
+    if (target < 0 || target >= levels.length) return;
+    [levels[index], levels[target]] = [levels[target], levels[index]];
+    updateGroupLevels(levels);
+  };
+
   const hasAnyTaskRow = treeRows.some((r) => r.kind === 'task');
 
+  // ลาก row ใน tree: เปลี่ยน parent / group / ลำดับ แล้วบันทึกทีเดียว
+  const handleTreeDrop = async (
+    draggedId: string,
+    targetRowId: string,
+    position: DropPosition,
+  ) => {
+    if (!canEdit) return;
+    const all = allTasks || tasks;
+    const plan = planTreeDrop(
+      all,
+      treeRows,
+      draggedId,
+      targetRowId,
+      position,
+      grouping,
+    );
+    if (typeof plan === 'string') {
+      alert(plan);
+      return;
+    }
+    if (!plan.length) return;
+
+    // parent เดิม / ใหม่ rollup ตามไปในชุดเดียวกัน
+    const error = await saveTaskChanges(
+      `Move ${taskName(draggedId)}`,
+      plan.map(({ id, patch }) => ({ id, changes: patch })),
+    );
+    if (error) {
+      logRepositoryError('tree move error:', error);
+      alert('Cannot move task: ' + error.message);
+    }
+    (onTaskRefresh ?? onTaskUpdate)();
+  };
+
+  // workload: ช่วงเดียวกับ Gantt, ละเอียดตาม view mode
+  const workloadBucket: WorkloadBucket =
+    viewMode === 'Day' ? 'day' : viewMode === 'Week' ? 'week' : 'month';
+
+  const workloadRows = useMemo(() => {
+    if (!showWorkload || !ganttScale) return [];
+    // ลำดับคนตาม group assignee ใน tree ก่อน แล้วต่อด้วยคนที่เหลือ
+    const order: string[] = [];
+    for (const r of treeRows) {
+      if (
+        r.kind === 'group' &&
+        r.level === 'assignee' &&
+        r.value !== '__none__' &&
+        !order.includes(r.value)
+      ) {
+        order.push(r.value);
+      }
+    }
+    const rest = Array.from(
+      new Set(
+        groupedTasks
+          .map((t) => t.assignee)
+          .filter((a): a is string => !!a && !order.includes(a)),
+      ),
+    ).sort((a, b) => a.localeCompare(b));
+
+    // รอบถัดไปของงานที่ทำซ้ำนับเป็น load ด้วย (ถ้าเปิดแสดง ghost bar)
+    const rangeStart = formatInputDate(ganttScale.gantt_start);
+    const rangeEnd = formatInputDate(ganttScale.gantt_end);
+    const projected: Task[] = !showRecurring
+      ? []
+      : groupedTasks.flatMap((t) =>
+          taskHasChildren[t.id]
+            ? []
+            : pendingOccurrences(t, allTasks || tasks, rangeStart, rangeEnd).map(
+                (o) => ({
+                  ...t,
+                  id: `${t.id}@${o.start_date}`,
+                  start_date: o.start_date,
+                  end_date: o.end_date,
+                  status: 'To Do' as const,
+                  is_recurring: false,
+                }),
+              ),
+        );
+
+    return computeWorkload(
+      [...groupedTasks, ...projected],
+      [...order, ...rest],
+      rangeStart,
+      rangeEnd,
+      workloadBucket,
+      workingDaysOnly ? calendar : null,
+    );
+  }, [
+    showWorkload,
+    ganttScale,
+    treeRows,
+    groupedTasks,
+    workloadBucket,
+    workingDaysOnly,
+    calendar,
+    showRecurring,
+    taskHasChildren,
+    allTasks,
+    tasks,
+  ]);
+
+  // เปิด panel ใหม่ → เลื่อนให้ตรงกับ Gantt ทันที
+  useEffect(() => {
+    const container = ganttInstanceRef.current?.$svg.parentElement as
+      | HTMLElement
+      | undefined;
+    if (showWorkload && container && workloadScrollRef.current) {
+      workloadScrollRef.current.scrollLeft = container.scrollLeft;
+    }
+  }, [showWorkload, workloadRows.length]);
+
+  /**
+   * บันทึกการแก้ task + rollup ของ parent ที่ได้รับผลใน transaction เดียว
+   * สำเร็จแล้วเก็บเป็น undo entry เดียว; คืน error (null = สำเร็จ)
+   */
+  const saveTaskChanges = async (
+    label: string,
+    updates: { id: string; changes: Partial<Task> }[],
+  ) => {
+    const all = allTasks || tasks;
+    const batch = withRollupUpdates(all, updates);
+    const { error } = await repo.tasks.updateBatch(batch);
+    if (error) return error;
+
+    const entry = makeHistoryEntry(
+      label,
+      batch.map((u) => {
+        const before = all.find((t) => t.id === u.id);
+        return before ? diffTask(before, u.changes) : null;
+      }),
+    );
+    if (entry) onHistory?.(entry);
+    return null;
+  };
+
+  // บันทึกวันที่ใหม่หลาย task เป็นชุดเดียว (undo ได้ทั้งชุด)
+  const saveScheduleChanges = async (
+    changes: ScheduleChange[],
+    label: string,
+  ) => {
+    // ทั้งชุดใน transaction เดียว: ไม่มีทางที่บางตัวเลื่อนแล้วบางตัวไม่เลื่อน
+    const error = await saveTaskChanges(
+      label,
+      changes.map((c) => ({
+        id: c.id,
+        changes: { start_date: c.start_date, end_date: c.end_date },
+      })),
+    );
+    if (error) {
+      logRepositoryError('reschedule update error:', error);
+      alert(`Cannot reschedule ${changes.length} tasks: ` + error.message);
+    }
+    return !error;
+  };
+
+  const handleConfirmShift = async () => {
+    if (!pendingShift) return;
+    setSavingShift(true);
+    try {
+      await saveScheduleChanges(
+        pendingShift,
+        `Reschedule ${pendingShift[0].name}`,
+      );
+    } catch (err) {
+      console.error('auto-schedule unexpected error:', err);
+      alert('Unexpected error when rescheduling tasks.');
+    } finally {
+      setSavingShift(false);
+      setPendingShift(null);
+      onTaskUpdate();
+    }
+  };
+
+  // dialog "Shift selection": เลื่อนทุก task ที่เลือก N วัน
+  const handleShiftSelection = async () => {
+    const days = Math.round(Number(shiftDialogDays));
+    if (!Number.isFinite(days)) {
+      alert('Please enter a number of days.');
+      return;
+    }
+    const changes = planBulkShift(
+      allTasks || tasks,
+      selectedIds,
+      days,
+      workingDaysOnly ? calendar : null,
+    );
+    setSavingShift(true);
+    try {
+      // บันทึกไม่ได้ = dialog ยังเปิดอยู่ (ไม่มี task ไหนถูกเลื่อน)
+      if (
+        !changes.length ||
+        (await saveScheduleChanges(changes, `Shift ${changes.length} tasks`))
+      ) {
+        setShiftDialogDays(null);
+      }
+    } catch (err) {
+      console.error('shift selection unexpected error:', err);
+      alert('Unexpected error when shifting tasks.');
+    } finally {
+      setSavingShift(false);
+      onTaskUpdate();
+    }
+  };
+
+  // ghost bar ของงานที่ทำซ้ำ → สร้างเป็น task จริงของรอบนั้น
+  const handleMaterializeOccurrence = async (task: Task, occ: Occurrence) => {
+    if (!canEdit) return;
+    if (
+      !confirm(
+        `Create "${task.name}" for ${occ.start_date} – ${occ.end_date} as a task?`,
+      )
+    ) {
+      return;
+    }
+
+    const { error } = await repo.tasks.create({
+      ...task,
+      start_date: occ.start_date,
+      end_date: occ.end_date,
+      status: 'To Do',
+      progress: 0,
+      // รอบที่สร้างแล้วเป็นงานเดี่ยว ซีรีส์ยังอยู่ที่ task ต้นแบบ
+      is_recurring: false,
+      dependencies: '',
+    });
+
+    if (error) {
+      logRepositoryError('create occurrence error:', error);
+      alert('Cannot create occurrence: ' + error.message);
+      return;
+    }
+    onTaskUpdate();
+  };
+
+  // snapshot start/end/progress ของทุก task เป็น baseline ใหม่
+  const handleSaveBaseline = async () => {
+    const name = prompt('Baseline name', `Plan ${formatInputDate(new Date())}`);
+    if (!name || !name.trim()) return;
+
+    const { data, error } = await repo.baselines.create(
+      name,
+      allTasks || tasks,
+    );
+    if (error || !data) {
+      logRepositoryError('create baseline error:', error);
+      alert('Cannot save baseline: ' + (error?.message || 'unknown error'));
+      return;
+    }
+
+    await loadBaselines();
+    setBaselineId(data.id);
+  };
+
+  // ========= export timeline เป็น SVG / PNG / หน้าพิมพ์ =========
+  const handleExport = async (format: 'svg' | 'png' | 'print') => {
+    if (!treeRows.length) {
+      alert('Nothing to export yet.');
+      return;
+    }
+
+    // Gantt บนจอ render แค่ row ที่มองเห็น → สร้างชุดเต็มนอกจอสำหรับ export
+    const offscreen = document.createElement('div');
+    offscreen.style.cssText =
+      'position:absolute;left:-100000px;top:0;width:1200px;visibility:hidden;';
+    document.body.appendChild(offscreen);
+
+    try {
+      const gantt = createGantt(offscreen, treeRows.map(toGanttTask));
+      decorateGantt(gantt, true);
+      await exportGantt(gantt, format);
+    } finally {
+      offscreen.remove();
+    }
+  };
+
+  const exportGantt = async (gantt: any, format: 'svg' | 'png' | 'print') => {
+    const svgEl: SVGSVGElement = gantt.$svg;
+
+    const { header_height, bar_height, padding } = gantt.options;
+
+    // ตัดเฉพาะช่วงวันที่ที่เลือก (ถ้ามี)
+    let cropX: [number, number] | undefined;
+    if (viewFrom && viewTo) {
+      const toPlusOne = toDate(viewTo)!;
+      toPlusOne.setUTCDate(toPlusOne.getUTCDate() + 1);
+      const x1 = dateToX(gantt, viewFrom);
+      const x2 = dateToX(gantt, toPlusOne.toISOString().slice(0, 10));
+      if (x1 != null && x2 != null && x2 > x1) {
+        cropX = [Math.max(x1, 0), x2];
+      }
+    }
+
+    const rangeLabel =
+      viewFrom && viewTo ? `${viewFrom} to ${viewTo}` : 'All dates';
+
+    const exp = buildGanttExport({
+      svg: svgEl,
+      rows: treeRows.map((r) => ({
+        label: r.label,
+        depth: r.depth,
+        kind: r.kind,
+      })),
+      title: 'Project timeline',
+      subtitle: `${viewMode} view · ${rangeLabel}`,
+      legend: [
+        { label: 'To Do', color: '#e5e7eb' },
+        { label: 'In Progress', color: '#f7d448' },
+        { label: 'Done', color: '#5ada9e' },
+        { label: 'Need help', color: '#eb5858' },
+        { label: 'Milestone', color: '#7c3aed' },
+        ...(showCriticalPath
+          ? [{ label: 'Critical path', color: '#dc2626' }]
+          : []),
+      ],
+      headerHeight: header_height,
+      rowHeight: bar_height + padding,
+      firstRowY: header_height + padding / 2,
+      cropX,
+    });
+
+    const filename = `timeline-${formatInputDate(new Date())}`;
+    try {
+      if (format === 'svg') downloadSvg(exp, `${filename}.svg`);
+      else if (format === 'png') await downloadPng(exp, `${filename}.png`);
+      else openPrintLayout(exp, 'Project timeline');
+    } catch (err) {
+      console.error('export error:', err);
+      alert(
+        'Cannot export timeline: ' +
+          (err instanceof Error ? err.message : String(err)),
+      );
+    }
+  };
+
+  // ยกเลิก → โหลดใหม่ให้ bar ที่ลากไว้กลับที่เดิม
+  const handleCancelShift = () => {
+    setPendingShift(null);
+    onTaskUpdate();
+  };
+
   const handleTodayRange = () => {
     const t = new Date();
     const from = new Date(t);
@@ -621,7 +2333,8 @@ export default function GanttChart({
         <div>
           <div className="gantt-title-main">Project timeline</div>
           <div className="gantt-title-sub">
-            Drag bars to adjust dates, click a task to edit details.
+            Drag bars to adjust dates, click a task to edit details. Parent
+            tasks roll up from their subtasks.
           </div>
         </div>
 
@@ -649,8 +2362,218 @@ export default function GanttChart({
               />
               <span>Done</span>
             </div>
+            <div className="gantt-legend-item">
+              <span style={{ color: '#7c3aed' }}>◆</span>
+              <span>Milestone</span>
+            </div>
+            <label className="gantt-legend-item" style={{ cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={showCriticalPath}
+                onChange={(e) => setShowCriticalPath(e.target.checked)}
+                style={{ margin: 0 }}
+              />
+              <span
+                className="gantt-legend-color"
+                style={{ border: '2px solid #dc2626' }}
+              />
+              <span>Critical path</span>
+            </label>
+            <label className="gantt-legend-item" style={{ cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={autoSchedule}
+                onChange={(e) => setAutoSchedule(e.target.checked)}
+                style={{ margin: 0 }}
+              />
+              <span>Auto-schedule dependents</span>
+            </label>
+            <label className="gantt-legend-item" style={{ cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={showWorkload}
+                onChange={(e) => setShowWorkload(e.target.checked)}
+                style={{ margin: 0 }}
+              />
+              <span
+                className="gantt-legend-color"
+                style={{ backgroundColor: '#60a5fa' }}
+              />
+              <span>Workload</span>
+            </label>
+            <label className="gantt-legend-item" style={{ cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={showRecurring}
+                onChange={(e) => setShowRecurring(e.target.checked)}
+                style={{ margin: 0 }}
+              />
+              <span
+                className="gantt-legend-color"
+                style={{ border: '1px dashed #94a3b8', background: '#f1f5f9' }}
+              />
+              <span>Recurring</span>
+            </label>
+            {onWorkingDaysOnlyChange && (
+              <label
+                className="gantt-legend-item"
+                style={{ cursor: 'pointer' }}
+              >
+                <input
+                  type="checkbox"
+                  checked={workingDaysOnly}
+                  onChange={(e) => onWorkingDaysOnlyChange(e.target.checked)}
+                  style={{ margin: 0 }}
+                />
+                <span
+                  className="gantt-legend-color"
+                  style={{ backgroundColor: '#f1f5f9' }}
+                />
+                <span>Working days only</span>
+              </label>
+            )}
+            {canEdit && onImportCalendar && (
+              <label
+                className="gantt-legend-item"
+                style={{ cursor: 'pointer', textDecoration: 'underline' }}
+                title="JSON { holidays: [{ date, name }] } or CSV lines YYYY-MM-DD,name"
+              >
+                Import holidays
+                <input
+                  type="file"
+                  accept=".json,.csv,.txt"
+                  style={{ display: 'none' }}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onImportCalendar(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            )}
+            <div className="gantt-legend-item">
+              <span
+                className="gantt-legend-color"
+                style={{ height: 4, backgroundColor: '#94a3b8' }}
+              />
+              <select
+                value={baselineId ?? ''}
+                onChange={(e) => setBaselineId(e.target.value || null)}
+                style={{
+                  fontSize: 11,
+                  padding: '1px 4px',
+                  borderRadius: 6,
+                  border: '1px solid #cbd5f5',
+                }}
+              >
+                <option value="">No baseline</option>
+                {baselines.map((b) => (
+                  <option key={b.id} value={b.id}>
+                    {b.name}
+                  </option>
+                ))}
+              </select>
+              {canEdit && (
+                <button
+                  type="button"
+                  onClick={handleSaveBaseline}
+                  style={{
+                    fontSize: 11,
+                    padding: '1px 8px',
+                    borderRadius: 999,
+                    border: '1px solid #e2e8f0',
+                    background: '#ffffff',
+                    cursor: 'pointer',
+                  }}
+                >
+                  Save baseline
+                </button>
+              )}
+            </div>
           </div>
 
+          {selectedDependency && (
+            <div
+              style={{
+                display: 'inline-flex',
+                alignItems: 'center',
+                gap: 8,
+                marginTop: 6,
+                padding: '4px 10px',
+                borderRadius: 999,
+                border: '1px solid #fecaca',
+                background: '#fef2f2',
+                fontSize: 12,
+                color: '#7f1d1d',
+              }}
+            >
+              <span>
+                {taskName(selectedDependency.from)} →{' '}
+                {taskName(selectedDependency.to)}
+              </span>
+              {canEdit && (
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  style={{ padding: '2px 8px', fontSize: 11 }}
+                  onClick={handleDeleteDependency}
+                >
+                  Delete dependency
+                </button>
+              )}
+              <button
+                type="button"
+                className="btn btn-ghost"
+                style={{ padding: '2px 6px', fontSize: 11 }}
+                onClick={() => setSelectedDependency(null)}
+              >
+                ×
+              </button>
+            </div>
+          )}
+
+          {selectedIds.length > 0 && (
+            <div
+              style={{
+                display: 'inline-flex',
+                alignItems: 'center',
+                gap: 8,
+                marginTop: 6,
+                marginLeft: selectedDependency ? 8 : 0,
+                padding: '4px 10px',
+                borderRadius: 999,
+                border: '1px solid #bfdbfe',
+                background: '#eff6ff',
+                fontSize: 12,
+                color: '#1e3a8a',
+              }}
+            >
+              <span>
+                {selectedIds.length} task{selectedIds.length === 1 ? '' : 's'}{' '}
+                selected
+              </span>
+              {canEdit && (
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  style={{ padding: '2px 8px', fontSize: 11 }}
+                  onClick={() => setShiftDialogDays('')}
+                  title="Shortcut: S"
+                >
+                  Shift by days…
+                </button>
+              )}
+              <button
+                type="button"
+                className="btn btn-ghost"
+                style={{ padding: '2px 6px', fontSize: 11 }}
+                onClick={() => setSelectedIds([])}
+              >
+                ×
+              </button>
+            </div>
+          )}
+
           {/* view mode + date range + work type filter */}
           <div
             style={{
@@ -711,10 +2634,65 @@ export default function GanttChart({
                 >
                   Today + range
                 </button>
+                <label
+                  style={{ marginLeft: 8, cursor: 'pointer' }}
+                  title="Off: tasks outside the range are cut off at its edges"
+                >
+                  <input
+                    type="checkbox"
+                    checked={hideOutOfRange}
+                    onChange={(e) => setHideOutOfRange(e.target.checked)}
+                    style={{ margin: '0 4px 0 0', verticalAlign: 'middle' }}
+                  />
+                  Hide tasks outside range
+                </label>
               </div>
 
+              <select
+                value=""
+                onChange={(e) => {
+                  const format = e.target.value as 'svg' | 'png' | 'print';
+                  if (format) handleExport(format);
+                }}
+                disabled={!hasAnyTaskRow}
+                style={{
+                  fontSize: 11,
+                  padding: '3px 6px',
+                  borderRadius: 999,
+                  border: '1px solid #e2e8f0',
+                  background: '#ffffff',
+                  cursor: 'pointer',
+                }}
+              >
+                <option value="">Export…</option>
+                <option value="png">PNG image</option>
+                <option value="svg">SVG image</option>
+                <option value="print">Print / PDF</option>
+              </select>
+
+              <label
+                className="gantt-legend-item"
+                title="Zoom (Ctrl + mouse wheel)"
+              >
+                <input
+                  type="range"
+                  min={ZOOM_MIN}
+                  max={ZOOM_MAX}
+                  step={0.05}
+                  value={zoom}
+                  onChange={(e) => setZoom(clampZoom(Number(e.target.value)))}
+                  style={{ width: 80 }}
+                />
+                <span
+                  style={{ minWidth: 36, cursor: 'pointer' }}
+                  onClick={() => setZoom(1)}
+                >
+                  {Math.round(zoom * 100)}%
+                </span>
+              </label>
+
               <div className="gantt-view-switch">
-                {(['Day', 'Week', 'Month'] as ViewMode[]).map((mode) => (
+                {VIEW_MODES.map((mode) => (
                   <button
                     key={mode}
                     type="button"
@@ -727,6 +2705,143 @@ export default function GanttChart({
               </div>
             </div>
 
+            {/* grouping: เลือก preset หรือเพิ่ม/เรียง/ลบ ชั้นของ group เอง */}
+            <div
+              style={{
+                display: 'flex',
+                flexWrap: 'wrap',
+                alignItems: 'center',
+                gap: 6,
+                fontSize: 11,
+                color: '#64748b',
+                justifyContent: 'flex-end',
+              }}
+            >
+              <span>Group by</span>
+              <select
+                value=""
+                onChange={(e) => {
+                  const preset = GROUPING_PRESETS[Number(e.target.value)];
+                  if (preset) setGrouping(preset.grouping);
+                }}
+                style={{
+                  fontSize: 11,
+                  padding: '2px 6px',
+                  borderRadius: 999,
+                  border: '1px solid #e2e8f0',
+                  background: '#ffffff',
+                }}
+              >
+                <option value="">Preset…</option>
+                {GROUPING_PRESETS.map((preset, i) => (
+                  <option key={preset.label} value={i}>
+                    {preset.label}
+                  </option>
+                ))}
+              </select>
+
+              {grouping.levels.map((level, i) => (
+                <span
+                  key={level}
+                  style={{
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    gap: 2,
+                    padding: '2px 6px',
+                    borderRadius: 999,
+                    border: '1px solid #e2e8f0',
+                    background: '#eff6ff',
+                    color: '#1e3a8a',
+                  }}
+                >
+                  {i > 0 && (
+                    <button
+                      type="button"
+                      className="btn btn-ghost"
+                      style={{ padding: 0, fontSize: 11 }}
+                      onClick={() => moveGroupLevel(i, -1)}
+                      title="Move up a level"
+                    >
+                      ‹
+                    </button>
+                  )}
+                  {GROUP_LEVELS.find((l) => l.value === level)?.label}
+                  {i < grouping.levels.length - 1 && (
+                    <button
+                      type="button"
+                      className="btn btn-ghost"
+                      style={{ padding: 0, fontSize: 11 }}
+                      onClick={() => moveGroupLevel(i, 1)}
+                      title="Move down a level"
+                    >
+                      ›
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className="btn btn-ghost"
+                    style={{ padding: 0, fontSize: 11 }}
+                    onClick={() =>
+                      updateGroupLevels(
+                        grouping.levels.filter((l) => l !== level),
+                      )
+                    }
+                    title="Remove level"
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+
+              {grouping.levels.length < GROUP_LEVELS.length && (
+                <select
+                  value=""
+                  onChange={(e) => {
+                    const level = e.target.value as GroupLevel;
+                    if (level) updateGroupLevels([...grouping.levels, level]);
+                  }}
+                  style={{
+                    fontSize: 11,
+                    padding: '2px 6px',
+                    borderRadius: 999,
+                    border: '1px solid #e2e8f0',
+                    background: '#ffffff',
+                  }}
+                >
+                  <option value="">+ Level</option>
+                  {GROUP_LEVELS.filter(
+                    (l) => !grouping.levels.includes(l.value),
+                  ).map((l) => (
+                    <option key={l.value} value={l.value}>
+                      {l.label}
+                    </option>
+                  ))}
+                </select>
+              )}
+
+              <label
+                style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: 4,
+                  cursor: 'pointer',
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={grouping.nestSubtasks}
+                  onChange={(e) =>
+                    setGrouping((prev) => ({
+                      ...prev,
+                      nestSubtasks: e.target.checked,
+                    }))
+                  }
+                  style={{ margin: 0 }}
+                />
+                <span>Subtasks under parent</span>
+              </label>
+            </div>
+
             {/* work type filter */}
             <div
               style={{
@@ -771,55 +2886,42 @@ export default function GanttChart({
         </div>
       </div>
 
-      <div className="gantt-layout">
-        {/* Tree */}
+      <div
+        className="gantt-layout"
+        style={
+          showWorkload ? { gridTemplateRows: 'minmax(0,1fr) auto' } : undefined
+        }
+      >
+        {/* Tree + คอลัมน์แก้ไขได้ */}
         <div className="gantt-tree" ref={treeRef}>
           {treeRows.length ? (
-            treeRows.map((row) => {
-              const isCollapsed = collapsedParents.has(row.id);
-
-              // มีลูกไหม? (user/category ให้ถือว่ามีลูกเสมอ, task ดูจาก map จริง)
-              let hasChildren = false;
-              if (row.kind === 'user' || row.kind === 'category') {
-                hasChildren = true;
-              } else if (row.kind === 'task') {
-                hasChildren = !!taskHasChildren[row.id];
+            <GanttTreeGrid
+              rows={visibleRows}
+              rowOffset={rowWindow.start}
+              totalRows={treeRows.length}
+              rowHeight={ROW_HEIGHT}
+              headerHeight={HEADER_HEIGHT + BAR_PADDING / 2}
+              collapsed={collapsedParents}
+              hasChildren={(row) =>
+                row.kind === 'group' ||
+                (grouping.nestSubtasks && !!taskHasChildren[row.id])
               }
-
-              const onRowClick = () => {
-                if (row.kind === 'task') {
-                  onTaskClick(row.task);
-                } else {
-                  toggleCollapse(row.id);
-                }
-              };
-
-              return (
-                <div key={row.id}>
-                  <div
-                    className="gantt-tree-row"
-                    style={{ paddingLeft: row.depth * 16 }}
-                    onClick={onRowClick}
-                  >
-                    {hasChildren ? (
-                      <span
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          toggleCollapse(row.id);
-                        }}
-                      >
-                        {isCollapsed ? '▶' : '▼'}
-                      </span>
-                    ) : (
-                      <span style={{ width: 12 }} />
-                    )}
-                    <span>{row.label}</span>
-                  </div>
-                </div>
-              );
-            })
+              isSummary={(id) => !!taskHasChildren[id]}
+              onToggle={toggleCollapse}
+              onTaskClick={onTaskClick}
+              onRevealRow={revealRow}
+              onSaved={onTaskRefresh ?? onTaskUpdate}
+              onHistory={onHistory}
+              onDropRow={handleTreeDrop}
+              issues={issues}
+              highlightIds={highlightIds}
+              canEdit={canEdit}
+              users={users}
+              calendar={calendar}
+              workingDaysOnly={workingDaysOnly}
+            />
           ) : (
-            <div style={{ fontSize: 13, color: '#64748b' }}>
+            <div style={{ fontSize: 13, color: '#64748b', padding: 10 }}>
               No tasks yet. Create one to see hierarchy.
             </div>
           )}
@@ -827,7 +2929,25 @@ export default function GanttChart({
 
         {/* Chart */}
         <div className="gantt-body" ref={bodyScrollRef}>
-          <div ref={ganttRef} />
+          {/* ความสูงเต็มของทุก row เพื่อให้ scrollbar ถูกต้อง แต่ render เฉพาะ row ที่มองเห็น */}
+          <div
+            style={{
+              position: 'relative',
+              height: hasRows
+                ? HEADER_HEIGHT + BAR_PADDING + treeRows.length * ROW_HEIGHT
+                : undefined,
+            }}
+          >
+            <div
+              ref={ganttRef}
+              style={{
+                position: 'absolute',
+                top: rowWindow.start * ROW_HEIGHT,
+                left: 0,
+                right: 0,
+              }}
+            />
+          </div>
           {!hasAnyTaskRow && (
             <div className="gantt-empty">
               <div>No tasks scheduled yet</div>
@@ -838,7 +2958,147 @@ export default function GanttChart({
             </div>
           )}
         </div>
+
+        {/* Workload ต่อคน ใต้ Gantt (แกนเวลาเดียวกัน) */}
+        {showWorkload && ganttScale && (
+          <WorkloadHistogram
+            rows={workloadRows}
+            xOf={(date) => dateToX(ganttScale, date)}
+            width={ganttScale.width}
+            capacity={workloadCapacity}
+            onCapacityChange={setWorkloadCapacity}
+            bucketLabel={workloadBucket}
+            chartRef={workloadScrollRef}
+          />
+        )}
       </div>
+
+      {/* เลื่อนทุก task ที่เลือก N วัน */}
+      {shiftDialogDays !== null && (
+        <div className="modal-backdrop">
+          <div className="modal" style={{ maxWidth: 380 }}>
+            <div className="modal-header">
+              <div>
+                <div className="modal-title-main">Shift selection</div>
+                <div className="modal-title-sub">
+                  Move {selectedIds.length} selected task
+                  {selectedIds.length === 1 ? '' : 's'} (and their subtasks)
+                  by the same number of{' '}
+                  {workingDaysOnly && calendar ? 'working days' : 'days'}.
+                </div>
+              </div>
+            </div>
+            <form
+              className="modal-body"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleShiftSelection();
+              }}
+            >
+              <label className="field-label-small">
+                Days (negative = earlier)
+              </label>
+              <input
+                type="number"
+                className="input"
+                autoFocus
+                value={shiftDialogDays}
+                onChange={(e) => setShiftDialogDays(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') setShiftDialogDays(null);
+                }}
+              />
+            </form>
+            <div className="modal-footer" style={{ justifyContent: 'flex-end' }}>
+              <div style={{ display: 'flex', gap: 8 }}>
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  onClick={() => setShiftDialogDays(null)}
+                  disabled={savingShift}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-primary"
+                  onClick={handleShiftSelection}
+                  disabled={savingShift || !shiftDialogDays}
+                >
+                  {savingShift ? 'Saving…' : 'Shift'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* preview ของ auto-schedule ก่อนบันทึก */}
+      {pendingShift && (
+        <div className="modal-backdrop">
+          <div className="modal" style={{ maxWidth: 560 }}>
+            <div className="modal-header">
+              <div>
+                <div className="modal-title-main">Reschedule dependents</div>
+                <div className="modal-title-sub">
+                  {pendingShift.length} tasks will move to keep
+                  finish-to-start order.
+                </div>
+              </div>
+            </div>
+            <div className="modal-body">
+              <table
+                style={{
+                  width: '100%',
+                  fontSize: 12,
+                  borderCollapse: 'collapse',
+                }}
+              >
+                <thead>
+                  <tr style={{ color: '#64748b', textAlign: 'left' }}>
+                    <th style={{ padding: 4 }}>Task</th>
+                    <th style={{ padding: 4 }}>Current</th>
+                    <th style={{ padding: 4 }}>New</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pendingShift.map((c) => (
+                    <tr key={c.id}>
+                      <td style={{ padding: 4 }}>{c.name}</td>
+                      <td style={{ padding: 4, color: '#64748b' }}>
+                        {c.fromStart ?? '—'} → {c.fromEnd ?? '—'}
+                      </td>
+                      <td style={{ padding: 4, fontWeight: 600 }}>
+                        {c.start_date} → {c.end_date}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="modal-footer" style={{ justifyContent: 'flex-end' }}>
+              <div style={{ display: 'flex', gap: 8 }}>
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  onClick={handleCancelShift}
+                  disabled={savingShift}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-primary"
+                  onClick={handleConfirmShift}
+                  disabled={savingShift}
+                >
+                  {savingShift ? 'Saving…' : 'Apply all'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
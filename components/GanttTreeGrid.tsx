@@ -0,0 +1,826 @@
+// components/GanttTreeGrid.tsx
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { Profile, Task } from '../types';
+import { repo } from '../utils/supabase';
+import { logRepositoryError } from '../utils/repository';
+import type { DropPosition, TreeRow } from '../utils/ganttTree';
+import {
+  diffTask,
+  makeHistoryEntry,
+  type HistoryEntry,
+} from '../utils/history';
+import { toDayNumber, fromDayNumber } from '../utils/dates';
+import {
+  addWorkingDays,
+  countWorkingDays,
+  type WorkCalendar,
+} from '../utils/workCalendar';
+import { describeIssues, type ScheduleIssue } from '../utils/validation';
+
+// ====== column definitions ======
+
+type ColumnKey =
+  | 'start'
+  | 'end'
+  | 'duration'
+  | 'assignee'
+  | 'status'
+  | 'progress'
+  | 'priority';
+
+const COLUMNS: { key: ColumnKey; label: string; width: number }[] = [
+  { key: 'start', label: 'Start', width: 104 },
+  { key: 'end', label: 'End', width: 104 },
+  { key: 'duration', label: 'Days', width: 56 },
+  { key: 'assignee', label: 'Assignee', width: 120 },
+  { key: 'status', label: 'Status', width: 110 },
+  { key: 'progress', label: '%', width: 52 },
+  { key: 'priority', label: 'Priority', width: 80 },
+];
+
+const STATUSES: Task['status'][] = [
+  'To Do',
+  'In Progress',
+  'Blocked',
+  'In problem Need Help',
+  'Done',
+];
+const PRIORITIES: Task['priority'][] = ['Low', 'Medium', 'High'];
+
+const NAME_WIDTH = 240;
+const MIN_COLUMN_WIDTH = 40;
+const COLUMNS_STORAGE_KEY = 'gantt-tree-columns';
+
+interface ColumnSettings {
+  visible: ColumnKey[];
+  widths: Record<string, number>; // key = 'name' | ColumnKey
+}
+
+const DEFAULT_SETTINGS: ColumnSettings = {
+  visible: ['start', 'end', 'progress'],
+  widths: {},
+};
+
+function loadSettings(): ColumnSettings {
+  if (typeof window === 'undefined') return DEFAULT_SETTINGS;
+  try {
+    const raw = JSON.parse(
+      window.localStorage.getItem(COLUMNS_STORAGE_KEY) || 'null',
+    );
+    if (!raw) return DEFAULT_SETTINGS;
+    return {
+      visible: Array.isArray(raw.visible)
+        ? (raw.visible as unknown[]).filter((k): k is ColumnKey =>
+            COLUMNS.some((c) => c.key === k),
+          )
+        : DEFAULT_SETTINGS.visible,
+      widths: raw.widths && typeof raw.widths === 'object' ? raw.widths : {},
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+interface GanttTreeGridProps {
+  rows: TreeRow[]; // เฉพาะ row ที่ render (virtualized)
+  rowOffset: number; // index ของ rows[0] ในรายการทั้งหมด
+  totalRows: number;
+  rowHeight: number;
+  headerHeight: number;
+  collapsed: Set<string>;
+  hasChildren: (row: TreeRow) => boolean;
+  isSummary: (taskId: string) => boolean;
+  onToggle: (id: string) => void;
+  onTaskClick: (task: Task) => void;
+  onRevealRow: (index: number) => void; // ให้ Gantt scroll ไปยัง row ที่ยังไม่ render
+  onSaved: () => void;
+  onHistory?: (entry: HistoryEntry) => void; // ให้ undo ได้
+  // ลาก task row ไปวางบน/ระหว่าง row อื่น (reparent / ย้าย group / เรียงลำดับ)
+  onDropRow?: (
+    draggedId: string,
+    targetRowId: string,
+    position: DropPosition,
+  ) => void;
+  issues?: Record<string, ScheduleIssue[]>; // ⚠ หลังชื่อ task
+  highlightIds?: string[]; // คนอื่นเพิ่งแก้ (realtime)
+  canEdit: boolean;
+  users: Profile[];
+  calendar?: WorkCalendar;
+  workingDaysOnly: boolean;
+}
+
+type CellPos = { row: number; col: ColumnKey | 'name' };
+
+export default function GanttTreeGrid({
+  rows,
+  rowOffset,
+  totalRows,
+  rowHeight,
+  headerHeight,
+  collapsed,
+  hasChildren,
+  isSummary,
+  onToggle,
+  onTaskClick,
+  onRevealRow,
+  onSaved,
+  onHistory,
+  onDropRow,
+  issues,
+  highlightIds = [],
+  canEdit,
+  users,
+  calendar,
+  workingDaysOnly,
+}: GanttTreeGridProps) {
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  const [settings, setSettings] = useState<ColumnSettings>(loadSettings);
+  const [showColumnMenu, setShowColumnMenu] = useState(false);
+
+  const [active, setActive] = useState<CellPos | null>(null);
+  const [editing, setEditing] = useState<(CellPos & { value: string }) | null>(
+    null,
+  );
+  const [saving, setSaving] = useState(false);
+  // ค่า editing ล่าสุดแบบ sync (Enter แล้ว blur ตามมา จะได้ไม่ save ซ้ำ)
+  const editingRef = useRef(editing);
+  editingRef.current = editing;
+
+  // drag & drop ของ row
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{
+    id: string;
+    position: DropPosition;
+  } | null>(null);
+
+  useEffect(() => {
+    window.localStorage.setItem(COLUMNS_STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  const visibleColumns = COLUMNS.filter((c) =>
+    settings.visible.includes(c.key),
+  );
+  const colKeys: CellPos['col'][] = [
+    'name',
+    ...visibleColumns.map((c) => c.key),
+  ];
+  const widthOf = (key: string) =>
+    settings.widths[key] ??
+    (key === 'name'
+      ? NAME_WIDTH
+      : COLUMNS.find((c) => c.key === key)?.width ?? 80);
+  const totalWidth = colKeys.reduce((sum, k) => sum + widthOf(k), 0);
+
+  const useWorkingDays = workingDaysOnly && !!calendar;
+
+  // ====== column menu + resize ======
+
+  const toggleColumn = (key: ColumnKey) => {
+    setSettings((prev) => ({
+      ...prev,
+      visible: prev.visible.includes(key)
+        ? prev.visible.filter((k) => k !== key)
+        : COLUMNS.map((c) => c.key).filter(
+            (k) => k === key || prev.visible.includes(k),
+          ),
+    }));
+  };
+
+  const startResize = (key: string, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = widthOf(key);
+
+    const onMove = (ev: MouseEvent) => {
+      const width = Math.max(
+        startWidth + ev.clientX - startX,
+        MIN_COLUMN_WIDTH,
+      );
+      setSettings((prev) => ({
+        ...prev,
+        widths: { ...prev.widths, [key]: width },
+      }));
+    };
+    const onUp = () => {
+      document.removeEventListener('mousemove', onMove);
+      document.removeEventListener('mouseup', onUp);
+    };
+    document.addEventListener('mousemove', onMove);
+    document.addEventListener('mouseup', onUp);
+  };
+
+  // ====== cell values ======
+
+  const durationOf = (t: Task): string => {
+    if (!t.start_date || !t.end_date) return '';
+    if (useWorkingDays) {
+      return String(
+        countWorkingDays(calendar!, t.start_date, t.end_date, t.team_id),
+      );
+    }
+    return String(toDayNumber(t.end_date)! - toDayNumber(t.start_date)! + 1);
+  };
+
+  const displayValue = (t: Task, col: ColumnKey): string => {
+    switch (col) {
+      case 'start':
+        return t.start_date ?? '';
+      case 'end':
+        return t.end_date ?? '';
+      case 'duration':
+        return durationOf(t);
+      case 'assignee':
+        return t.assignee ?? '';
+      case 'status':
+        return t.status;
+      case 'progress':
+        return String(t.progress ?? 0);
+      case 'priority':
+        return t.priority;
+    }
+  };
+
+  // summary task: วันที่ / progress มาจาก subtask, milestone ไม่มี end / duration ของตัวเอง
+  const isReadOnly = (t: Task, col: ColumnKey) => {
+    if (!canEdit) return true;
+    const rolledUp = ['start', 'end', 'duration', 'progress'];
+    if (isSummary(t.id) && rolledUp.includes(col)) return true;
+    if (t.is_milestone && (col === 'end' || col === 'duration')) return true;
+    return false;
+  };
+
+  // แปลงค่าที่พิมพ์ → patch ของ tasks (คืน string = error message)
+  const buildPatch = (
+    t: Task,
+    col: ColumnKey,
+    value: string,
+  ): Partial<Task> | string => {
+    const v = value.trim();
+    switch (col) {
+      case 'start': {
+        if (toDayNumber(v) == null) {
+          return 'Please enter a date (YYYY-MM-DD).';
+        }
+        if (t.is_milestone) return { start_date: v, end_date: v };
+        if (t.end_date && v > t.end_date) {
+          return 'Start date cannot be after the end date.';
+        }
+        return { start_date: v };
+      }
+      case 'end': {
+        if (!v) return { end_date: null };
+        if (toDayNumber(v) == null) {
+          return 'Please enter a date (YYYY-MM-DD).';
+        }
+        if (t.start_date && v < t.start_date) {
+          return 'End date cannot be before the start date.';
+        }
+        return { end_date: v };
+      }
+      case 'duration': {
+        const days = Math.round(Number(v));
+        if (!t.start_date) return 'Set a start date first.';
+        if (!Number.isFinite(days) || days < 1) {
+          return 'Duration must be at least 1 day.';
+        }
+        return {
+          end_date: useWorkingDays
+            ? addWorkingDays(calendar!, t.start_date, days - 1, t.team_id)
+            : fromDayNumber(toDayNumber(t.start_date)! + days - 1),
+        };
+      }
+      case 'assignee':
+        if (!v) return 'Please choose an assignee.';
+        return { assignee: v };
+      case 'status': {
+        const status = v as Task['status'];
+        if (!STATUSES.includes(status)) return 'Unknown status.';
+        // เหมือน TaskModal: Done = 100%, To Do = 0%
+        if (status === 'Done') return { status, progress: 100 };
+        if (status === 'To Do') return { status, progress: 0 };
+        return { status };
+      }
+      case 'progress': {
+        const progress = Math.round(Number(v));
+        if (!Number.isFinite(progress) || progress < 0 || progress > 100) {
+          return 'Progress must be between 0 and 100.';
+        }
+        return { progress };
+      }
+      case 'priority': {
+        const priority = v as Task['priority'];
+        if (!PRIORITIES.includes(priority)) return 'Unknown priority.';
+        return { priority };
+      }
+    }
+  };
+
+  const rowAt = (index: number) => rows[index - rowOffset];
+
+  const commitEdit = async (): Promise<boolean> => {
+    const current = editingRef.current;
+    if (!current || current.col === 'name') return true;
+    editingRef.current = null;
+
+    const row = rowAt(current.row);
+    if (!row || row.kind !== 'task') {
+      setEditing(null);
+      return true;
+    }
+
+    const t = row.task;
+    if (current.value === displayValue(t, current.col)) {
+      setEditing(null);
+      return true;
+    }
+
+    const patch = buildPatch(t, current.col, current.value);
+    if (typeof patch === 'string') {
+      editingRef.current = current;
+      alert(patch);
+      return false;
+    }
+
+    setSaving(true);
+    const { error } = await repo.tasks.update(t.id, patch);
+    setSaving(false);
+
+    if (error) {
+      logRepositoryError('inline task update error:', error);
+      editingRef.current = current;
+      alert('Cannot update task: ' + error.message);
+      return false;
+    }
+
+    setEditing(null);
+    const entry = makeHistoryEntry(`Edit ${t.name}`, [diffTask(t, patch)]);
+    if (entry) onHistory?.(entry);
+    onSaved();
+    return true;
+  };
+
+  // ====== keyboard navigation ======
+
+  const moveTo = (row: number, col: CellPos['col']) => {
+    const next = {
+      row: Math.min(Math.max(row, 0), totalRows - 1),
+      col,
+    };
+    setActive(next);
+    onRevealRow(next.row);
+  };
+
+  const startEdit = (pos: CellPos, initial?: string) => {
+    const row = rowAt(pos.row);
+    if (!row || row.kind !== 'task' || pos.col === 'name') return;
+    if (isReadOnly(row.task, pos.col)) return;
+    setEditing({
+      ...pos,
+      value: initial ?? displayValue(row.task, pos.col),
+    });
+  };
+
+  const onGridKeyDown = async (e: React.KeyboardEvent) => {
+    if (!active || saving) return;
+    const colIndex = colKeys.indexOf(active.col);
+
+    if (editing) {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setEditing(null);
+        rootRef.current?.focus();
+      } else if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        if (await commitEdit()) {
+          rootRef.current?.focus();
+          const dir = e.shiftKey ? -1 : 1;
+          if (e.key === 'Enter') {
+            moveTo(active.row + dir, active.col);
+          } else {
+            const next = Math.min(
+              Math.max(colIndex + dir, 0),
+              colKeys.length - 1,
+            );
+            moveTo(active.row, colKeys[next]);
+          }
+        }
+      }
+      return;
+    }
+
+    switch (e.key) {
+      case 'ArrowUp':
+        e.preventDefault();
+        moveTo(active.row - 1, active.col);
+        break;
+      case 'ArrowDown':
+        e.preventDefault();
+        moveTo(active.row + 1, active.col);
+        break;
+      case 'ArrowLeft':
+        e.preventDefault();
+        moveTo(active.row, colKeys[Math.max(colIndex - 1, 0)]);
+        break;
+      case 'ArrowRight':
+      case 'Tab':
+        e.preventDefault();
+        moveTo(
+          active.row,
+          colKeys[
+            e.key === 'Tab' && e.shiftKey
+              ? Math.max(colIndex - 1, 0)
+              : Math.min(colIndex + 1, colKeys.length - 1)
+          ],
+        );
+        break;
+      case 'Enter':
+      case 'F2': {
+        e.preventDefault();
+        const row = rowAt(active.row);
+        if (active.col === 'name' && row) {
+          if (row.kind === 'task') onTaskClick(row.task);
+          else onToggle(row.id);
+        } else {
+          startEdit(active);
+        }
+        break;
+      }
+      case ' ': {
+        const row = rowAt(active.row);
+        if (active.col === 'name' && row && hasChildren(row)) {
+          e.preventDefault();
+          onToggle(row.id);
+        }
+        break;
+      }
+      case 'Escape':
+        setActive(null);
+        break;
+      default:
+        // พิมพ์ตัวอักษร/ตัวเลขแล้วเริ่มแก้ cell ทันที (แบบ spreadsheet)
+        if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+          const row = rowAt(active.row);
+          if (
+            row?.kind === 'task' &&
+            active.col !== 'name' &&
+            !['status', 'priority'].includes(active.col)
+          ) {
+            e.preventDefault();
+            startEdit(active, e.key);
+          }
+        }
+    }
+  };
+
+  // ====== render ======
+
+  const cellStyle = (key: string, isActive: boolean): React.CSSProperties => ({
+    width: widthOf(key),
+    flex: 'none',
+    height: '100%',
+    display: 'flex',
+    alignItems: 'center',
+    padding: '0 6px',
+    overflow: 'hidden',
+    whiteSpace: 'nowrap',
+    textOverflow: 'ellipsis',
+    borderLeft: key === 'name' ? 'none' : '1px solid #e2e8f0',
+    outline: isActive ? '2px solid #2563eb' : 'none',
+    outlineOffset: -2,
+    fontSize: 12,
+  });
+
+  const renderEditor = (t: Task, col: ColumnKey) => {
+    const common = {
+      autoFocus: true,
+      className: col === 'status' || col === 'priority' ? 'select' : 'input',
+      value: editing!.value,
+      disabled: saving,
+      onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+        setEditing((prev) =>
+          prev ? { ...prev, value: e.target.value } : prev,
+        ),
+      onBlur: () => {
+        commitEdit();
+      },
+      style: { padding: '2px 4px', fontSize: 12, height: 26 },
+    };
+
+    if (col === 'status' || col === 'priority') {
+      const options = col === 'status' ? STATUSES : PRIORITIES;
+      return (
+        <select {...common}>
+          {options.map((o) => (
+            <option key={o} value={o}>
+              {o}
+            </option>
+          ))}
+        </select>
+      );
+    }
+    if (col === 'start' || col === 'end') {
+      return <input type="date" {...common} />;
+    }
+    if (col === 'duration' || col === 'progress') {
+      return (
+        <input
+          type="number"
+          min={col === 'progress' ? 0 : 1}
+          max={col === 'progress' ? 100 : undefined}
+          {...common}
+        />
+      );
+    }
+    return <input list="gantt-tree-assignees" {...common} />;
+  };
+
+  // ====== drag & drop ======
+
+  const endDrag = () => {
+    setDragId(null);
+    setDropTarget(null);
+  };
+
+  // บน/ล่าง 1/4 ของ row = แทรกก่อน/หลัง, กลาง = ใส่เป็นลูก (group ใส่ได้อย่างเดียว)
+  const onRowDragOver = (row: TreeRow, e: React.DragEvent<HTMLDivElement>) => {
+    if (!dragId || row.id === dragId) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+
+    let position: DropPosition = 'inside';
+    if (row.kind === 'task') {
+      const rect = e.currentTarget.getBoundingClientRect();
+      const y = (e.clientY - rect.top) / rect.height;
+      if (y < 0.25) position = 'before';
+      else if (y > 0.75) position = 'after';
+    }
+    if (dropTarget?.id !== row.id || dropTarget.position !== position) {
+      setDropTarget({ id: row.id, position });
+    }
+  };
+
+  const onRowDrop = (row: TreeRow, e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    if (dragId && dropTarget?.id === row.id) {
+      onDropRow?.(dragId, row.id, dropTarget.position);
+    }
+    endDrag();
+  };
+
+  const dropStyle = (rowId: string): React.CSSProperties => {
+    if (dropTarget?.id !== rowId) return {};
+    if (dropTarget.position === 'inside') return { background: '#dbeafe' };
+    return {
+      boxShadow: `inset 0 ${dropTarget.position === 'before' ? 2 : -2}px 0 #2563eb`,
+    };
+  };
+
+  // focus cell ที่ active (ตอนเลื่อนด้วย keyboard แล้ว row เพิ่ง render)
+  useEffect(() => {
+    if (!active || editing) return;
+    const el = rootRef.current?.querySelector<HTMLElement>(
+      `[data-cell="${active.row}:${active.col}"]`,
+    );
+    el?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [active, editing, rows]);
+
+  return (
+    <div
+      ref={rootRef}
+      tabIndex={0}
+      onKeyDown={onGridKeyDown}
+      style={{ width: totalWidth, outline: 'none' }}
+    >
+      {/* header: สูงเท่า header ของ Gantt ให้ row ตรงกัน */}
+      <div
+        style={{
+          height: headerHeight,
+          display: 'flex',
+          alignItems: 'flex-end',
+          borderBottom: '1px solid #e2e8f0',
+          fontSize: 11,
+          fontWeight: 600,
+          color: '#64748b',
+          position: 'relative',
+        }}
+      >
+        {colKeys.map((key) => (
+          <div
+            key={key}
+            style={{
+              ...cellStyle(key, false),
+              height: 28,
+              position: 'relative',
+              justifyContent: key === 'name' ? 'space-between' : 'flex-start',
+            }}
+          >
+            {key === 'name' ? (
+              <>
+                <span>Task</span>
+                <button
+                  type="button"
+                  className="btn btn-ghost"
+                  style={{ padding: '0 4px', fontSize: 11 }}
+                  onClick={() => setShowColumnMenu((v) => !v)}
+                  title="Choose columns"
+                >
+                  Columns ▾
+                </button>
+              </>
+            ) : (
+              COLUMNS.find((c) => c.key === key)?.label
+            )}
+            <span
+              onMouseDown={(e) => startResize(key, e)}
+              style={{
+                position: 'absolute',
+                right: 0,
+                top: 0,
+                bottom: 0,
+                width: 6,
+                cursor: 'col-resize',
+              }}
+            />
+          </div>
+        ))}
+
+        {showColumnMenu && (
+          <div
+            style={{
+              position: 'absolute',
+              top: headerHeight - 4,
+              left: 8,
+              zIndex: 20,
+              background: '#ffffff',
+              border: '1px solid #e2e8f0',
+              borderRadius: 8,
+              boxShadow: '0 4px 12px rgba(15, 23, 42, 0.12)',
+              padding: 8,
+              fontWeight: 400,
+            }}
+          >
+            {COLUMNS.map((c) => (
+              <label
+                key={c.key}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 6,
+                  padding: '2px 0',
+                  cursor: 'pointer',
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={settings.visible.includes(c.key)}
+                  onChange={() => toggleColumn(c.key)}
+                  style={{ margin: 0 }}
+                />
+                {c.key === 'duration'
+                  ? `Duration (${useWorkingDays ? 'working days' : 'days'})`
+                  : c.label === '%'
+                    ? 'Progress'
+                    : c.label}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div style={{ height: rowOffset * rowHeight }} />
+
+      {rows.map((row, i) => {
+        const index = rowOffset + i;
+        const isCollapsed = collapsed.has(row.id);
+        const isActive = (col: CellPos['col']) =>
+          active?.row === index && active.col === col;
+        const canDrag =
+          canEdit &&
+          !!onDropRow &&
+          row.kind === 'task' &&
+          editing?.row !== index;
+
+        return (
+          <div
+            key={row.id}
+            className={
+              highlightIds.includes(row.id)
+                ? 'gantt-tree-row remote-changed'
+                : 'gantt-tree-row'
+            }
+            style={{
+              padding: 0,
+              gap: 0,
+              borderRadius: 0,
+              opacity: dragId === row.id ? 0.5 : 1,
+              ...dropStyle(row.id),
+            }}
+            draggable={canDrag}
+            onDragStart={(e) => {
+              e.dataTransfer.setData('text/plain', row.id);
+              e.dataTransfer.effectAllowed = 'move';
+              setDragId(row.id);
+            }}
+            onDragOver={(e) => onRowDragOver(row, e)}
+            onDrop={(e) => onRowDrop(row, e)}
+            onDragEnd={endDrag}
+          >
+            <div
+              data-cell={`${index}:name`}
+              style={{
+                ...cellStyle('name', isActive('name')),
+                paddingLeft: 6 + row.depth * 16,
+                gap: 6,
+                fontWeight: row.kind === 'group' ? 600 : 400,
+                fontSize: 13,
+              }}
+              onClick={() => {
+                setActive({ row: index, col: 'name' });
+                if (row.kind === 'task') onTaskClick(row.task);
+                else onToggle(row.id);
+              }}
+            >
+              {hasChildren(row) ? (
+                <span
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggle(row.id);
+                  }}
+                >
+                  {isCollapsed ? '▶' : '▼'}
+                </span>
+              ) : (
+                <span style={{ width: 12, flex: 'none' }} />
+              )}
+              <span
+                style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}
+                title={row.label}
+              >
+                {row.label}
+              </span>
+              {row.kind === 'task' && issues?.[row.id] && (
+                <span
+                  className="schedule-issue-icon"
+                  title={describeIssues(issues[row.id])}
+                >
+                  ⚠
+                </span>
+              )}
+            </div>
+
+            {visibleColumns.map((c) => {
+              if (row.kind !== 'task') {
+                return <div key={c.key} style={cellStyle(c.key, false)} />;
+              }
+              const t = row.task;
+              const isEditing =
+                editing?.row === index && editing.col === c.key;
+              const readOnly = isReadOnly(t, c.key);
+
+              return (
+                <div
+                  key={c.key}
+                  data-cell={`${index}:${c.key}`}
+                  style={{
+                    ...cellStyle(c.key, isActive(c.key)),
+                    color: readOnly ? '#94a3b8' : '#0f172a',
+                    justifyContent:
+                      c.key === 'duration' || c.key === 'progress'
+                        ? 'flex-end'
+                        : 'flex-start',
+                  }}
+                  onClick={() => {
+                    setActive({ row: index, col: c.key });
+                    rootRef.current?.focus();
+                  }}
+                  onDoubleClick={() => startEdit({ row: index, col: c.key })}
+                >
+                  {isEditing ? renderEditor(t, c.key) : displayValue(t, c.key)}
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+
+      <div
+        style={{
+          height: Math.max(totalRows - rowOffset - rows.length, 0) * rowHeight,
+        }}
+      />
+
+      <datalist id="gantt-tree-assignees">
+        {users
+          .map((u) => u.display_name)
+          .filter(Boolean)
+          .sort((a, b) => a.localeCompare(b))
+          .map((name) => (
+            <option key={name} value={name} />
+          ))}
+      </datalist>
+    </div>
+  );
+}
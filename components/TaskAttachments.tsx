@@ -0,0 +1,269 @@
+// components/TaskAttachments.tsx
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { Profile, TaskAttachment } from '../types';
+import { repo } from '../utils/supabase';
+import { logRepositoryError } from '../utils/repository';
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENT_BYTES,
+  attachmentIcon,
+  canPreviewAttachment,
+  checkAttachment,
+  formatBytes,
+  isImageAttachment,
+} from '../utils/attachments';
+
+interface TaskAttachmentsProps {
+  taskId: string;
+  users: Profile[];
+  canEdit: boolean; // upload / ลบ
+}
+
+/**
+ * แถบ thumbnail ของไฟล์แนบใน TaskModal
+ * ลากไฟล์มาวาง หรือกด Attach; คลิก thumbnail = preview (รูป / PDF / txt) หรือดาวน์โหลด
+ */
+export default function TaskAttachments({
+  taskId,
+  users,
+  canEdit,
+}: TaskAttachmentsProps) {
+  const [items, setItems] = useState<TaskAttachment[]>([]);
+  const [thumbs, setThumbs] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [uploading, setUploading] = useState<string[]>([]);
+  const [dragOver, setDragOver] = useState(false);
+  const [preview, setPreview] = useState<{
+    item: TaskAttachment;
+    url: string;
+  } | null>(null);
+
+  const load = useCallback(async () => {
+    const { data, error } = await repo.attachments.forTask(taskId);
+    if (error) {
+      logRepositoryError('Load attachments error', error);
+      setError(error.message);
+      return;
+    }
+    setError(null);
+    const list = data || [];
+    setItems(list);
+
+    // signed URL ของรูป (bucket private ใช้ URL ตรง ๆ ไม่ได้)
+    const images = list.filter(isImageAttachment);
+    const urls = await Promise.all(
+      images.map((a) => repo.attachments.url(a)),
+    );
+    const map: Record<string, string> = {};
+    images.forEach((a, i) => {
+      if (urls[i].data) map[a.id] = urls[i].data;
+    });
+    setThumbs(map);
+  }, [taskId]);
+
+  useEffect(() => {
+    setItems([]);
+    setThumbs({});
+    setPreview(null);
+    load();
+  }, [load]);
+
+  const handleFiles = async (files: File[]) => {
+    if (!canEdit || !files.length) return;
+    const problems: string[] = [];
+    const valid = files.filter((f) => {
+      const problem = checkAttachment(f);
+      if (problem) problems.push(problem);
+      return !problem;
+    });
+
+    let count = items.length;
+    for (const file of valid) {
+      setUploading((prev) => [...prev, file.name]);
+      const { error } = await repo.attachments.upload(taskId, file, count);
+      setUploading((prev) => prev.filter((n) => n !== file.name));
+      if (error) {
+        logRepositoryError('Upload attachment error', error);
+        problems.push(`"${file.name}": ${error.message}`);
+      } else {
+        count++;
+      }
+    }
+    if (valid.length) await load();
+    if (problems.length) {
+      alert('Some files were not attached:\n\n' + problems.join('\n'));
+    }
+  };
+
+  const handleOpen = async (item: TaskAttachment) => {
+    if (!canPreviewAttachment(item)) return handleDownload(item);
+    const url = thumbs[item.id] || (await repo.attachments.url(item)).data;
+    if (url) setPreview({ item, url });
+    else alert('Cannot open this file.');
+  };
+
+  const handleDownload = async (item: TaskAttachment) => {
+    const { data, error } = await repo.attachments.url(item, true);
+    if (error || !data) {
+      logRepositoryError('Download attachment error', error);
+      alert('Cannot download this file.');
+      return;
+    }
+    const link = document.createElement('a');
+    link.href = data;
+    link.download = item.name;
+    link.click();
+  };
+
+  const handleRemove = async (item: TaskAttachment) => {
+    if (!confirm(`Remove "${item.name}" from this task?`)) return;
+    const { error } = await repo.attachments.remove(item);
+    if (error) {
+      logRepositoryError('Remove attachment error', error);
+      alert('Cannot remove attachment: ' + error.message);
+      return;
+    }
+    if (preview?.item.id === item.id) setPreview(null);
+    load();
+  };
+
+  const uploaderName = (id: string | null) => {
+    const user = users.find((u) => u.id === id);
+    return user ? user.display_name || user.email : 'Unknown user';
+  };
+
+  return (
+    <div
+      className={'attachments' + (dragOver ? ' is-drag-over' : '')}
+      onDragOver={(e) => {
+        if (!canEdit) return;
+        e.preventDefault();
+        setDragOver(true);
+      }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={(e) => {
+        if (!canEdit) return;
+        e.preventDefault();
+        setDragOver(false);
+        handleFiles(Array.from(e.dataTransfer.files));
+      }}
+    >
+      <div className="attachments-header">
+        <div className="field-label" style={{ margin: 0 }}>
+          Attachments {items.length > 0 && `(${items.length})`}
+        </div>
+        {canEdit && (
+          <label className="btn btn-secondary attachments-add">
+            + Attach files
+            <input
+              type="file"
+              multiple
+              accept={ATTACHMENT_ACCEPT}
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                handleFiles(Array.from(e.target.files || []));
+                e.target.value = '';
+              }}
+            />
+          </label>
+        )}
+      </div>
+
+      {error ? (
+        <div className="activity-empty" style={{ color: '#b91c1c' }}>
+          Cannot load attachments: {error}
+        </div>
+      ) : !items.length && !uploading.length ? (
+        <div className="attachments-empty">
+          {canEdit
+            ? `Drop files here — images, PDF, Office documents, text or zip up to ${formatBytes(
+                MAX_ATTACHMENT_BYTES,
+              )}.`
+            : 'No attachments.'}
+        </div>
+      ) : (
+        <div className="attachments-strip">
+          {items.map((item) => (
+            <div
+              key={item.id}
+              className="attachment-tile"
+              title={`${item.name}\n${formatBytes(item.size)} · ${uploaderName(
+                item.uploaded_by,
+              )} · ${new Date(item.created_at).toLocaleString()}`}
+            >
+              <button
+                type="button"
+                className="attachment-thumb"
+                onClick={() => handleOpen(item)}
+              >
+                {thumbs[item.id] ? (
+                  <img src={thumbs[item.id]} alt={item.name} />
+                ) : (
+                  <span>{attachmentIcon(item)}</span>
+                )}
+              </button>
+              <div className="attachment-name">{item.name}</div>
+              <div className="attachment-meta">
+                {formatBytes(item.size)}
+                <button type="button" onClick={() => handleDownload(item)}>
+                  Download
+                </button>
+                {canEdit && (
+                  <button type="button" onClick={() => handleRemove(item)}>
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+          {uploading.map((name) => (
+            <div key={name} className="attachment-tile is-uploading">
+              <div className="attachment-thumb">
+                <span>⏳</span>
+              </div>
+              <div className="attachment-name">{name}</div>
+              <div className="attachment-meta">Uploading…</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {preview && (
+        <div
+          className="attachment-preview"
+          onClick={() => setPreview(null)}
+        >
+          <div
+            className="attachment-preview-body"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="attachment-preview-header">
+              <strong>{preview.item.name}</strong>
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={() => handleDownload(preview.item)}
+              >
+                Download
+              </button>
+              <button
+                type="button"
+                className="btn btn-ghost"
+                onClick={() => setPreview(null)}
+              >
+                ×
+              </button>
+            </div>
+            {isImageAttachment(preview.item) ? (
+              <img src={preview.url} alt={preview.item.name} />
+            ) : (
+              <iframe src={preview.url} title={preview.item.name} />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
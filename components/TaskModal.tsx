@@ -2,7 +2,15 @@
 'use client';
 
 import { useEffect, useMemo, useState } from 'react';
-import type { Task, Profile } from '../types';
+import type { Task, Profile, TaskActivity, Team } from '../types';
+import { findDependencyCycle, parseDependencies } from '../utils/schedule';
+import { validateSchedule, type ScheduleIssue } from '../utils/validation';
+import type { WorkCalendar } from '../utils/workCalendar';
+import { repo } from '../utils/supabase';
+import { logRepositoryError } from '../utils/repository';
+import ActivityTimeline from './ActivityTimeline';
+import CommentThread from './CommentThread';
+import TaskAttachments from './TaskAttachments';
 
 // ถ้าคุณย้าย WorkType ไปไว้ใน types.ts แล้ว export ก็ลบ type นี้ออกได้
 export type WorkType =
@@ -24,9 +32,12 @@ interface TaskModalProps {
   isOpen: boolean;
   task: Task | null;
   allTasks: Task[];
+  // วันที่แนะนำใน warning ให้ตกวันทำงาน
+  calendar?: WorkCalendar | null;
 
   // ทำเป็น optional แล้วให้ default เป็น [] ในตัว component
   users?: Profile[];
+  teams?: Team[]; // ไว้แสดงชื่อทีมในแท็บ History
   currentUser?: Profile | null;
   canEdit?: boolean; // ถ้า false = view only
   onClose: () => void;
@@ -35,23 +46,40 @@ interface TaskModalProps {
 
   // 👇 ใหม่: ฟังก์ชันสำหรับ duplicate task
   onDuplicate?: (task: Task) => void;
+
+  // task นี้ถูกแก้ / ลบจากที่อื่นระหว่างเปิด modal (realtime)
+  remoteChange?: { deleted: boolean } | null;
+  onLoadRemote?: () => void; // โหลดค่าล่าสุดทับฟอร์ม
+
+  unreadComments?: number; // แสดงบนแท็บ Comments
+  onCommentsRead?: () => void;
 }
 
 export default function TaskModal({
   isOpen,
   task,
   allTasks,
+  calendar,
   users = [],
+  teams = [],
   currentUser,
   canEdit = true,
   onClose,
   onSave,
   onDelete,
   onDuplicate,
+  remoteChange,
+  onLoadRemote,
+  unreadComments = 0,
+  onCommentsRead,
 }: TaskModalProps) {
   const isEdit = !!task;
   const disabled = !canEdit;
 
+  // parent task: วันที่ + progress rollup จาก subtask → แก้เองไม่ได้
+  const isSummary =
+    !!task && allTasks.some((t) => t.parent_id === task.id);
+
   // ----- local form state -----
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
@@ -70,10 +98,103 @@ export default function TaskModal({
   const [recurringUnit, setRecurringUnit] =
     useState<Task['recurring_unit']>('month');
   const [dependencies, setDependencies] = useState<string | null>(null);
+  const [isMilestone, setIsMilestone] = useState<boolean>(false);
 
   // ประเภทงาน
   const [workType, setWorkType] = useState<WorkType | ''>('');
 
+  // แท็บ Comments / History ใช้ได้ตอนแก้ task ที่มีอยู่แล้วเท่านั้น
+  const [tab, setTab] = useState<'details' | 'comments' | 'history'>(
+    'details',
+  );
+  const [history, setHistory] = useState<TaskActivity[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTab('details');
+    setHistory([]);
+  }, [isOpen, task?.id]);
+
+  // โหลดใหม่ทุกครั้งที่ task เปลี่ยน (รวมถึงแก้จากที่อื่นแบบ realtime)
+  useEffect(() => {
+    if (!isOpen || !task || tab !== 'history') return;
+    let cancelled = false;
+    setHistoryLoading(true);
+    setHistoryError(null);
+    repo.activity.forTask(task.id).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) {
+        logRepositoryError('Load task history error', error);
+        setHistoryError(error.message);
+      }
+      setHistory(data || []);
+      setHistoryLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, task, tab]);
+
+  const historyNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    allTasks.forEach((t) => (names[t.id] = t.name));
+    teams.forEach((t) => (names[t.id] = t.name));
+    return names;
+  }, [allTasks, teams]);
+
+  // ตรวจค่าที่กำลังแก้เทียบกับ task อื่น (เตือนเฉย ๆ ไม่บล็อกการบันทึก)
+  const issues = useMemo<ScheduleIssue[]>(() => {
+    if (!isOpen) return [];
+    const draftId = task?.id || '__draft__';
+    const draft = {
+      ...(task || {}),
+      id: draftId,
+      name: name.trim() || 'This task',
+      start_date: startDate,
+      end_date: isMilestone ? startDate : endDate,
+      progress,
+      parent_id: parentId,
+      dependencies,
+      is_milestone: isMilestone,
+    } as Task;
+    const others = allTasks.filter((t) => t.id !== draftId);
+    return validateSchedule([...others, draft], calendar)[draftId] || [];
+  }, [
+    isOpen,
+    task,
+    allTasks,
+    calendar,
+    name,
+    startDate,
+    endDate,
+    progress,
+    parentId,
+    dependencies,
+    isMilestone,
+  ]);
+
+  // ใช้ fix กับค่าในฟอร์ม (ยังไม่บันทึกจนกด Save)
+  // parent แก้วันที่เองไม่ได้ ยกเว้นการใช้ค่า rollup จาก subtask
+  const canApplyFix = (issue: ScheduleIssue) =>
+    canEdit &&
+    !!issue.fix.patch &&
+    issue.fix.taskId === (task?.id || '__draft__') &&
+    !(
+      isSummary &&
+      issue.kind !== 'stale_rollup' &&
+      ('start_date' in issue.fix.patch || 'end_date' in issue.fix.patch)
+    );
+
+  const applyFix = (issue: ScheduleIssue) => {
+    const patch = issue.fix.patch || {};
+    if ('start_date' in patch) setStartDate(patch.start_date ?? null);
+    if ('end_date' in patch) setEndDate(patch.end_date ?? null);
+    if ('progress' in patch) setProgress(patch.progress ?? 0);
+    if ('parent_id' in patch) setParentId(patch.parent_id ?? null);
+    if ('dependencies' in patch) setDependencies(patch.dependencies ?? null);
+  };
+
   // suggestions ของ assignee (จาก profiles)
   const assigneeSuggestions = useMemo(() => {
     const list = users || [];
@@ -117,6 +238,7 @@ export default function TaskModal({
       setRecurringInterval(task.recurring_interval ?? null);
       setRecurringUnit(task.recurring_unit ?? 'month');
       setDependencies(task.dependencies ?? '');
+      setIsMilestone(!!task.is_milestone);
       setWorkType((task.work_type as WorkType | null) ?? '');
     } else {
       // ----- Create mode: reset + default -----
@@ -141,6 +263,7 @@ export default function TaskModal({
       setRecurringInterval(null);
       setRecurringUnit('month');
       setDependencies('');
+      setIsMilestone(false);
       setWorkType('');
     }
   }, [isOpen, task, currentUser]);
@@ -210,12 +333,31 @@ export default function TaskModal({
       return;
     }
 
+    // dependency ต้องไม่วน (งานใหม่ยังไม่มี id จึงยังวนไม่ได้)
+    if (task?.id) {
+      const cycle = findDependencyCycle(
+        allTasks,
+        task.id,
+        parseDependencies(dependencies),
+      );
+      if (cycle) {
+        const nameOf = (id: string) =>
+          allTasks.find((t) => t.id === id)?.name || id;
+        alert(
+          'Dependencies would create a cycle: ' +
+            cycle.map(nameOf).join(' → '),
+        );
+        return;
+      }
+    }
+
     onSave({
       id: task?.id,
       name: name.trim(),
       description: description || '',
       start_date: startDate,
-      end_date: endDate,
+      // milestone มีวันเดียว
+      end_date: isMilestone ? startDate : endDate,
       status,
       priority,
       progress,
@@ -227,6 +369,7 @@ export default function TaskModal({
       recurring_unit: isRecurring ? recurringUnit : null,
       dependencies,
       work_type: workType || null, // 👈 บันทึกประเภทงาน
+      is_milestone: isMilestone,
     });
   };
 
@@ -274,242 +417,410 @@ export default function TaskModal({
 
         {/* body */}
         <div className="modal-body">
-          <div className="modal-form-grid-2">
-            {/* Left column */}
-            <div>
-              <div className="field-label">
-                Task name
-                <RequiredMark />
+          {remoteChange && (
+            <div className="remote-change-banner">
+              <span style={{ flex: 1 }}>
+                {remoteChange.deleted
+                  ? 'Someone else deleted this task while you were editing it.'
+                  : 'Someone else changed this task while you were editing it. Saving will overwrite their changes.'}
+              </span>
+              {!remoteChange.deleted && onLoadRemote && (
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  style={{ padding: '2px 8px', fontSize: 11 }}
+                  onClick={onLoadRemote}
+                >
+                  Load latest
+                </button>
+              )}
+            </div>
+          )}
+
+          {isEdit && (
+            <div className="modal-tabs">
+              <button
+                type="button"
+                className={
+                  'modal-tab' + (tab === 'details' ? ' is-active' : '')
+                }
+                onClick={() => setTab('details')}
+              >
+                Details
+              </button>
+              <button
+                type="button"
+                className={
+                  'modal-tab' + (tab === 'comments' ? ' is-active' : '')
+                }
+                onClick={() => setTab('comments')}
+              >
+                Comments
+                {unreadComments > 0 && tab !== 'comments' && (
+                  <span className="comment-badge">{unreadComments}</span>
+                )}
+              </button>
+              <button
+                type="button"
+                className={
+                  'modal-tab' + (tab === 'history' ? ' is-active' : '')
+                }
+                onClick={() => setTab('history')}
+              >
+                History
+              </button>
+            </div>
+          )}
+
+          {tab === 'comments' && isEdit ? (
+            <CommentThread
+              taskId={task.id}
+              users={users}
+              currentUser={currentUser ?? null}
+              onRead={onCommentsRead}
+            />
+          ) : tab === 'history' && isEdit ? (
+            historyLoading && !history.length ? (
+              <div className="activity-empty">Loading history…</div>
+            ) : historyError ? (
+              <div className="activity-empty" style={{ color: '#b91c1c' }}>
+                Cannot load history: {historyError}
               </div>
-              <input
-                className="input"
-                value={name}
-                onChange={(e) => setName(e.target.value)}
-                placeholder="e.g. Prepare weekly report"
-                disabled={disabled}
+            ) : (
+              <ActivityTimeline
+                entries={history}
+                users={users}
+                names={historyNames}
               />
-
-              <div style={{ marginTop: 10 }}>
-                <div className="field-label">Description</div>
-                <textarea
-                  className="textarea"
-                  value={description}
-                  onChange={(e) => setDescription(e.target.value)}
-                  placeholder="Add context, notes, links…"
-                  disabled={disabled}
-                />
-              </div>
-
-              <div style={{ marginTop: 14 }}>
-                <div className="field-label">Scheduling</div>
-                <div className="field-label-small">
-                  Start date
-                  <RequiredMark />
-                </div>
-                <input
-                  type="date"
-                  className="input"
-                  value={startDate ?? ''}
-                  onChange={(e) =>
-                    setStartDate(e.target.value || null)
-                  }
-                  disabled={disabled}
-                />
-                <div
-                  className="field-label-small"
-                  style={{ marginTop: 6 }}
-                >
-                  End date
+            )
+          ) : (
+            <>
+              {issues.length > 0 && (
+                <div className="schedule-issues">
+                  {issues.map((issue) => (
+                    <div key={issue.kind} className="schedule-issue">
+                      <span className="schedule-issue-icon">⚠</span>
+                      <div style={{ flex: 1 }}>
+                        <div>{issue.message}</div>
+                        <div style={{ color: '#92400e' }}>
+                          Fix: {issue.fix.label}
+                        </div>
+                      </div>
+                      {canApplyFix(issue) && (
+                        <button
+                          type="button"
+                          className="btn btn-secondary"
+                          style={{ padding: '2px 8px', fontSize: 11 }}
+                          onClick={() => applyFix(issue)}
+                        >
+                          Apply
+                        </button>
+                      )}
+                    </div>
+                  ))}
                 </div>
-                <input
-                  type="date"
-                  className="input"
-                  value={endDate ?? ''}
-                  onChange={(e) =>
-                    setEndDate(e.target.value || null)
-                  }
-                  disabled={disabled}
-                />
-              </div>
+              )}
+
+              <div className="modal-form-grid-2">
+                {/* Left column */}
+                <div>
+                  <div className="field-label">
+                    Task name
+                    <RequiredMark />
+                  </div>
+                  <input
+                    className="input"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g. Prepare weekly report"
+                    disabled={disabled}
+                  />
+
+                  <div style={{ marginTop: 10 }}>
+                    <div className="field-label">Description</div>
+                    <textarea
+                      className="textarea"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      placeholder="Add context, notes, links…"
+                      disabled={disabled}
+                    />
+                  </div>
 
-              {/* Work type */}
-              <div style={{ marginTop: 14 }}>
-                <div className="field-label">
-                  ประเภทงาน
-                  <RequiredMark />
-                </div>
-                <select
-                  className="select"
-                  value={workType || ''}
-                  onChange={(e) =>
-                    setWorkType(
-                      (e.target.value || '') as WorkType | '',
-                    )
-                  }
-                  disabled={disabled}
-                >
-                  <option value="">(ไม่ระบุ)</option>
-                  {WORK_TYPE_OPTIONS.map((opt) => (
-                    <option
-                      key={opt.value}
-                      value={opt.value}
+                  <div style={{ marginTop: 14 }}>
+                    <div className="field-label">Scheduling</div>
+                    {isSummary && (
+                      <div className="field-label-small">
+                        Dates and progress roll up from subtasks.
+                      </div>
+                    )}
+                    <label
+                      className="field-label-small"
+                      style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: 6,
+                        cursor: 'pointer',
+                      }}
                     >
-                      {opt.label}
-                    </option>
-                  ))}
-                </select>
-              </div>
-            </div>
+                      <input
+                        type="checkbox"
+                        checked={isMilestone}
+                        onChange={(e) => setIsMilestone(e.target.checked)}
+                        disabled={disabled || isSummary}
+                        style={{ margin: 0 }}
+                      />
+                      ◆ Milestone (single date)
+                    </label>
+                    <div className="field-label-small">
+                      {isMilestone ? 'Date' : 'Start date'}
+                      <RequiredMark />
+                    </div>
+                    <input
+                      type="date"
+                      className="input"
+                      value={startDate ?? ''}
+                      onChange={(e) =>
+                        setStartDate(e.target.value || null)
+                      }
+                      disabled={disabled || isSummary}
+                    />
+                    {!isMilestone && (
+                      <>
+                        <div
+                          className="field-label-small"
+                          style={{ marginTop: 6 }}
+                        >
+                          End date
+                        </div>
+                        <input
+                          type="date"
+                          className="input"
+                          value={endDate ?? ''}
+                          onChange={(e) =>
+                            setEndDate(e.target.value || null)
+                          }
+                          disabled={disabled || isSummary}
+                        />
+                      </>
+                    )}
+                  </div>
 
-            {/* Right column */}
-            <div>
-              <div className="field-label">
-                Status &amp; priority
-              </div>
-              <div
-                style={{
-                  display: 'flex',
-                  gap: 8,
-                }}
-              >
-                <div style={{ flex: 1 }}>
-                  <div className="field-label-small">
-                    Status
+                  {/* Work type */}
+                  <div style={{ marginTop: 14 }}>
+                    <div className="field-label">
+                      ประเภทงาน
+                      <RequiredMark />
+                    </div>
+                    <select
+                      className="select"
+                      value={workType || ''}
+                      onChange={(e) =>
+                        setWorkType(
+                          (e.target.value || '') as WorkType | '',
+                        )
+                      }
+                      disabled={disabled}
+                    >
+                      <option value="">(ไม่ระบุ)</option>
+                      {WORK_TYPE_OPTIONS.map((opt) => (
+                        <option
+                          key={opt.value}
+                          value={opt.value}
+                        >
+                          {opt.label}
+                        </option>
+                      ))}
+                    </select>
                   </div>
-                  <select
-                    className="select"
-                    value={status}
-                    onChange={(e) =>
-                      handleStatusChange(
-                        e.target.value as Task['status'],
-                      )
-                    }
-                    disabled={disabled}
-                  >
-                    <option value="To Do">To Do</option>
-                    <option value="In Progress">
-                      In Progress
-                    </option>
-                    <option value="Blocked">Blocked</option>
-                    <option value="In problem Need Help">
-                      In problem – Need Help
-                    </option>
-                    <option value="Done">Done</option>
-                  </select>
                 </div>
-                <div style={{ flex: 1 }}>
-                  <div className="field-label-small">
-                    Priority
+
+                {/* Right column */}
+                <div>
+                  <div className="field-label">
+                    Status &amp; priority
                   </div>
-                  <select
-                    className="select"
-                    value={priority}
-                    onChange={(e) =>
-                      setPriority(
-                        e.target.value as Task['priority'],
-                      )
-                    }
-                    disabled={disabled}
+                  <div
+                    style={{
+                      display: 'flex',
+                      gap: 8,
+                    }}
                   >
-                    <option>Low</option>
-                    <option>Medium</option>
-                    <option>High</option>
-                  </select>
-                </div>
-              </div>
+                    <div style={{ flex: 1 }}>
+                      <div className="field-label-small">
+                        Status
+                      </div>
+                      <select
+                        className="select"
+                        value={status}
+                        onChange={(e) =>
+                          handleStatusChange(
+                            e.target.value as Task['status'],
+                          )
+                        }
+                        disabled={disabled}
+                      >
+                        <option value="To Do">To Do</option>
+                        <option value="In Progress">
+                          In Progress
+                        </option>
+                        <option value="Blocked">Blocked</option>
+                        <option value="In problem Need Help">
+                          In problem – Need Help
+                        </option>
+                        <option value="Done">Done</option>
+                      </select>
+                    </div>
+                    <div style={{ flex: 1 }}>
+                      <div className="field-label-small">
+                        Priority
+                      </div>
+                      <select
+                        className="select"
+                        value={priority}
+                        onChange={(e) =>
+                          setPriority(
+                            e.target.value as Task['priority'],
+                          )
+                        }
+                        disabled={disabled}
+                      >
+                        <option>Low</option>
+                        <option>Medium</option>
+                        <option>High</option>
+                      </select>
+                    </div>
+                  </div>
 
-              <div
-                style={{ marginTop: 12 }}
-                className="range-row"
-              >
-                <div className="field-label">Tracking</div>
-                <div className="range-header">
-                  <span>Progress</span>
-                  <span>{progress}%</span>
-                </div>
-                <input
-                  type="range"
-                  className="range-input"
-                  min={0}
-                  max={100}
-                  step={5}
-                  value={progress}
-                  onChange={(e) =>
-                    handleProgressChange(
-                      Number(e.target.value),
-                    )
-                  }
-                  disabled={disabled}
-                />
-              </div>
+                  <div
+                    style={{ marginTop: 12 }}
+                    className="range-row"
+                  >
+                    <div className="field-label">Tracking</div>
+                    <div className="range-header">
+                      <span>Progress</span>
+                      <span>{progress}%</span>
+                    </div>
+                    <input
+                      type="range"
+                      className="range-input"
+                      min={0}
+                      max={100}
+                      step={5}
+                      value={progress}
+                      onChange={(e) =>
+                        handleProgressChange(
+                          Number(e.target.value),
+                        )
+                      }
+                      disabled={disabled || isSummary}
+                    />
+                  </div>
 
-              {/* Assignee with autocomplete */}
-              <div style={{ marginTop: 12 }}>
-                <div className="field-label">
-                  Assignee
-                  <RequiredMark />
-                </div>
-                <input
-                  className="input"
-                  list="assignee-options"
-                  value={assignee ?? ''}
-                  onChange={(e) =>
-                    setAssignee(e.target.value || null)
-                  }
-                  placeholder="Name or email"
-                  disabled={disabled}
-                />
-                <datalist id="assignee-options">
-                  {assigneeSuggestions.map((name) => (
-                    <option key={name} value={name} />
-                  ))}
-                </datalist>
-              </div>
+                  {/* Assignee with autocomplete */}
+                  <div style={{ marginTop: 12 }}>
+                    <div className="field-label">
+                      Assignee
+                      <RequiredMark />
+                    </div>
+                    <input
+                      className="input"
+                      list="assignee-options"
+                      value={assignee ?? ''}
+                      onChange={(e) =>
+                        setAssignee(e.target.value || null)
+                      }
+                      placeholder="Name or email"
+                      disabled={disabled}
+                    />
+                    <datalist id="assignee-options">
+                      {assigneeSuggestions.map((name) => (
+                        <option key={name} value={name} />
+                      ))}
+                    </datalist>
+                  </div>
 
-              <div style={{ marginTop: 12 }}>
-                <div className="field-label">Parent task</div>
-                <select
-                  className="select"
-                  value={parentId ?? ''}
-                  onChange={(e) =>
-                    setParentId(e.target.value || null)
-                  }
-                  disabled={disabled}
-                >
-                  <option value="">No parent</option>
-                  {allTasks
-                    .filter((t) => !task || t.id !== task.id)
-                    // 👇 ถ้ามี currentUser: แสดงเฉพาะที่ assignee ตรงกัน
-                    .filter((t) => {
-                      if (!currentUser?.display_name) return true;
-                      return t.assignee === currentUser.display_name;
-                    })
-                    .map((t) => (
-                      <option key={t.id} value={t.id}>
-                        {t.name}
-                      </option>
-                    ))}
-                </select>
-              </div>
+                  <div style={{ marginTop: 12 }}>
+                    <div className="field-label">Parent task</div>
+                    <select
+                      className="select"
+                      value={parentId ?? ''}
+                      onChange={(e) =>
+                        setParentId(e.target.value || null)
+                      }
+                      disabled={disabled}
+                    >
+                      <option value="">No parent</option>
+                      {allTasks
+                        .filter((t) => !task || t.id !== task.id)
+                        // 👇 ถ้ามี currentUser: แสดงเฉพาะที่ assignee ตรงกัน
+                        .filter((t) => {
+                          if (!currentUser?.display_name) return true;
+                          return t.assignee === currentUser.display_name;
+                        })
+                        .map((t) => (
+                          <option key={t.id} value={t.id}>
+                            {t.name}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
 
-              <div style={{ marginTop: 12 }}>
-                <div className="field-label">
-                  Dependencies (comma separated IDs)
+                  <div style={{ marginTop: 12 }}>
+                    <div className="field-label">
+                      Dependencies (comma separated IDs)
+                    </div>
+                    <input
+                      className="input"
+                      value={dependencies ?? ''}
+                      onChange={(e) =>
+                        setDependencies(
+                          e.target.value || null,
+                        )
+                      }
+                      placeholder="task-id-1, task-id-2"
+                      disabled={disabled}
+                    />
+                    {parseDependencies(dependencies).length > 0 && (
+                      <div
+                        className="field-label-small"
+                        style={{ marginTop: 4, color: '#64748b' }}
+                      >
+                        Waits for:{' '}
+                        {parseDependencies(dependencies)
+                          .map(
+                            (id) =>
+                              allTasks.find((t) => t.id === id)?.name ||
+                              `unknown (${id})`,
+                          )
+                          .join(', ')}
+                      </div>
+                    )}
+                    <div
+                      className="field-label-small"
+                      style={{ marginTop: 2, color: '#94a3b8' }}
+                    >
+                      Tip: drag from the dot at the end of a bar in the Gantt
+                      view to link tasks.
+                    </div>
+                  </div>
                 </div>
-                <input
-                  className="input"
-                  value={dependencies ?? ''}
-                  onChange={(e) =>
-                    setDependencies(
-                      e.target.value || null,
-                    )
-                  }
-                  placeholder="task-id-1, task-id-2"
-                  disabled={disabled}
-                />
               </div>
-            </div>
-          </div>
+
+              {/* ไฟล์แนบต้องผูกกับ task id → สร้าง task ก่อน */}
+              {isEdit ? (
+                <TaskAttachments
+                  taskId={task.id}
+                  users={users}
+                  canEdit={canEdit}
+                />
+              ) : (
+                <div className="attachments-empty" style={{ marginTop: 16 }}>
+                  Create the task first to attach files.
+                </div>
+              )}
+            </>
+          )}
         </div>
 
         {/* footer */}
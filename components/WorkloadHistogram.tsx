@@ -0,0 +1,190 @@
+// components/WorkloadHistogram.tsx
+'use client';
+
+import { useRef } from 'react';
+import type { WorkloadRow } from '../utils/workload';
+
+const ROW_HEIGHT = 26;
+const HEADER_HEIGHT = 24;
+const MAX_HEIGHT = 220;
+
+interface WorkloadHistogramProps {
+  rows: WorkloadRow[];
+  xOf: (date: string) => number | null; // ตำแหน่ง x เดียวกับ Gantt
+  width: number; // ความกว้าง svg ของ Gantt
+  capacity: number; // งานพร้อมกันเกินนี้ = over-allocated
+  onCapacityChange: (value: number) => void;
+  bucketLabel: string; // day / week / month
+  chartRef: React.RefObject<HTMLDivElement | null>; // Gantt sync scrollLeft มาที่นี่
+}
+
+/**
+ * แสดงเป็น 2 cell ใน grid เดียวกับ tree / Gantt
+ * ซ้าย = ชื่อคน, ขวา = histogram (scroll แนวนอนตาม Gantt)
+ */
+export default function WorkloadHistogram({
+  rows,
+  xOf,
+  width,
+  capacity,
+  onCapacityChange,
+  bucketLabel,
+  chartRef,
+}: WorkloadHistogramProps) {
+  const labelsRef = useRef<HTMLDivElement | null>(null);
+
+  const peak = rows.reduce(
+    (max, r) => Math.max(max, ...r.cells.map((c) => c.peak)),
+    0,
+  );
+  // สเกลความสูง: เห็นเส้น capacity เสมอ
+  const scaleMax = Math.max(peak, capacity + 1);
+  const barArea = ROW_HEIGHT - 6;
+  const height = HEADER_HEIGHT + rows.length * ROW_HEIGHT;
+  const capacityY = barArea - (capacity / scaleMax) * barArea;
+
+  return (
+    <>
+      <div
+        ref={labelsRef}
+        className="gantt-tree"
+        style={{
+          maxHeight: MAX_HEIGHT,
+          overflow: 'hidden',
+          borderRadius: '0 0 0 12px',
+          fontSize: 12,
+        }}
+      >
+        <div
+          style={{
+            height: HEADER_HEIGHT,
+            display: 'flex',
+            alignItems: 'center',
+            gap: 6,
+            padding: '0 8px',
+            fontSize: 11,
+            color: '#64748b',
+          }}
+        >
+          <span style={{ fontWeight: 600 }}>Workload / {bucketLabel}</span>
+          <span>max</span>
+          <input
+            type="number"
+            min={1}
+            value={capacity}
+            onChange={(e) =>
+              onCapacityChange(Math.max(Number(e.target.value) || 1, 1))
+            }
+            title="Concurrent tasks per person before it counts as over-allocated"
+            style={{
+              width: 44,
+              fontSize: 11,
+              padding: '1px 4px',
+              border: '1px solid #e2e8f0',
+              borderRadius: 6,
+            }}
+          />
+        </div>
+        {rows.map((r) => {
+          const over = r.cells.some((c) => c.peak > capacity);
+          return (
+            <div
+              key={r.assignee}
+              style={{
+                height: ROW_HEIGHT,
+                display: 'flex',
+                alignItems: 'center',
+                padding: '0 8px',
+                whiteSpace: 'nowrap',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                color: over ? '#b91c1c' : '#0f172a',
+                fontWeight: over ? 600 : 400,
+              }}
+            >
+              {r.assignee}
+            </div>
+          );
+        })}
+      </div>
+
+      <div
+        ref={chartRef}
+        className="gantt-body"
+        style={{
+          maxHeight: MAX_HEIGHT,
+          overflowX: 'hidden',
+          overflowY: 'auto',
+        }}
+        onScroll={(e) => {
+          if (labelsRef.current) {
+            labelsRef.current.scrollTop = e.currentTarget.scrollTop;
+          }
+        }}
+      >
+        <svg width={width} height={height} style={{ display: 'block' }}>
+          {rows.map((r, i) => {
+            const top = HEADER_HEIGHT + i * ROW_HEIGHT + 3;
+            return (
+              <g key={r.assignee}>
+                <line
+                  x1={0}
+                  x2={width}
+                  y1={top + barArea}
+                  y2={top + barArea}
+                  stroke="#e2e8f0"
+                />
+                <line
+                  x1={0}
+                  x2={width}
+                  y1={top + capacityY}
+                  y2={top + capacityY}
+                  stroke="#fca5a5"
+                  strokeDasharray="3 3"
+                />
+                {r.cells.map((c) => {
+                  if (!c.peak) return null;
+                  const x1 = xOf(c.start);
+                  const x2 = xOf(c.end);
+                  if (x1 == null || x2 == null) return null;
+                  const h = (c.peak / scaleMax) * barArea;
+                  const over = c.peak > capacity;
+                  const w = Math.max(x2 - x1 - 1, 1);
+                  return (
+                    <g key={c.start}>
+                      <rect
+                        x={x1}
+                        y={top + barArea - h}
+                        width={w}
+                        height={h}
+                        rx={2}
+                        fill={over ? '#ef4444' : '#60a5fa'}
+                      >
+                        <title>
+                          {`${r.assignee} · ${c.start}: ${c.peak} concurrent task${
+                            c.peak === 1 ? '' : 's'
+                          }${over ? ' (over-allocated)' : ''}`}
+                        </title>
+                      </rect>
+                      {w >= 14 && (
+                        <text
+                          x={x1 + w / 2}
+                          y={top + barArea - h - 2}
+                          fontSize={9}
+                          textAnchor="middle"
+                          fill={over ? '#b91c1c' : '#475569'}
+                        >
+                          {c.peak}
+                        </text>
+                      )}
+                    </g>
+                  );
+                })}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    </>
+  );
+}
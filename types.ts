@@ -44,4 +44,69 @@ export interface Task {
   description?: string | null;
 
   work_type?: WorkType | null;
+
+  // milestone = จุดเวลาเดียว (start_date = end_date) วาดเป็นรูปเพชร
+  is_milestone?: boolean | null;
+
+  // ลำดับในกลุ่มพี่น้องเดียวกัน (ลากเรียงใน tree), null = ต่อท้ายตามวันเริ่ม
+  sort_order?: number | null;
+}
+
+// snapshot ของแผนงาน (start/end/progress ของทุก task ณ เวลาที่บันทึก)
+export interface Baseline {
+  id: string;
+  name: string;
+  team_id?: string | null; // ทีมของคนสร้าง (DB ใส่ให้)
+  created_at: string;
+  created_by?: string | null;
+}
+
+export interface BaselineItem {
+  baseline_id: string;
+  task_id: string;
+  start_date: string | null;
+  end_date: string | null;
+  progress: number;
+}
+
+// ประวัติการแก้ task (trigger ใน DB บันทึกทุก insert / update / delete)
+export interface TaskActivity {
+  id: number;
+  task_id: string;
+  task_name: string | null; // ชื่อ ณ ตอนนั้น (task ที่ถูกลบแล้วก็ยังแสดงได้)
+  team_id: string | null; // ทีมของ task ตอนนั้น (ใช้ตรวจสิทธิ์อ่าน)
+  action: 'create' | 'update' | 'delete';
+  changes: Record<string, { before: unknown; after: unknown }>;
+  actor_id: string | null;
+  created_at: string;
+}
+
+// comment ใน task (markdown; mentions = profile id ที่ถูก @ ถึง)
+export interface TaskComment {
+  id: string;
+  task_id: string;
+  author_id: string;
+  body: string;
+  mentions: string[];
+  created_at: string;
+  updated_at: string | null; // null = ยังไม่เคยแก้
+}
+
+// อ่าน comment ของ task ถึงไหนแล้ว (ต่อคน) ใช้นับ unread
+export interface TaskCommentRead {
+  task_id: string;
+  user_id: string;
+  last_read_at: string;
+}
+
+// ไฟล์แนบของ task (ตัวไฟล์อยู่ใน Storage bucket task-attachments ที่ path)
+export interface TaskAttachment {
+  id: string;
+  task_id: string;
+  path: string; // <task_id>/<uuid>-<ชื่อไฟล์>
+  name: string; // ชื่อไฟล์เดิมตอน upload
+  size: number;
+  mime_type: string;
+  uploaded_by: string | null;
+  created_at: string;
 }
@@ -0,0 +1,42 @@
+// utils/access.test.ts
+import { describe, expect, it } from 'vitest';
+import { canEditCalendar, canEditTeam, canSeeTeam } from './access';
+
+describe('canSeeTeam', () => {
+  it('lets admins, managers and users without a team see every team', () => {
+    expect(canSeeTeam({ role: 'admin', team_id: 't1' }, 't2')).toBe(true);
+    expect(canSeeTeam({ role: 'manager', team_id: 't1' }, 't2')).toBe(true);
+    expect(canSeeTeam({ role: 'user', team_id: null }, 't2')).toBe(true);
+  });
+
+  it('limits other users to their own team', () => {
+    const member = { role: 'user' as const, team_id: 't1' };
+    expect(canSeeTeam(member, 't1')).toBe(true);
+    expect(canSeeTeam(member, 't2')).toBe(false);
+    expect(canSeeTeam(member, null)).toBe(false);
+  });
+});
+
+describe('canEditTeam', () => {
+  it('keeps managers read-only and others to the teams they see', () => {
+    expect(canEditTeam({ role: 'manager', team_id: 't1' }, 't1')).toBe(false);
+    expect(canEditTeam({ role: 'admin', team_id: 't1' }, 't2')).toBe(true);
+    expect(canEditTeam({ role: 'user', team_id: 't1' }, 't1')).toBe(true);
+    expect(canEditTeam({ role: 'user', team_id: 't1' }, 't2')).toBe(false);
+  });
+});
+
+describe('canEditCalendar', () => {
+  it('lets only admins change the shared calendar', () => {
+    expect(canEditCalendar({ role: 'admin', team_id: 't1' }, null)).toBe(true);
+    expect(canEditCalendar({ role: 'user', team_id: null }, null)).toBe(false);
+  });
+
+  it('lets team members other than managers change their own team', () => {
+    expect(canEditCalendar({ role: 'user', team_id: 't1' }, 't1')).toBe(true);
+    expect(canEditCalendar({ role: 'user', team_id: 't1' }, 't2')).toBe(false);
+    expect(canEditCalendar({ role: 'manager', team_id: 't1' }, 't1')).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,44 @@
+// utils/access.ts
+// ใครเห็น / แก้งานของทีมไหน (กฎเดียวกับ function can_see_team / can_edit_team ใน DB — ดู Readme-Maintain)
+import type { Profile, Role } from '../types';
+
+export function roleCanSeeAll(role: Role | undefined | null) {
+  return role === 'admin' || role === 'manager';
+}
+
+/**
+ * admin / manager / คนที่ไม่มีทีม เห็นทุกทีม, นอกนั้นเห็นเฉพาะทีมตัวเอง
+ */
+export function canSeeTeam(
+  profile: Pick<Profile, 'role' | 'team_id'>,
+  teamId: string | null | undefined,
+) {
+  return (
+    roleCanSeeAll(profile.role) ||
+    !profile.team_id ||
+    teamId === profile.team_id
+  );
+}
+
+/**
+ * แก้งานของทีมได้ = เห็นทีมนั้น + ไม่ใช่ manager (manager ดูได้อย่างเดียว)
+ * กฎเดียวกับ function can_edit_team ใน DB
+ */
+export function canEditTeam(
+  profile: Pick<Profile, 'role' | 'team_id'>,
+  teamId: string | null | undefined,
+) {
+  return profile.role !== 'manager' && canSeeTeam(profile, teamId);
+}
+
+/**
+ * แก้ปฏิทินวันหยุดได้: ปฏิทินกลาง (teamId = null) = admin,
+ * ของทีม = admin หรือคนในทีมนั้นที่ไม่ใช่ manager (กฎเดียวกับ can_edit_calendar ใน DB)
+ */
+export function canEditCalendar(
+  profile: Pick<Profile, 'role' | 'team_id'>,
+  teamId: string | null,
+) {
+  if (profile.role === 'admin') return true;
+  return !!teamId && teamId === profile.team_id && profile.role !== 'manager';
+}
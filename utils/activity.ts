@@ -0,0 +1,131 @@
+// utils/activity.ts
+// แปลงประวัติการแก้ task (task_activity) เป็นข้อความอ่านง่าย
+import type { Profile, TaskActivity } from '../types';
+import type { Row } from './repository';
+
+export type ActivityChanges = TaskActivity['changes'];
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  start_date: 'Start date',
+  end_date: 'End date',
+  status: 'Status',
+  priority: 'Priority',
+  progress: 'Progress',
+  assignee: 'Assignee',
+  dependencies: 'Dependencies',
+  parent_id: 'Parent',
+  team_id: 'Team',
+  work_type: 'Work type',
+  is_milestone: 'Milestone',
+  description: 'Description',
+  is_recurring: 'Recurring',
+  recurring_type: 'Recurrence',
+  recurring_interval: 'Repeat every',
+  recurring_unit: 'Repeat unit',
+  sort_order: 'Order',
+};
+
+// field ที่ไม่ต้องบันทึก / แสดง
+const IGNORED_FIELDS = ['id', 'created_at', 'updated_at'];
+
+/**
+ * diff ระดับ field แบบเดียวกับ trigger log_task_activity ใน DB
+ * create = field ที่มีค่า, delete = ว่าง, update = เฉพาะ field ที่ค่าเปลี่ยน
+ */
+export function diffRows(
+  before: Row | null,
+  after: Row | null,
+): ActivityChanges {
+  const changes: ActivityChanges = {};
+  if (!after) return changes;
+  for (const [key, value] of Object.entries(after)) {
+    if (IGNORED_FIELDS.includes(key)) continue;
+    const old = before ? before[key] ?? null : null;
+    const next = value ?? null;
+    if (!before && next == null) continue;
+    if (JSON.stringify(old) !== JSON.stringify(next)) {
+      changes[key] = { before: old, after: next };
+    }
+  }
+  return changes;
+}
+
+export const fieldLabel = (field: string) => FIELD_LABELS[field] || field;
+
+/**
+ * ค่าเป็นข้อความสั้น ๆ; names = id → ชื่อ (task / team) ไว้แปลง parent_id, dependencies
+ */
+export function formatActivityValue(
+  field: string,
+  value: unknown,
+  names: Record<string, string> = {},
+): string {
+  if (value == null || value === '') return '—';
+  if (field === 'parent_id' || field === 'team_id') {
+    return names[String(value)] || String(value);
+  }
+  if (field === 'dependencies') {
+    return String(value)
+      .split(',')
+      .map((d) => d.trim())
+      .filter(Boolean)
+      .map((d) => names[d] || d)
+      .join(', ');
+  }
+  if (field === 'progress') return `${value}%`;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  const text = String(value);
+  return text.length > 60 ? text.slice(0, 57) + '…' : text;
+}
+
+export function activityVerb(action: TaskActivity['action']): string {
+  if (action === 'create') return 'created';
+  if (action === 'delete') return 'deleted';
+  return 'updated';
+}
+
+// field ที่แสดงใน timeline (เรียงตาม FIELD_LABELS, description ไม่โชว์ข้อความเต็ม)
+export function activityLines(
+  entry: TaskActivity,
+  names: Record<string, string> = {},
+): { field: string; label: string; before: string; after: string }[] {
+  const order = Object.keys(FIELD_LABELS);
+  const rank = (f: string) =>
+    order.includes(f) ? order.indexOf(f) : order.length;
+  return Object.entries(entry.changes || {})
+    .filter(([field]) => !IGNORED_FIELDS.includes(field))
+    // create: ชื่ออยู่ในหัวข้อแล้ว และไม่ต้องโชว์ field ที่ว่าง
+    .filter(
+      ([field, { after }]) =>
+        entry.action !== 'create' ||
+        (field !== 'name' && after != null && after !== ''),
+    )
+    .sort(([a], [b]) => rank(a) - rank(b))
+    .map(([field, { before, after }]) => {
+      // description ยาว แสดงแค่ว่ามีการแก้
+      if (field === 'description') {
+        return {
+          field,
+          label: fieldLabel(field),
+          before: before ? '(text)' : '—',
+          after: after ? '(edited)' : '—',
+        };
+      }
+      return {
+        field,
+        label: fieldLabel(field),
+        before: formatActivityValue(field, before, names),
+        after: formatActivityValue(field, after, names),
+      };
+    });
+}
+
+export function actorName(
+  actorId: string | null,
+  users: Profile[],
+): string {
+  if (!actorId) return 'System';
+  const user = users.find((u) => u.id === actorId);
+  return user ? user.display_name || user.email : 'Unknown user';
+}
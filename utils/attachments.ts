@@ -0,0 +1,105 @@
+// utils/attachments.ts
+// ไฟล์แนบของ task: ตรวจขนาด / ชนิดไฟล์ก่อน upload + helper สำหรับแสดงผล
+import type { TaskAttachment } from '../types';
+
+export const ATTACHMENT_BUCKET = 'task-attachments';
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_TASK = 30;
+// signed URL หมดอายุ (วินาที) — bucket เป็น private
+export const ATTACHMENT_URL_TTL = 60 * 60;
+
+// extension → MIME (browser บางตัวส่ง file.type ว่างมา เลยดูจาก extension ด้วย)
+const ALLOWED_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  zip: 'application/zip',
+};
+
+// ใช้เป็น accept ของ <input type="file">
+export const ATTACHMENT_ACCEPT = Object.keys(ALLOWED_TYPES)
+  .map((ext) => '.' + ext)
+  .join(',');
+
+const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot >= 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+// MIME ที่จะเก็บ (อิงจาก extension ถ้าอยู่ในรายการที่อนุญาต)
+export const attachmentMimeType = (name: string, type?: string) =>
+  ALLOWED_TYPES[extensionOf(name)] || type || 'application/octet-stream';
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${Number((bytes / (1024 * 1024)).toFixed(1))} MB`;
+}
+
+/**
+ * คืนข้อความ error ถ้าไฟล์ใช้ไม่ได้ (null = ผ่าน)
+ */
+export function checkAttachment(file: {
+  name: string;
+  size: number;
+}): string | null {
+  if (!ALLOWED_TYPES[extensionOf(file.name)]) {
+    return `"${file.name}" is not a supported file type.`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `"${file.name}" is ${formatBytes(file.size)} (max ${formatBytes(
+      MAX_ATTACHMENT_BYTES,
+    )}).`;
+  }
+  if (file.size === 0) return `"${file.name}" is empty.`;
+  return null;
+}
+
+// ชื่อไฟล์ใน storage path: ตัดอักขระที่ใช้ใน key ไม่ได้ (ชื่อเดิมเก็บไว้ใน table)
+export function safeFileName(name: string): string {
+  const ext = extensionOf(name);
+  const base = name
+    .slice(0, ext ? name.length - ext.length - 1 : name.length)
+    .replace(/[^a-zA-Z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return (base || 'file') + (ext ? '.' + ext : '');
+}
+
+export const isImageAttachment = (a: Pick<TaskAttachment, 'mime_type'>) =>
+  a.mime_type.startsWith('image/');
+
+// ดูใน browser ได้เลย (ที่เหลือต้องดาวน์โหลด)
+export const canPreviewAttachment = (
+  a: Pick<TaskAttachment, 'mime_type'>,
+) =>
+  isImageAttachment(a) ||
+  a.mime_type === 'application/pdf' ||
+  a.mime_type === 'text/plain';
+
+export function attachmentIcon(a: Pick<TaskAttachment, 'mime_type'>): string {
+  if (isImageAttachment(a)) return '🖼';
+  if (a.mime_type === 'application/pdf') return '📕';
+  if (a.mime_type.includes('spreadsheet') || a.mime_type.includes('excel')) {
+    return '📊';
+  }
+  if (
+    a.mime_type.includes('presentation') ||
+    a.mime_type.includes('powerpoint')
+  ) {
+    return '📽';
+  }
+  if (a.mime_type === 'application/zip') return '🗜';
+  return '📄';
+}
@@ -0,0 +1,97 @@
+// utils/comments.ts
+// @mention + นับ comment ที่ยังไม่อ่าน
+import type { Profile, TaskComment, TaskCommentRead } from '../types';
+
+export const COMMENT_MAX_LENGTH = 5000;
+
+/**
+ * handle ที่ใช้ @ ถึง = ส่วนหน้า @ ของ email (somchai.k@chula.ac.th → somchai.k)
+ * ไม่ใช้ display_name เพราะมีช่องว่าง / ซ้ำกันได้
+ */
+export const mentionHandle = (profile: Profile) =>
+  (profile.email || '').split('@')[0].toLowerCase();
+
+export interface MentionMatch {
+  start: number; // ตำแหน่ง '@'
+  end: number;
+  handle: string;
+}
+
+// @ ต้องอยู่ต้นข้อความหรือหลังช่องว่าง / เครื่องหมาย (ไม่นับ email ในข้อความ)
+const MENTION_RE = /(^|[^a-zA-Z0-9._-])@([a-zA-Z0-9._-]+)/g;
+
+export function findMentions(text: string): MentionMatch[] {
+  const result: MentionMatch[] = [];
+  for (const m of Array.from(text.matchAll(MENTION_RE))) {
+    // จุด / ขีดท้ายคำเป็นเครื่องหมายวรรคตอน ไม่ใช่ส่วนของ handle
+    const handle = m[2].replace(/[._-]+$/, '');
+    if (!handle) continue;
+    const start = m.index! + m[1].length;
+    result.push({ start, end: start + 1 + handle.length, handle });
+  }
+  return result;
+}
+
+// profile ที่ถูก mention (ไม่ซ้ำ, handle ที่ไม่มีคนใช้ถูกข้าม)
+export function resolveMentions(text: string, users: Profile[]): Profile[] {
+  const byHandle: Record<string, Profile> = {};
+  users.forEach((u) => (byHandle[mentionHandle(u)] = u));
+  const found: Profile[] = [];
+  for (const m of findMentions(text)) {
+    const user = byHandle[m.handle.toLowerCase()];
+    if (user && !found.includes(user)) found.push(user);
+  }
+  return found;
+}
+
+// ตัวเลือกตอนพิมพ์ @... (ตรงกับ handle หรือชื่อ)
+export function mentionSuggestions(
+  query: string,
+  users: Profile[],
+  limit = 6,
+): Profile[] {
+  const q = query.toLowerCase();
+  return users
+    .filter(
+      (u) =>
+        mentionHandle(u).startsWith(q) ||
+        (u.display_name || '').toLowerCase().includes(q),
+    )
+    .slice(0, limit);
+}
+
+export interface UnreadInfo {
+  count: number;
+  mentioned: boolean; // มี comment ที่ยังไม่อ่านที่ @ ถึงเรา
+}
+
+/**
+ * นับ comment ที่ยังไม่อ่านต่อ task (comment ของตัวเองไม่นับ)
+ * task ที่ไม่เคยเปิดอ่าน = ทุก comment ยังไม่อ่าน
+ * กฎเดียวกับ RPC comment_unread_counts (ใช้ใน memory backend)
+ */
+export function countUnread(
+  comments: Pick<
+    TaskComment,
+    'task_id' | 'author_id' | 'mentions' | 'created_at'
+  >[],
+  reads: TaskCommentRead[],
+  userId: string,
+): Record<string, UnreadInfo> {
+  const lastRead: Record<string, string> = {};
+  reads.forEach((r) => (lastRead[r.task_id] = r.last_read_at));
+
+  const result: Record<string, UnreadInfo> = {};
+  for (const c of comments) {
+    if (c.author_id === userId) continue;
+    const seen = lastRead[c.task_id];
+    if (seen && Date.parse(c.created_at) <= Date.parse(seen)) continue;
+    const info = (result[c.task_id] = result[c.task_id] || {
+      count: 0,
+      mentioned: false,
+    });
+    info.count++;
+    if ((c.mentions || []).includes(userId)) info.mentioned = true;
+  }
+  return result;
+}
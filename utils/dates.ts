@@ -0,0 +1,49 @@
+// utils/dates.ts
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// แปลง 'YYYY-MM-DD' → จำนวนวันนับจาก epoch (UTC) กัน timezone เพี้ยน
+export function toDayNumber(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const [y, m, d] = value.slice(0, 10).split('-').map(Number);
+  if (!y || !m || !d) return null;
+  return Math.round(Date.UTC(y, m - 1, d) / DAY_MS);
+}
+
+export function fromDayNumber(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Date → 'YYYY-MM-DD' ตาม local time
+export function formatInputDate(d: Date) {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+/**
+ * bar ที่ถูกตัดให้อยู่ใน view range แสดงวันที่ไม่ตรงกับของจริง
+ * แปลงผลการลาก (shown → dragged) กลับเป็นวันที่จริง:
+ *  - ย้ายทั้ง bar = เลื่อนวันจริงเท่ากัน
+ *  - ยืด/หดด้านเดียว = ด้านที่ไม่ได้ลากคงค่าจริงไว้ (ไม่ใช้ขอบ range)
+ */
+export function resolveBarDrag(
+  real: { start: string; end: string },
+  shown: { start: string; end: string },
+  dragged: { start: string; end: string },
+): { start: string; end: string } {
+  const startDelta = toDayNumber(dragged.start)! - toDayNumber(shown.start)!;
+  const endDelta = toDayNumber(dragged.end)! - toDayNumber(shown.end)!;
+
+  if (startDelta === endDelta) {
+    return {
+      start: fromDayNumber(toDayNumber(real.start)! + startDelta),
+      end: fromDayNumber(toDayNumber(real.end)! + endDelta),
+    };
+  }
+  return {
+    start: startDelta ? dragged.start : real.start,
+    end: endDelta ? dragged.end : real.end,
+  };
+}
@@ -0,0 +1,241 @@
+// utils/ganttExport.ts
+// สร้าง SVG แบบ standalone จาก Gantt ที่ render อยู่ แล้วส่งออกเป็น SVG / PNG / หน้าพิมพ์ (PDF)
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+export interface ExportRow {
+  label: string;
+  depth: number;
+  kind: 'group' | 'task';
+}
+
+export interface ExportLegendItem {
+  label: string;
+  color: string;
+}
+
+export interface GanttExportOptions {
+  svg: SVGSVGElement; // svg ของ frappe-gantt
+  rows: ExportRow[]; // ลำดับเดียวกับ row ใน Gantt
+  title: string;
+  subtitle: string; // เช่น view mode + ช่วงวันที่
+  legend: ExportLegendItem[];
+  headerHeight: number;
+  rowHeight: number;
+  firstRowY: number;
+  cropX?: [number, number]; // ตัดเฉพาะช่วงวันที่ที่เลือก (พิกัด x ใน svg)
+}
+
+export interface GanttExport {
+  markup: string;
+  width: number;
+  height: number;
+  // ใช้แบ่งหน้าตอนพิมพ์
+  bodyTop: number;
+  headerHeight: number;
+  rowHeight: number;
+  rowCount: number;
+}
+
+const TREE_WIDTH = 260;
+const TITLE_HEIGHT = 64;
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// ดึง CSS ของ .gantt จาก stylesheet ที่โหลดอยู่ (frappe-gantt + globals.css)
+function collectGanttCss(): string {
+  const rules: string[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    let cssRules: CSSRuleList;
+    try {
+      cssRules = sheet.cssRules;
+    } catch {
+      continue; // stylesheet ข้าม origin อ่านไม่ได้
+    }
+    for (const rule of Array.from(cssRules)) {
+      if (rule.cssText.includes('.gantt') || rule.cssText.includes('.bar')) {
+        rules.push(rule.cssText);
+      }
+    }
+  }
+  return rules.join('\n');
+}
+
+export function buildGanttExport(opts: GanttExportOptions): GanttExport {
+  const source = opts.svg;
+  const fullWidth = parseFloat(source.getAttribute('width') || '0') ||
+    source.getBoundingClientRect().width;
+  const chartHeight = parseFloat(source.getAttribute('height') || '0') ||
+    source.getBoundingClientRect().height;
+
+  const [cropStart, cropEnd] = opts.cropX ?? [0, fullWidth];
+  const chartWidth = Math.max(cropEnd - cropStart, 1);
+
+  const width = TREE_WIDTH + chartWidth;
+  const height = TITLE_HEIGHT + chartHeight;
+
+  // ---- tree labels ด้านซ้าย ----
+  const treeLabels = opts.rows
+    .map((row, i) => {
+      const y =
+        TITLE_HEIGHT + opts.firstRowY + i * opts.rowHeight + opts.rowHeight / 2;
+      const weight = row.kind === 'task' ? 400 : 600;
+      const color =
+        row.kind === 'group' && row.depth === 0 ? '#0f172a' : '#334155';
+      return `<text x="${12 + row.depth * 16}" y="${y}" dominant-baseline="middle" font-size="12" font-weight="${weight}" fill="${color}">${escapeXml(row.label)}</text>`;
+    })
+    .join('');
+
+  // ---- legend มุมขวาบน ----
+  let legendX = width - 12;
+  const legend = [...opts.legend]
+    .reverse()
+    .map((item) => {
+      const textWidth = item.label.length * 6.5;
+      legendX -= textWidth + 22;
+      return `<rect x="${legendX}" y="14" width="12" height="12" rx="3" fill="${item.color}" /><text x="${legendX + 16}" y="24" font-size="11" fill="#64748b">${escapeXml(item.label)}</text>`;
+    })
+    .join('');
+
+  const stamp = `Exported ${new Date().toLocaleString('en-GB')}`;
+
+  const chartMarkup = new XMLSerializer().serializeToString(source);
+
+  const markup = `<svg xmlns="${SVG_NS}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="system-ui, -apple-system, 'Segoe UI', sans-serif">
+<style>${collectGanttCss()}</style>
+<rect width="${width}" height="${height}" fill="#ffffff" />
+<text x="12" y="24" font-size="16" font-weight="600" fill="#0f172a">${escapeXml(opts.title)}</text>
+<text x="12" y="44" font-size="11" fill="#64748b">${escapeXml(opts.subtitle)} · ${escapeXml(stamp)}</text>
+${legend}
+<rect x="0" y="${TITLE_HEIGHT}" width="${TREE_WIDTH}" height="${chartHeight}" fill="#f8fafc" />
+${treeLabels}
+<svg x="${TREE_WIDTH}" y="${TITLE_HEIGHT}" width="${chartWidth}" height="${chartHeight}" viewBox="${cropStart} 0 ${chartWidth} ${chartHeight}">${chartMarkup}</svg>
+</svg>`;
+
+  return {
+    markup,
+    width,
+    height,
+    bodyTop: TITLE_HEIGHT + opts.firstRowY,
+    headerHeight: TITLE_HEIGHT + opts.headerHeight,
+    rowHeight: opts.rowHeight,
+    rowCount: opts.rows.length,
+  };
+}
+
+function triggerDownload(url: string, filename: string) {
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+}
+
+export function downloadSvg(exp: GanttExport, filename: string) {
+  const blob = new Blob([exp.markup], { type: 'image/svg+xml;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  triggerDownload(url, filename);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadPng(
+  exp: GanttExport,
+  filename: string,
+  scale = 2,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const blob = new Blob([exp.markup], {
+      type: 'image/svg+xml;charset=utf-8',
+    });
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = exp.width * scale;
+      canvas.height = exp.height * scale;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not supported.'));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(img, 0, 0);
+      URL.revokeObjectURL(url);
+
+      canvas.toBlob((png) => {
+        if (!png) {
+          reject(new Error('Cannot encode PNG.'));
+          return;
+        }
+        const pngUrl = URL.createObjectURL(png);
+        triggerDownload(pngUrl, filename);
+        setTimeout(() => URL.revokeObjectURL(pngUrl), 1000);
+        resolve();
+      }, 'image/png');
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Cannot render SVG to image.'));
+    };
+    img.src = url;
+  });
+}
+
+/**
+ * เปิดหน้าต่างพิมพ์ (A4 แนวนอน) แบ่งหน้าตามจำนวน row
+ * ทุกหน้ามีหัว title / legend / วันที่ export และ header วันที่ของ Gantt
+ * ผู้ใช้เลือก "Save as PDF" จาก dialog พิมพ์ของ browser ได้เลย
+ */
+export function openPrintLayout(exp: GanttExport, title: string, rowsPerPage = 14) {
+  const win = window.open('', '_blank');
+  if (!win) {
+    throw new Error('Pop-up blocked. Please allow pop-ups to print.');
+  }
+
+  const pageCount = Math.max(Math.ceil(exp.rowCount / rowsPerPage), 1);
+  const pages: string[] = [];
+
+  for (let p = 0; p < pageCount; p++) {
+    const sliceTop = exp.bodyTop + p * rowsPerPage * exp.rowHeight;
+    const sliceHeight = Math.min(
+      rowsPerPage * exp.rowHeight,
+      exp.height - sliceTop,
+    );
+
+    pages.push(`
+      <section class="page">
+        <svg viewBox="0 0 ${exp.width} ${exp.headerHeight}" width="100%">${exp.markup}</svg>
+        <svg viewBox="0 ${sliceTop} ${exp.width} ${sliceHeight}" width="100%">${exp.markup}</svg>
+        <div class="page-no">${p + 1} / ${pageCount}</div>
+      </section>`);
+  }
+
+  win.document.write(`<!doctype html>
+<html>
+<head>
+<title>${escapeXml(title)}</title>
+<style>
+  @page { size: A4 landscape; margin: 10mm; }
+  body { margin: 0; font-family: system-ui, sans-serif; }
+  .page { page-break-after: always; position: relative; }
+  .page:last-child { page-break-after: auto; }
+  .page svg { display: block; }
+  .page-no { position: absolute; right: 0; bottom: -16px; font-size: 10px; color: #64748b; }
+</style>
+</head>
+<body>${pages.join('')}</body>
+</html>`);
+  win.document.close();
+  win.focus();
+  // รอให้ layout เสร็จก่อนเปิด dialog พิมพ์
+  setTimeout(() => win.print(), 500);
+}
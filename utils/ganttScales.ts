@@ -0,0 +1,135 @@
+// utils/ganttScales.ts
+// scale ระยะยาว (Quarter / Half-year / Year) ที่ frappe-gantt ไม่มี + label ตามปีงบประมาณ
+
+export type LongScale = 'Quarter' | 'Half-year' | 'Year';
+
+// ปีงบประมาณราชการไทยเริ่ม 1 ต.ค. (FY2027 = ต.ค. 2026 - ก.ย. 2027)
+export const FISCAL_YEAR_START_MONTH = 9; // 0 = January
+
+// ทุก scale ระยะยาวใช้ 1 column = 1 วัน ต่างกันที่ความกว้างต่อวัน (px)
+export const LONG_SCALES: Record<LongScale, { dayWidth: number; months: number }> = {
+  Quarter: { dayWidth: 4, months: 3 },
+  'Half-year': { dayWidth: 2, months: 6 },
+  Year: { dayWidth: 1, months: 12 },
+};
+
+export const ZOOM_MIN = 0.25;
+export const ZOOM_MAX = 4;
+
+export function clampZoom(value: number): number {
+  return Math.min(Math.max(value, ZOOM_MIN), ZOOM_MAX);
+}
+
+export function isLongScale(mode: string): mode is LongScale {
+  return Object.prototype.hasOwnProperty.call(LONG_SCALES, mode);
+}
+
+export function fiscalInfo(d: Date): {
+  year: number;
+  quarter: number;
+  half: number;
+} {
+  const offset = (d.getMonth() - FISCAL_YEAR_START_MONTH + 12) % 12;
+  const year =
+    d.getFullYear() +
+    (FISCAL_YEAR_START_MONTH > 0 && d.getMonth() >= FISCAL_YEAR_START_MONTH
+      ? 1
+      : 0);
+  return {
+    year,
+    quarter: Math.floor(offset / 3) + 1,
+    half: Math.floor(offset / 6) + 1,
+  };
+}
+
+// เดือนแรกของช่วง (ไตรมาส / ครึ่งปี / ปีงบ) ที่ d อยู่
+function startOfPeriod(d: Date, months: number): Date {
+  const offset = (d.getMonth() - FISCAL_YEAR_START_MONTH + 12) % 12;
+  return new Date(d.getFullYear(), d.getMonth() - (offset % months), 1);
+}
+
+/**
+ * ปัดช่วงวันที่ของ Gantt ให้เต็มช่วง (ไตรมาส / ครึ่งปี / ปีงบ)
+ * และเผื่อท้ายอีก 1 ช่วง ให้ลาก bar ออกไปได้
+ */
+export function padLongScaleRange(
+  mode: LongScale,
+  start: Date,
+  end: Date,
+): { start: Date; end: Date } {
+  const { months } = LONG_SCALES[mode];
+  const paddedStart = startOfPeriod(start, months);
+  const endPeriod = startOfPeriod(end, months);
+  const paddedEnd = new Date(
+    endPeriod.getFullYear(),
+    endPeriod.getMonth() + months * 2,
+    1,
+  );
+  return { start: paddedStart, end: paddedEnd };
+}
+
+export interface ScaleTick {
+  x: number;
+  width: number;
+  label: string;
+  row: 'upper' | 'lower';
+  thick: boolean; // เส้นแบ่งไตรมาส
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * tick + label ของ header สำหรับ scale ระยะยาว
+ *  - Quarter:   upper = "Q1 FY2027", lower = เดือน
+ *  - Half-year: upper = "H1 FY2027", lower = เดือน
+ *  - Year:      upper = "FY2027",    lower = "Q1".."Q4"
+ */
+export function buildLongScaleTicks(
+  mode: LongScale,
+  start: Date,
+  end: Date,
+  dayWidth: number,
+): ScaleTick[] {
+  const xOf = (d: Date) =>
+    Math.round((d.getTime() - start.getTime()) / DAY_MS) * dayWidth;
+
+  const ticks: ScaleTick[] = [];
+  const upperMonths = LONG_SCALES[mode].months;
+  const lowerMonths = mode === 'Year' ? 3 : 1;
+
+  const push = (row: 'upper' | 'lower', months: number) => {
+    let cur = startOfPeriod(start, months);
+    while (cur < end) {
+      const next = new Date(cur.getFullYear(), cur.getMonth() + months, 1);
+      const fy = fiscalInfo(cur);
+
+      let label: string;
+      if (row === 'lower') {
+        label =
+          mode === 'Year'
+            ? `Q${fy.quarter}`
+            : cur.toLocaleString('en-GB', { month: 'short' });
+      } else if (mode === 'Quarter') {
+        label = `Q${fy.quarter} FY${fy.year}`;
+      } else if (mode === 'Half-year') {
+        label = `H${fy.half} FY${fy.year}`;
+      } else {
+        label = `FY${fy.year}`;
+      }
+
+      const x = Math.max(xOf(cur), 0);
+      ticks.push({
+        x,
+        width: xOf(next) - x,
+        label,
+        row,
+        thick: startOfPeriod(cur, 3).getTime() === cur.getTime(),
+      });
+      cur = next;
+    }
+  };
+
+  push('upper', upperMonths);
+  push('lower', lowerMonths);
+  return ticks;
+}
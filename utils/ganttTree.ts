@@ -0,0 +1,409 @@
+// utils/ganttTree.ts
+// สร้าง row ของ tree ซ้าย + Gantt ขวา ตาม grouping ที่ผู้ใช้เลือก
+import type { Task, Team } from '../types';
+
+// mapping ประเภทงาน (work_type) → label ภาษาไทย
+export const WORK_TYPES: { value: string; label: string }[] = [
+  { value: 'routine', label: 'งานประจำ' },
+  { value: 'strategic', label: 'งานยุทธศาสตร์' },
+  { value: 'process_improvement', label: 'งานพัฒนากระบวนการ' },
+  { value: 'self_development', label: 'งานพัฒนาตนเอง' },
+  { value: 'other', label: 'งานอื่นๆ' },
+];
+
+export function normalizeWorkType(raw: string | null | undefined): string {
+  const v = raw || 'routine';
+  if (WORK_TYPES.some((w) => w.value === v)) return v;
+  return 'other';
+}
+
+// -------- Grouping --------
+
+export type GroupLevel = 'team' | 'assignee' | 'work_type' | 'status' | 'priority';
+
+export const GROUP_LEVELS: { value: GroupLevel; label: string }[] = [
+  { value: 'team', label: 'Team' },
+  { value: 'assignee', label: 'Assignee' },
+  { value: 'work_type', label: 'Work type' },
+  { value: 'status', label: 'Status' },
+  { value: 'priority', label: 'Priority' },
+];
+
+export interface Grouping {
+  levels: GroupLevel[]; // ลำดับชั้นของ group (ว่าง = ไม่มี group)
+  nestSubtasks: boolean; // true = subtask อยู่ใต้ parent (parent chain)
+}
+
+export const DEFAULT_GROUPING: Grouping = {
+  levels: ['assignee', 'work_type'],
+  nestSubtasks: true,
+};
+
+export const GROUPING_PRESETS: { label: string; grouping: Grouping }[] = [
+  { label: 'Assignee › Work type', grouping: DEFAULT_GROUPING },
+  {
+    label: 'Team › Assignee',
+    grouping: { levels: ['team', 'assignee'], nestSubtasks: true },
+  },
+  {
+    label: 'Work type › Team',
+    grouping: { levels: ['work_type', 'team'], nestSubtasks: true },
+  },
+  { label: 'Parent chain', grouping: { levels: [], nestSubtasks: true } },
+  { label: 'Flat list', grouping: { levels: [], nestSubtasks: false } },
+];
+
+// key ใช้จำ collapse state แยกตาม grouping
+export function groupingKey(g: Grouping): string {
+  return `${g.levels.join('>') || 'none'}|${g.nestSubtasks ? 'tree' : 'flat'}`;
+}
+
+export function parseGrouping(raw: string | null): Grouping {
+  if (!raw) return DEFAULT_GROUPING;
+  try {
+    const value = JSON.parse(raw);
+    const valid = GROUP_LEVELS.map((l) => l.value);
+    const levels = Array.isArray(value?.levels)
+      ? (value.levels as unknown[]).filter(
+          (l, i, arr): l is GroupLevel =>
+            valid.includes(l as GroupLevel) && arr.indexOf(l) === i,
+        )
+      : DEFAULT_GROUPING.levels;
+    return { levels, nestSubtasks: value?.nestSubtasks !== false };
+  } catch {
+    return DEFAULT_GROUPING;
+  }
+}
+
+// -------- Tree row model --------
+
+export type TreeRow =
+  | {
+      kind: 'group';
+      id: string; // e.g. "grp:team=abcd/assignee=somchai"
+      depth: number;
+      label: string;
+      level: GroupLevel;
+      value: string; // ค่าของ level นี้ เช่น assignee / team_id
+    }
+  | {
+      kind: 'task';
+      id: string; // task.id
+      depth: number;
+      label: string;
+      task: Task;
+    };
+
+const STATUS_ORDER = [
+  'To Do',
+  'In Progress',
+  'Blocked',
+  'In problem Need Help',
+  'Done',
+];
+const PRIORITY_ORDER = ['High', 'Medium', 'Low'];
+
+const NONE = '__none__';
+
+// ลำดับพี่น้อง: ที่มี sort_order มาก่อน (น้อย → มาก) ที่เหลือคงลำดับเดิม (ตาม start_date)
+export function sortSiblings(list: Task[]): Task[] {
+  return list
+    .map((t, i) => ({ t, i }))
+    .sort((a, b) => {
+      const sa = a.t.sort_order;
+      const sb = b.t.sort_order;
+      if (sa == null || sb == null) {
+        if (sa == null && sb == null) return a.i - b.i;
+        return sa == null ? 1 : -1;
+      }
+      return sa - sb || a.i - b.i;
+    })
+    .map((x) => x.t);
+}
+
+function groupValue(t: Task, level: GroupLevel): string {
+  switch (level) {
+    case 'team':
+      return t.team_id || NONE;
+    case 'assignee':
+      return t.assignee || NONE;
+    case 'work_type':
+      return normalizeWorkType(t.work_type);
+    case 'status':
+      return t.status || NONE;
+    case 'priority':
+      return t.priority || NONE;
+  }
+}
+
+function groupLabel(
+  level: GroupLevel,
+  value: string,
+  teams: Team[],
+): string {
+  if (value === NONE) {
+    return level === 'assignee'
+      ? 'Unassigned'
+      : level === 'team'
+        ? 'No team'
+        : 'None';
+  }
+  if (level === 'team') {
+    return teams.find((tm) => tm.id === value)?.name || value;
+  }
+  if (level === 'work_type') {
+    return WORK_TYPES.find((w) => w.value === value)?.label || value;
+  }
+  return value;
+}
+
+// ลำดับ group: work type / status / priority ตามลำดับที่กำหนด, ที่เหลือตามตัวอักษร
+function sortGroupValues(
+  level: GroupLevel,
+  values: string[],
+  teams: Team[],
+): string[] {
+  const fixed =
+    level === 'work_type'
+      ? WORK_TYPES.map((w) => w.value)
+      : level === 'status'
+        ? STATUS_ORDER
+        : level === 'priority'
+          ? PRIORITY_ORDER
+          : null;
+
+  return [...values].sort((a, b) => {
+    if (a === NONE || b === NONE) return a === NONE ? 1 : -1;
+    if (fixed) return fixed.indexOf(a) - fixed.indexOf(b);
+    return groupLabel(level, a, teams).localeCompare(
+      groupLabel(level, b, teams),
+    );
+  });
+}
+
+/**
+ * สร้าง rows ตามลำดับที่ tree และ Gantt แสดง (1 row ต่อ 1 bar)
+ * group ที่ collapse จะไม่มี row ลูก; subtask ที่ parent อยู่คนละ group
+ * จะแสดงเป็น root ของ group ตัวเอง
+ */
+export function buildTreeRows(
+  tasks: Task[],
+  grouping: Grouping,
+  collapsed: Set<string>,
+  teams: Team[] = [],
+): TreeRow[] {
+  const rows: TreeRow[] = [];
+
+  const pushTasks = (list: Task[], depth: number) => {
+    if (!grouping.nestSubtasks) {
+      for (const t of sortSiblings(list)) {
+        rows.push({ kind: 'task', id: t.id, depth, label: t.name, task: t });
+      }
+      return;
+    }
+
+    const inGroup = new Set(list.map((t) => t.id));
+    const childrenByParent: Record<string, Task[]> = {};
+    for (const t of list) {
+      const key =
+        t.parent_id && t.parent_id !== t.id && inGroup.has(t.parent_id)
+          ? t.parent_id
+          : 'root';
+      (childrenByParent[key] = childrenByParent[key] || []).push(t);
+    }
+
+    const walk = (parentId: string, d: number, seen: Set<string>) => {
+      for (const t of sortSiblings(childrenByParent[parentId] || [])) {
+        if (seen.has(t.id)) continue; // กัน parent_id วนเป็น cycle
+        rows.push({ kind: 'task', id: t.id, depth: d, label: t.name, task: t });
+        if (!collapsed.has(t.id)) {
+          walk(t.id, d + 1, new Set(seen).add(t.id));
+        }
+      }
+    };
+    walk('root', depth, new Set());
+  };
+
+  const walkGroups = (list: Task[], levelIndex: number, path: string) => {
+    if (levelIndex >= grouping.levels.length) {
+      pushTasks(list, levelIndex);
+      return;
+    }
+
+    const level = grouping.levels[levelIndex];
+    const buckets: Record<string, Task[]> = {};
+    for (const t of list) {
+      const v = groupValue(t, level);
+      (buckets[v] = buckets[v] || []).push(t);
+    }
+
+    for (const value of sortGroupValues(level, Object.keys(buckets), teams)) {
+      const id = `${path}/${level}=${value}`;
+      rows.push({
+        kind: 'group',
+        id,
+        depth: levelIndex,
+        label: groupLabel(level, value, teams),
+        level,
+        value,
+      });
+      if (!collapsed.has(id)) {
+        walkGroups(buckets[value], levelIndex + 1, id);
+      }
+    }
+  };
+
+  walkGroups(tasks, 0, 'grp:');
+  return rows;
+}
+
+// -------- Drag & drop ใน tree --------
+
+export type DropPosition = 'before' | 'after' | 'inside';
+
+export interface TreeDropUpdate {
+  id: string;
+  patch: Partial<Task>;
+}
+
+// ค่าของ group แต่ละชั้น → field ของ task
+function groupPatch(level: GroupLevel, value: string): Partial<Task> {
+  const v = value === NONE ? null : value;
+  switch (level) {
+    case 'team':
+      return { team_id: v };
+    case 'assignee':
+      return { assignee: v };
+    case 'work_type':
+      return { work_type: v as Task['work_type'] };
+    case 'status':
+      if (!v) return {};
+      // เหมือน TaskModal: Done = 100%, To Do = 0%
+      if (v === 'Done') return { status: v, progress: 100 };
+      if (v === 'To Do') return { status: v as Task['status'], progress: 0 };
+      return { status: v as Task['status'] };
+    case 'priority':
+      return v ? { priority: v as Task['priority'] } : {};
+  }
+}
+
+// group row ทุกชั้นที่ครอบ row ที่ index (รวมตัวเองถ้าเป็น group)
+function enclosingGroups(rows: TreeRow[], index: number) {
+  const groups: Extract<TreeRow, { kind: 'group' }>[] = [];
+  let depth = rows[index].depth + 1;
+  for (let i = index; i >= 0 && depth > 0; i--) {
+    const r = rows[i];
+    if (r.depth < depth) {
+      if (r.kind === 'group') groups.unshift(r);
+      depth = r.depth;
+    }
+  }
+  return groups;
+}
+
+// task ที่แสดงเป็นพี่น้องของ row ที่ index (ระดับเดียวกัน ใต้ row แม่เดียวกัน)
+function displayedSiblings(rows: TreeRow[], index: number): Task[] {
+  const depth = rows[index].depth;
+  let first = index;
+  while (first > 0 && rows[first - 1].depth >= depth) first--;
+  const result: Task[] = [];
+  for (let i = first; i < rows.length && rows[i].depth >= depth; i++) {
+    const r = rows[i];
+    if (r.depth === depth && r.kind === 'task') result.push(r.task);
+  }
+  return result;
+}
+
+/**
+ * แปลงการลาก row ใน tree เป็น update ของ tasks
+ *  - inside task  = เปลี่ยน parent_id (ต่อท้ายลูกเดิม)
+ *  - inside group = เปลี่ยน field ตาม group (assignee / work_type / ...)
+ *  - before/after = เรียงลำดับใหม่ในกลุ่มพี่น้องเดียวกับ target (ย้าย parent/group ตามด้วย)
+ * คืน string = error (เช่น ทำให้ parent วนเป็น cycle)
+ */
+export function planTreeDrop(
+  tasks: Task[],
+  rows: TreeRow[],
+  draggedId: string,
+  targetRowId: string,
+  position: DropPosition,
+  grouping: Grouping,
+): TreeDropUpdate[] | string {
+  const byId: Record<string, Task> = {};
+  tasks.forEach((t) => (byId[t.id] = t));
+
+  const dragged = byId[draggedId];
+  const targetIndex = rows.findIndex((r) => r.id === targetRowId);
+  if (!dragged || targetIndex < 0 || targetRowId === draggedId) return [];
+  const target = rows[targetIndex];
+
+  const patches: Record<string, Partial<Task>> = {};
+  const setPatch = (id: string, patch: Partial<Task>) => {
+    patches[id] = { ...patches[id], ...patch };
+  };
+
+  // ---- parent ใหม่ + cycle check ----
+  let newParent: string | null | undefined; // undefined = ไม่เปลี่ยน
+  if (target.kind === 'task') {
+    if (position === 'inside') newParent = target.id;
+    else if (grouping.nestSubtasks) newParent = target.task.parent_id ?? null;
+  }
+
+  if (newParent !== undefined) {
+    const seen = new Set<string>();
+    for (let p = newParent; p && !seen.has(p); p = byId[p]?.parent_id ?? null) {
+      if (p === draggedId) {
+        return `Cannot move "${dragged.name}" under its own subtask "${
+          byId[newParent!]?.name ?? newParent
+        }".`;
+      }
+      seen.add(p);
+    }
+    setPatch(draggedId, { parent_id: newParent });
+  }
+
+  // ---- field ตาม group ----
+  // ลงบน group = ค่าของ group นั้น; เรียงข้าง task = ค่าเดียวกับ task นั้น
+  if (target.kind === 'group' || position !== 'inside') {
+    for (const g of enclosingGroups(rows, targetIndex)) {
+      setPatch(draggedId, groupPatch(g.level, g.value));
+    }
+  }
+
+  // ---- sort_order ----
+  if (target.kind === 'task') {
+    let ordered: Task[];
+    if (position === 'inside') {
+      ordered = [
+        ...sortSiblings(
+          tasks.filter((t) => t.parent_id === target.id && t.id !== draggedId),
+        ),
+        dragged,
+      ];
+    } else {
+      ordered = displayedSiblings(rows, targetIndex).filter(
+        (t) => t.id !== draggedId,
+      );
+      const at = ordered.findIndex((t) => t.id === target.id);
+      ordered.splice(position === 'before' ? at : at + 1, 0, dragged);
+    }
+    ordered.forEach((t, i) => {
+      if (t.sort_order !== i || t.id === draggedId) {
+        setPatch(t.id, { sort_order: i });
+      }
+    });
+  }
+
+  // เก็บเฉพาะ field ที่เปลี่ยนจริง
+  return Object.keys(patches)
+    .map((id) => {
+      const patch: Partial<Task> = {};
+      const keep = <K extends keyof Task>(key: K) => {
+        const value = patches[id][key];
+        if ((byId[id][key] ?? null) !== (value ?? null)) patch[key] = value;
+      };
+      (Object.keys(patches[id]) as (keyof Task)[]).forEach(keep);
+      return { id, patch };
+    })
+    .filter((p) => Object.keys(p.patch).length > 0);
+}
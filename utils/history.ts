@@ -0,0 +1,156 @@
+// utils/history.ts
+// undo / redo ของการแก้ task: เก็บค่าก่อน-หลังของเฉพาะ field ที่เปลี่ยน
+import type { Task } from '../types';
+
+export type TaskPatch = Partial<Omit<Task, 'id'>>;
+
+export interface HistoryChange {
+  id: string;
+  before: TaskPatch;
+  after: TaskPatch;
+}
+
+export interface HistoryEntry {
+  label: string; // เช่น "Move Design review"
+  changes: HistoryChange[];
+  // task ที่ entry นี้สร้าง: undo = ลบ, redo = สร้างใหม่ด้วย id เดิม
+  created?: Task[];
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+// จำย้อนหลังได้สูงสุดกี่ครั้ง (ต่อ session)
+export const HISTORY_LIMIT = 50;
+
+const norm = (v: unknown) => (v === undefined ? null : v);
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(norm(a)) === JSON.stringify(norm(b));
+}
+
+/**
+ * สร้าง change จาก task เดิม + patch ที่จะบันทึก
+ * เก็บเฉพาะ field ที่ค่าเปลี่ยนจริง; ไม่มีอะไรเปลี่ยน = null
+ */
+export function diffTask(task: Task, patch: TaskPatch): HistoryChange | null {
+  const before: TaskPatch = {};
+  const after: TaskPatch = {};
+  const record = <K extends keyof TaskPatch>(key: K) => {
+    before[key] = task[key] ?? null;
+    after[key] = patch[key] ?? null;
+  };
+  for (const key of Object.keys(patch) as (keyof TaskPatch)[]) {
+    if (key === ('id' as keyof TaskPatch)) continue;
+    if (sameValue(task[key], patch[key])) continue;
+    record(key);
+  }
+  return Object.keys(after).length ? { id: task.id, before, after } : null;
+}
+
+export function makeHistoryEntry(
+  label: string,
+  changes: (HistoryChange | null)[],
+  created: Task[] = [],
+): HistoryEntry | null {
+  const real = changes.filter((c): c is HistoryChange => !!c);
+  if (created.length) return { label, changes: real, created };
+  return real.length ? { label, changes: real } : null;
+}
+
+// field ที่ DB เปลี่ยนเอง ไม่ใช้ตัดสินว่ามีคนแก้ task ที่สร้างไปแล้ว
+const SERVER_FIELDS = ['id', 'created_at', 'updated_at'];
+
+// action ใหม่ → ล้าง redo
+export function pushHistory(
+  state: HistoryState,
+  entry: HistoryEntry,
+): HistoryState {
+  return {
+    past: [...state.past, entry].slice(-HISTORY_LIMIT),
+    future: [],
+  };
+}
+
+// ย้าย entry บนสุดไปอีกฝั่งหลัง undo / redo สำเร็จ
+export function stepHistory(
+  state: HistoryState,
+  direction: 'undo' | 'redo',
+): HistoryState {
+  if (direction === 'undo') {
+    const entry = state.past[state.past.length - 1];
+    if (!entry) return state;
+    return { past: state.past.slice(0, -1), future: [...state.future, entry] };
+  }
+  const entry = state.future[state.future.length - 1];
+  if (!entry) return state;
+  return { past: [...state.past, entry], future: state.future.slice(0, -1) };
+}
+
+/**
+ * write ที่ต้องส่งไป DB เพื่อ undo / redo entry
+ * creates / removes = task ที่ entry สร้าง (redo สร้างใหม่, undo ลบ)
+ * stale = task ที่ค่าปัจจุบันไม่ตรงกับที่ history คาดไว้ (มีคนแก้ทับไปแล้ว)
+ * missing = task ที่ถูกลบไปแล้ว
+ */
+export function planReplay(
+  entry: HistoryEntry,
+  direction: 'undo' | 'redo',
+  tasks: Task[],
+): {
+  updates: { id: string; patch: TaskPatch }[];
+  creates: Task[];
+  removes: string[];
+  stale: string[];
+  missing: string[];
+} {
+  const byId: Record<string, Task> = {};
+  tasks.forEach((t) => (byId[t.id] = t));
+
+  const updates: { id: string; patch: TaskPatch }[] = [];
+  const creates: Task[] = [];
+  const removes: string[] = [];
+  const stale: string[] = [];
+  const missing: string[] = [];
+
+  for (const created of entry.created || []) {
+    const current = byId[created.id];
+    if (direction === 'redo') {
+      // ยังอยู่ (เช่นคนอื่นสร้างคืนแล้ว) = ไม่ต้องสร้างซ้ำ
+      if (!current) creates.push(created);
+      continue;
+    }
+    if (!current) {
+      missing.push(created.id);
+      continue;
+    }
+    const keys = (Object.keys(created) as (keyof Task)[]).filter(
+      (key) => !SERVER_FIELDS.includes(key),
+    );
+    if (keys.some((key) => !sameValue(current[key], created[key]))) {
+      stale.push(created.id);
+    }
+    removes.push(created.id);
+  }
+
+  for (const c of entry.changes) {
+    const current = byId[c.id];
+    if (!current) {
+      missing.push(c.id);
+      continue;
+    }
+    const expected = direction === 'undo' ? c.after : c.before;
+    const target = direction === 'undo' ? c.before : c.after;
+    const changed = (Object.keys(expected) as (keyof TaskPatch)[]).some(
+      (key) => !sameValue(current[key], expected[key]),
+    );
+    if (changed) stale.push(c.id);
+    updates.push({ id: c.id, patch: target });
+  }
+
+  return { updates, creates, removes, stale, missing };
+}
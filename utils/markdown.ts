@@ -0,0 +1,112 @@
+// utils/markdown.ts
+// markdown ชุดเล็ก ๆ สำหรับ comment → โครงสร้างข้อมูล (render เป็น React element เอง ไม่ใช้ innerHTML)
+// รองรับ: **bold**, *italic*, ~~strike~~, `code`, ```code block```, [link](url), url, - / 1. list, > quote, @mention
+import { findMentions } from './comments';
+
+export type Inline =
+  | { type: 'text' | 'bold' | 'italic' | 'strike' | 'code'; text: string }
+  | { type: 'link'; text: string; href: string }
+  | { type: 'mention'; handle: string; text: string };
+
+export type Block =
+  | { type: 'paragraph' | 'quote'; lines: Inline[][] }
+  | { type: 'list'; ordered: boolean; items: Inline[][] }
+  | { type: 'code'; text: string };
+
+// link รับเฉพาะ http(s) กัน javascript: url
+const INLINE_RE =
+  /`([^`]+)`|\*\*(.+?)\*\*|~~(.+?)~~|\*([^*\s](?:[^*]*[^*\s])?)\*|\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)|(https?:\/\/[^\s<]*[^\s<.,;:!?)\]'"])/g;
+
+// ข้อความธรรมดา → แยก @mention ออกมา
+function textWithMentions(text: string, out: Inline[]) {
+  let pos = 0;
+  for (const m of findMentions(text)) {
+    if (m.start > pos) {
+      out.push({ type: 'text', text: text.slice(pos, m.start) });
+    }
+    out.push({
+      type: 'mention',
+      handle: m.handle,
+      text: text.slice(m.start, m.end),
+    });
+    pos = m.end;
+  }
+  if (pos < text.length) out.push({ type: 'text', text: text.slice(pos) });
+}
+
+export function parseInline(text: string): Inline[] {
+  const out: Inline[] = [];
+  let pos = 0;
+  for (const m of Array.from(text.matchAll(INLINE_RE))) {
+    if (m.index! > pos) textWithMentions(text.slice(pos, m.index), out);
+    if (m[1] != null) out.push({ type: 'code', text: m[1] });
+    else if (m[2] != null) out.push({ type: 'bold', text: m[2] });
+    else if (m[3] != null) out.push({ type: 'strike', text: m[3] });
+    else if (m[4] != null) out.push({ type: 'italic', text: m[4] });
+    else if (m[5] != null) out.push({ type: 'link', text: m[5], href: m[6] });
+    else out.push({ type: 'link', text: m[7], href: m[7] });
+    pos = m.index! + m[0].length;
+  }
+  if (pos < text.length) textWithMentions(text.slice(pos), out);
+  return out;
+}
+
+const BULLET_RE = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_RE = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE_RE = /^>\s?(.*)$/;
+const FENCE_RE = /^\s*```/;
+
+export function parseMarkdown(src: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = src.replace(/\r\n?/g, '\n').split('\n');
+  const last = () => blocks[blocks.length - 1];
+  let breakBlock = true; // บรรทัดว่าง = เริ่ม block ใหม่
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE_RE.test(line)) {
+      const code: string[] = [];
+      while (++i < lines.length && !FENCE_RE.test(lines[i])) {
+        code.push(lines[i]);
+      }
+      blocks.push({ type: 'code', text: code.join('\n') });
+      breakBlock = true;
+      continue;
+    }
+
+    if (!line.trim()) {
+      breakBlock = true;
+      continue;
+    }
+
+    const bullet = BULLET_RE.exec(line);
+    const ordered = bullet ? null : ORDERED_RE.exec(line);
+    const quote = QUOTE_RE.exec(line);
+    const prev = last();
+
+    if (bullet || ordered) {
+      const isOrdered = !!ordered;
+      const item = parseInline((bullet || ordered)[1]);
+      if (
+        prev?.type === 'list' &&
+        prev.ordered === isOrdered &&
+        !breakBlock
+      ) {
+        prev.items.push(item);
+      } else {
+        blocks.push({ type: 'list', ordered: isOrdered, items: [item] });
+      }
+    } else if (quote) {
+      const content = parseInline(quote[1]);
+      if (prev?.type === 'quote' && !breakBlock) prev.lines.push(content);
+      else blocks.push({ type: 'quote', lines: [content] });
+    } else if (prev?.type === 'paragraph' && !breakBlock) {
+      prev.lines.push(parseInline(line));
+    } else {
+      blocks.push({ type: 'paragraph', lines: [parseInline(line)] });
+    }
+    breakBlock = false;
+  }
+  return blocks;
+}
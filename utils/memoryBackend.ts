@@ -0,0 +1,310 @@
+// utils/memoryBackend.ts
+// backend ในหน่วยความจำสำหรับทดสอบ logic (พฤติกรรมเลียนแบบ Supabase ที่ repository ใช้)
+import type {
+  BackendResult,
+  DataBackend,
+  Row,
+  RowChange,
+  SelectQuery,
+  TableName,
+  TableRows,
+  UnreadCountRow,
+} from './repository';
+import { diffRows } from './activity';
+import { countUnread } from './comments';
+
+export interface MemoryBackend extends DataBackend {
+  rows<K extends TableName>(table: K): TableRows[K][]; // สำเนาข้อมูลปัจจุบัน (ไว้ตรวจผล)
+  failNext(message: string): void; // ให้ call ถัดไป error (จำลอง DB ล่ม / RLS)
+  setOnline(online: boolean): void; // offline = ทุก call error แบบเน็ตหลุด
+  setActor(id: string | null): void; // ผู้ใช้ที่ลง task_activity (แทน auth.uid())
+  files(bucket: string): string[]; // path ของไฟล์ที่อยู่ใน bucket
+}
+
+// ตารางที่ DB ใส่ created_at default now() ให้
+const TIMESTAMPED: TableName[] = [
+  'task_comments',
+  'task_attachments',
+  'task_baselines',
+];
+
+// ข้างในเก็บแถวแบบไม่รู้ชนิด (เหมือน DB) → แปลงเป็นชนิดของตารางตอนส่งออก
+const toRow = (r: object) => ({ ...r }) as Row;
+const typed = <K extends TableName>(rows: Row[]) =>
+  rows.map(toRow) as unknown as TableRows[K][];
+
+export function createMemoryBackend(
+  seed: { [K in TableName]?: Partial<TableRows[K]>[] } = {},
+): MemoryBackend {
+  const tables: Record<TableName, Row[]> = {
+    tasks: (seed.tasks || []).map(toRow),
+    profiles: (seed.profiles || []).map(toRow),
+    teams: (seed.teams || []).map(toRow),
+    task_activity: (seed.task_activity || []).map(toRow),
+    task_comments: (seed.task_comments || []).map(toRow),
+    task_comment_reads: (seed.task_comment_reads || []).map(toRow),
+    task_attachments: (seed.task_attachments || []).map(toRow),
+    work_calendars: (seed.work_calendars || []).map(toRow),
+    task_baselines: (seed.task_baselines || []).map(toRow),
+    task_baseline_items: (seed.task_baseline_items || []).map(toRow),
+  };
+  // bucket → path → ขนาดไฟล์
+  const storage: Record<string, Record<string, number>> = {};
+  let nextId = 1;
+  let nextActivityId = tables.task_activity.length + 1;
+  let actor: string | null = null;
+  let pendingError: string | null = null;
+  let online = true;
+  const listeners: {
+    tables: TableName[];
+    onChange: (c: RowChange) => void;
+  }[] = [];
+
+  // แจ้ง subscriber ทันที (ของจริงมาแบบ async ผ่าน websocket)
+  const emit = (
+    table: TableName,
+    type: RowChange['type'],
+    row: Row | null,
+    id: unknown,
+  ) => {
+    const change = {
+      table,
+      type,
+      row: row && toRow(row),
+      id,
+    } as unknown as RowChange;
+    listeners
+      .filter((l) => l.tables.includes(table))
+      .forEach((l) => l.onChange(change));
+  };
+
+  const result = <T>(data: T): BackendResult<T> => {
+    if (!online) {
+      return { data: null, error: { message: 'TypeError: Failed to fetch' } };
+    }
+    if (pendingError) {
+      const message = pendingError;
+      pendingError = null;
+      return { data: null, error: { message } };
+    }
+    return { data, error: null };
+  };
+
+  // เลียนแบบ trigger log_task_activity บนตาราง tasks
+  const logActivity = (before: Row | null, after: Row | null) => {
+    const row = after || before;
+    if (!row) return;
+    const action = !before ? 'create' : !after ? 'delete' : 'update';
+    const changes = diffRows(before, after);
+    if (action === 'update' && !Object.keys(changes).length) return;
+    tables.task_activity.push({
+      id: nextActivityId++,
+      task_id: row.id,
+      task_name: row.name ?? null,
+      team_id: row.team_id ?? null,
+      action,
+      changes,
+      actor_id: actor,
+      created_at: new Date().toISOString(),
+    });
+  };
+
+  // เหมือน Postgres: null อยู่ท้ายเมื่อ ascending, อยู่หน้าเมื่อ descending
+  const compare = (a: unknown, b: unknown) => {
+    if (a == null && b == null) return 0;
+    if (a == null) return 1;
+    if (b == null) return -1;
+    return a < b ? -1 : a > b ? 1 : 0;
+  };
+
+  // เลียนแบบ trigger touch_comment_updated_at: แก้เนื้อหาจริงเท่านั้น client ใส่เองไม่ได้
+  const touchComment = (before: Row, after: Row): Row => ({
+    ...after,
+    updated_at:
+      JSON.stringify([before.body, before.mentions]) !==
+      JSON.stringify([after.body, after.mentions])
+        ? new Date().toISOString()
+        : before.updated_at ?? null,
+  });
+
+  const applyUpdate = (table: TableName, id: string, patch: Row) => {
+    const before = tables[table].find((r) => r.id === id);
+    tables[table] = tables[table].map((r) => {
+      if (r.id !== id) return r;
+      const next = { ...r, ...patch };
+      return table === 'task_comments' ? touchComment(r, next) : next;
+    });
+    const row = tables[table].find((r) => r.id === id);
+    if (table === 'tasks' && row) logActivity(before, row);
+    if (row) emit(table, 'UPDATE', row, id);
+  };
+
+  return {
+    async select(table, query: SelectQuery = {}) {
+      let list = tables[table].filter((r) =>
+        Object.entries(query.match || {}).every(([k, v]) => r[k] === v),
+      );
+      if (query.orderBy) {
+        const { column, ascending = true } = query.orderBy;
+        list = [...list].sort((a, b) => {
+          const c = compare(a[column], b[column]);
+          return ascending ? c : -c;
+        });
+      }
+      if (query.limit) list = list.slice(0, query.limit);
+      const project = (r: Row): Row =>
+        query.columns
+          ? Object.fromEntries(query.columns.map((c) => [c, r[c] ?? null]))
+          : { ...r };
+      return result(typed<typeof table>(list.map(project)));
+    },
+
+    async insert(table, rows) {
+      const res = result(null);
+      if (res.error) return { data: null, error: res.error };
+      const inserted = rows.map(toRow).map((r) => ({
+        ...(TIMESTAMPED.includes(table)
+          ? { created_at: new Date().toISOString() }
+          : {}),
+        ...(table === 'task_attachments' ? { uploaded_by: actor } : {}),
+        ...r,
+        id: r.id ?? `mem-${nextId++}`,
+      }));
+      tables[table].push(...inserted);
+      if (table === 'tasks') inserted.forEach((r) => logActivity(null, r));
+      inserted.forEach((r) => emit(table, 'INSERT', r, r.id));
+      return { data: typed<typeof table>(inserted), error: null };
+    },
+
+    async update(table, id, patch) {
+      const res = result(null);
+      if (res.error) return res;
+      // ไม่เจอ id = ไม่ error (Supabase update 0 แถวก็ไม่ error)
+      applyUpdate(table, id, toRow(patch));
+      return res;
+    },
+
+    async updateBatch(table, updates) {
+      const res = result(null);
+      if (res.error) return res;
+      // เหมือน RPC: แถวไหนไม่เจอ = rollback ทั้งชุด (ไม่แก้อะไรเลย)
+      const missing = updates.find(
+        (u) => !tables[table].some((r) => r.id === u.id),
+      );
+      if (missing) {
+        return {
+          data: null,
+          error: { message: `Row ${missing.id} not found`, code: 'P0002' },
+        };
+      }
+      updates.forEach((u) => applyUpdate(table, u.id, toRow(u.patch)));
+      return res;
+    },
+
+    async remove(table, id) {
+      const res = result(null);
+      if (res.error) return res;
+      const existed = tables[table].find((r) => r.id === id);
+      tables[table] = tables[table].filter((r) => r.id !== id);
+      if (table === 'tasks' && existed) logActivity(existed, null);
+      if (existed) emit(table, 'DELETE', null, id);
+      return res;
+    },
+
+    async upsert(table, rows, onConflict) {
+      const res = result(null);
+      if (res.error) return res;
+      for (const r of rows.map(toRow)) {
+        const same = (x: Row) => onConflict.every((c) => x[c] === r[c]);
+        const existing = tables[table].find(same);
+        if (existing) {
+          tables[table] = tables[table].map((x) =>
+            same(x) ? { ...x, ...r } : x,
+          );
+        } else {
+          tables[table].push(r);
+        }
+      }
+      return res;
+    },
+
+    async commentUnreadCounts() {
+      const res = result(null);
+      if (res.error) return res;
+      // เหมือน RPC comment_unread_counts: ของผู้ใช้ปัจจุบัน (actor)
+      if (!actor) return { data: [], error: null };
+      const unread = countUnread(
+        typed<'task_comments'>(tables.task_comments),
+        typed<'task_comment_reads'>(
+          tables.task_comment_reads.filter((r) => r.user_id === actor),
+        ),
+        actor,
+      );
+      const rows: UnreadCountRow[] = Object.entries(unread).map(
+        ([taskId, info]) => ({
+          task_id: taskId,
+          unread: info.count,
+          mentioned: info.mentioned,
+        }),
+      );
+      return { data: rows, error: null };
+    },
+
+    subscribe(subscribed, onChange) {
+      const listener = { tables: subscribed, onChange };
+      listeners.push(listener);
+      return () => {
+        const i = listeners.indexOf(listener);
+        if (i >= 0) listeners.splice(i, 1);
+      };
+    },
+
+    async uploadFile(bucket, path, file) {
+      const res = result(null);
+      if (res.error) return res;
+      const files = (storage[bucket] = storage[bucket] || {});
+      if (path in files) {
+        return {
+          data: null,
+          error: { message: 'The resource already exists' },
+        };
+      }
+      files[path] = file.size;
+      return res;
+    },
+
+    async removeFiles(bucket, paths) {
+      const res = result(null);
+      if (res.error) return res;
+      paths.forEach((p) => delete (storage[bucket] || {})[p]);
+      return res;
+    },
+
+    async signedUrl(bucket, path, expiresIn, download) {
+      const res = result(null);
+      if (res.error) return res;
+      if (!(path in (storage[bucket] || {}))) {
+        return { data: null, error: { message: 'Object not found' } };
+      }
+      let url = `memory://${bucket}/${path}?expires=${expiresIn}`;
+      if (download) url += `&download=${encodeURIComponent(download)}`;
+      return { data: url, error: null };
+    },
+
+    rows: (table) => typed<typeof table>(tables[table]),
+
+    files: (bucket) => Object.keys(storage[bucket] || {}),
+
+    failNext(message) {
+      pendingError = message;
+    },
+
+    setOnline(value) {
+      online = value;
+    },
+
+    setActor(id) {
+      actor = id;
+    },
+  };
+}
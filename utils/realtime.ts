@@ -0,0 +1,51 @@
+// utils/realtime.ts
+// รวมการเปลี่ยนแปลง realtime (insert / update / delete) เข้ากับ state ที่โหลดไว้
+import type { Profile, Task, Team } from '../types';
+import type { RowChange } from './repository';
+
+// ไฮไลต์แถวที่คนอื่นเพิ่งแก้นานเท่านี้
+export const REMOTE_HIGHLIGHT_MS = 4000;
+
+const byText =
+  <T>(value: (row: T) => string | null | undefined, nullsLast = false) =>
+  (a: T, b: T) => {
+    const x = value(a);
+    const y = value(b);
+    if (x == null || y == null) {
+      return x == null && y == null ? 0 : (x == null) === nullsLast ? 1 : -1;
+    }
+    return x.localeCompare(y);
+  };
+
+// ลำดับเดียวกับตอนโหลดจาก repository
+export const TASK_ORDER = byText<Task>((t) => t.start_date, true);
+export const PROFILE_ORDER = byText<Profile>((p) => p.display_name);
+export const TEAM_ORDER = byText<Team>((t) => t.name);
+
+/**
+ * คืน list ใหม่หลังรวม change; ไม่มีอะไรเปลี่ยน = คืน list เดิม (React ไม่ render ซ้ำ)
+ */
+export function mergeRowChange<T extends { id: string }>(
+  list: T[],
+  change: Pick<RowChange, 'type' | 'id'> & { row: T | null },
+  order?: (a: T, b: T) => number,
+): T[] {
+  if (change.type === 'DELETE') {
+    return list.some((r) => r.id === change.id)
+      ? list.filter((r) => r.id !== change.id)
+      : list;
+  }
+
+  const row = change.row;
+  if (!row) return list;
+  const index = list.findIndex((r) => r.id === row.id);
+  if (index >= 0 && JSON.stringify(list[index]) === JSON.stringify(row)) {
+    return list;
+  }
+
+  const next =
+    index >= 0
+      ? list.map((r, i) => (i === index ? row : r))
+      : [...list, row];
+  return order ? [...next].sort(order) : next;
+}
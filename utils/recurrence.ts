@@ -0,0 +1,138 @@
+// utils/recurrence.ts
+// คำนวณรอบถัดไปของงานที่ทำซ้ำ (is_recurring) เพื่อแสดงเป็น ghost bar
+import type { Task } from '../types';
+import { toDayNumber, fromDayNumber } from './dates';
+
+export interface RecurrenceStep {
+  unit: 'day' | 'week' | 'month' | 'year';
+  interval: number;
+}
+
+export interface Occurrence {
+  index: number; // รอบที่ (1 = รอบถัดจาก task จริง)
+  start_date: string;
+  end_date: string;
+}
+
+// กันวนไม่จบกรณี interval เล็กมาก ๆ กับช่วงยาว
+const MAX_OCCURRENCES = 500;
+
+// จำนวนวันมากที่สุดต่อ 1 หน่วย ใช้กระโดดไปใกล้ช่วงที่ดูโดยไม่ข้ามรอบ
+const MAX_UNIT_DAYS = { day: 1, week: 7, month: 31, year: 366 };
+
+export function recurrenceStep(task: Task): RecurrenceStep | null {
+  if (!task.is_recurring) return null;
+  switch (task.recurring_type) {
+    case 'weekly':
+      return { unit: 'week', interval: 1 };
+    case 'monthly':
+      return { unit: 'month', interval: 1 };
+    case 'quarterly':
+      return { unit: 'month', interval: 3 };
+    case 'custom': {
+      const interval = Math.floor(task.recurring_interval ?? 1);
+      if (!task.recurring_unit || interval < 1) return null;
+      return { unit: task.recurring_unit, interval };
+    }
+    default:
+      return null;
+  }
+}
+
+export function describeRecurrence(step: RecurrenceStep): string {
+  if (step.interval === 1) {
+    return step.unit === 'day'
+      ? 'Daily'
+      : `${step.unit[0].toUpperCase()}${step.unit.slice(1)}ly`;
+  }
+  return `Every ${step.interval} ${step.unit}s`;
+}
+
+// เลื่อนวันที่ n เดือน (วันที่ 31 → วันสุดท้ายของเดือนที่สั้นกว่า)
+function addMonths(date: string, months: number): string {
+  const [y, m, d] = date.split('-').map(Number);
+  const total = y * 12 + (m - 1) + months;
+  const year = Math.floor(total / 12);
+  const month = total - year * 12;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return `${year}-${String(month + 1).padStart(2, '0')}-${String(
+    Math.min(d, lastDay),
+  ).padStart(2, '0')}`;
+}
+
+function shift(date: string, step: RecurrenceStep, times: number): string {
+  const n = step.interval * times;
+  switch (step.unit) {
+    case 'day':
+      return fromDayNumber(toDayNumber(date)! + n);
+    case 'week':
+      return fromDayNumber(toDayNumber(date)! + n * 7);
+    case 'month':
+      return addMonths(date, n);
+    case 'year':
+      return addMonths(date, n * 12);
+  }
+}
+
+/**
+ * รอบถัดไปของ task ที่ตัดกับช่วง rangeStart..rangeEnd (YYYY-MM-DD, inclusive)
+ * ทุกรอบนับจากวันของ task จริง (ไม่สะสม error จากเดือนสั้น) และยาวเท่าเดิม
+ */
+export function projectOccurrences(
+  task: Task,
+  rangeStart: string,
+  rangeEnd: string,
+): Occurrence[] {
+  const step = recurrenceStep(task);
+  const anchor = task.start_date || task.end_date;
+  if (!step || !anchor) return [];
+
+  const length = Math.max(
+    toDayNumber(task.end_date || anchor)! - toDayNumber(anchor)!,
+    0,
+  );
+  const from = toDayNumber(rangeStart);
+  const to = toDayNumber(rangeEnd);
+  if (from == null || to == null) return [];
+
+  const first = Math.max(
+    Math.floor(
+      (from - length - toDayNumber(anchor)!) /
+        (MAX_UNIT_DAYS[step.unit] * step.interval),
+    ),
+    1,
+  );
+
+  const result: Occurrence[] = [];
+  for (let i = first; i < first + MAX_OCCURRENCES; i++) {
+    const start = shift(anchor, step, i);
+    const s = toDayNumber(start)!;
+    if (s > to) break;
+    if (s + length < from) continue;
+    result.push({
+      index: i,
+      start_date: start,
+      end_date: fromDayNumber(s + length),
+    });
+  }
+  return result;
+}
+
+/**
+ * รอบที่ยังไม่ถูกสร้างเป็น task จริง (task ชื่อเดียวกัน เริ่มวันเดียวกัน = สร้างแล้ว)
+ */
+export function pendingOccurrences(
+  task: Task,
+  allTasks: Task[],
+  rangeStart: string,
+  rangeEnd: string,
+): Occurrence[] {
+  const taken = new Set(
+    allTasks
+      .filter((t) => t.id !== task.id && t.name === task.name)
+      .map((t) => t.start_date || t.end_date),
+  );
+  return projectOccurrences(task, rangeStart, rangeEnd).filter(
+    (o) => !taken.has(o.start_date),
+  );
+}
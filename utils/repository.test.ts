@@ -0,0 +1,447 @@
+// utils/repository.test.ts
+// ทดสอบ repository กับ memory backend (ไม่ต้องมี Supabase project จริง)
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Task } from '../types';
+import { createMemoryBackend } from './memoryBackend';
+import { cleanTaskChanges, createRepository, newId } from './repository';
+import { createMemoryQueueStore } from './writeQueue';
+
+const task = (id: string, changes: Partial<Task> = {}): Task => ({
+  id,
+  name: `Task ${id}`,
+  start_date: '2024-01-01',
+  end_date: '2024-01-05',
+  status: 'To Do',
+  priority: 'Medium',
+  progress: 0,
+  assignee: null,
+  is_recurring: false,
+  ...changes,
+});
+
+const setup = (
+  tasks: Task[] = [task('a'), task('b')],
+  queue = createMemoryQueueStore(),
+) => {
+  const backend = createMemoryBackend({ tasks });
+  const repo = createRepository(backend, queue);
+  repo.sync.setUser('user-1');
+  // state ฝั่ง UI: รวมทุก change ที่ repository แจ้ง (optimistic + realtime)
+  const shown = new Map<string, Task>(tasks.map((t) => [t.id, t]));
+  repo.watch((change) => {
+    if (change.table !== 'tasks' || !change.id) return;
+    if (change.row) shown.set(change.id, change.row);
+    else shown.delete(change.id);
+  });
+  return { backend, repo, shown };
+};
+
+const stored = (backend: ReturnType<typeof setup>['backend'], id: string) =>
+  backend.rows('tasks').find((t) => t.id === id);
+
+describe('cleanTaskChanges', () => {
+  it('keeps only task columns and normalizes empty values', () => {
+    const row = cleanTaskChanges({
+      id: 'x',
+      name: '  Design  ',
+      assignee: '',
+      parent_id: '',
+      start_date: '',
+      progress: 42.6,
+      ...({ created_at: '2024-01-01' } as Partial<Task>),
+    });
+    expect(row).toEqual({
+      name: 'Design',
+      assignee: null,
+      parent_id: null,
+      start_date: null,
+      progress: 43,
+    });
+  });
+
+  it('returns a message for invalid values', () => {
+    expect(cleanTaskChanges({ name: ' ' })).toBe('Task name is required.');
+    expect(cleanTaskChanges({ end_date: '2024-13-40' })).toMatch(
+      /Invalid end date/,
+    );
+    expect(cleanTaskChanges({ progress: 120 })).toMatch(/Progress/);
+    expect(cleanTaskChanges({ parent_id: 'a' }, 'a')).toBe(
+      'A task cannot be its own parent.',
+    );
+  });
+});
+
+describe('tasks', () => {
+  it('creates a task with defaults and logs the activity', async () => {
+    const { backend, repo, shown } = setup([]);
+    backend.setActor('user-1');
+    const res = await repo.tasks.create({ name: 'Kickoff' });
+
+    expect(res.error).toBeNull();
+    expect(stored(backend, res.data!.id)).toMatchObject({
+      name: 'Kickoff',
+      status: 'To Do',
+      progress: 0,
+    });
+    expect(shown.get(res.data!.id)?.name).toBe('Kickoff');
+    expect(backend.rows('task_activity')).toMatchObject([
+      { task_id: res.data!.id, action: 'create', actor_id: 'user-1' },
+    ]);
+  });
+
+  it('rejects invalid changes without touching the backend', async () => {
+    const { backend, repo } = setup();
+    const res = await repo.tasks.update('a', { status: 'Later' as never });
+
+    expect(res.error?.kind).toBe('validation');
+    expect(stored(backend, 'a')?.status).toBe('To Do');
+  });
+
+  it('rolls back the optimistic update when the server refuses', async () => {
+    const { backend, repo, shown } = setup();
+    await repo.tasks.list();
+    backend.failNext('permission denied');
+    const res = await repo.tasks.update('a', { name: 'Renamed' });
+
+    expect(res.error?.kind).toBe('backend');
+    expect(res.error?.message).toBe('permission denied');
+    expect(stored(backend, 'a')?.name).toBe('Task a');
+    expect(shown.get('a')?.name).toBe('Task a');
+  });
+});
+
+describe('tasks.updateBatch', () => {
+  it('updates every row in one call', async () => {
+    const { backend, repo } = setup();
+    const res = await repo.tasks.updateBatch([
+      { id: 'a', changes: { start_date: '2024-02-01' } },
+      { id: 'b', changes: { start_date: '2024-02-02' } },
+    ]);
+
+    expect(res.error).toBeNull();
+    expect(stored(backend, 'a')?.start_date).toBe('2024-02-01');
+    expect(stored(backend, 'b')?.start_date).toBe('2024-02-02');
+    expect(backend.rows('task_activity')).toHaveLength(2);
+  });
+
+  it('changes nothing when one row fails', async () => {
+    const { backend, repo, shown } = setup();
+    const res = await repo.tasks.updateBatch([
+      { id: 'a', changes: { progress: 50 } },
+      { id: 'missing', changes: { progress: 50 } },
+    ]);
+
+    expect(res.error?.code).toBe('P0002');
+    expect(stored(backend, 'a')?.progress).toBe(0);
+    expect(shown.get('a')?.progress).toBe(0);
+    expect(backend.rows('task_activity')).toHaveLength(0);
+  });
+
+  it('validates every row before writing any', async () => {
+    const { backend, repo } = setup();
+    const res = await repo.tasks.updateBatch([
+      { id: 'a', changes: { progress: 50 } },
+      { id: 'b', changes: { name: '' } },
+    ]);
+
+    expect(res.error?.kind).toBe('validation');
+    expect(stored(backend, 'a')?.progress).toBe(0);
+  });
+});
+
+describe('offline queue', () => {
+  it('queues writes while offline and replays them in order', async () => {
+    const { backend, repo, shown } = setup();
+    await repo.tasks.list();
+    backend.setOnline(false);
+
+    const update = await repo.tasks.update('a', { progress: 30 });
+    const created = await repo.tasks.create({ name: 'Offline task' });
+    const removed = await repo.tasks.remove('b');
+
+    expect([update.queued, created.queued, removed.queued]).toEqual([
+      true,
+      true,
+      true,
+    ]);
+    expect(repo.sync.pendingCount()).toBe(3);
+    expect(shown.get('a')?.progress).toBe(30);
+    expect(stored(backend, 'a')?.progress).toBe(0);
+
+    backend.setOnline(true);
+    const report = await repo.sync.replay();
+
+    expect(report).toEqual({
+      applied: 3,
+      remaining: 0,
+      conflicts: [],
+      failed: [],
+    });
+    expect(stored(backend, 'a')?.progress).toBe(30);
+    expect(stored(backend, created.data!.id)?.name).toBe('Offline task');
+    expect(stored(backend, 'b')).toBeUndefined();
+  });
+
+  it('keeps the server value of fields someone else changed', async () => {
+    const { backend, repo } = setup();
+    await repo.tasks.list();
+    backend.setOnline(false);
+    await repo.tasks.update('a', { name: 'Mine', progress: 40 });
+
+    backend.setOnline(true);
+    await backend.update('tasks', 'a', { name: 'Theirs' });
+    const report = await repo.sync.replay();
+
+    expect(report.applied).toBe(1);
+    expect(report.conflicts).toHaveLength(1);
+    expect(stored(backend, 'a')).toMatchObject({
+      name: 'Theirs',
+      progress: 40,
+    });
+  });
+
+  it('queues a batch as one write and replays it in one call', async () => {
+    const { backend, repo, shown } = setup();
+    await repo.tasks.list();
+    backend.setOnline(false);
+    const res = await repo.tasks.updateBatch([
+      { id: 'a', changes: { start_date: '2024-02-01' } },
+      { id: 'b', changes: { start_date: '2024-02-02' } },
+    ]);
+
+    expect(res.queued).toBe(true);
+    expect(repo.sync.pendingCount()).toBe(1);
+    expect(shown.get('b')?.start_date).toBe('2024-02-02');
+
+    backend.setOnline(true);
+    const batch = vi.spyOn(backend, 'updateBatch');
+    const report = await repo.sync.replay();
+
+    expect(report).toMatchObject({ applied: 1, conflicts: [], failed: [] });
+    expect(batch).toHaveBeenCalledTimes(1);
+    expect(stored(backend, 'a')?.start_date).toBe('2024-02-01');
+    expect(stored(backend, 'b')?.start_date).toBe('2024-02-02');
+  });
+
+  it('discards the whole batch when one row changed meanwhile', async () => {
+    const { backend, repo } = setup();
+    await repo.tasks.list();
+    backend.setOnline(false);
+    await repo.tasks.updateBatch([
+      { id: 'a', changes: { start_date: '2024-02-01' } },
+      { id: 'b', changes: { start_date: '2024-02-02' } },
+    ]);
+
+    backend.setOnline(true);
+    await backend.update('tasks', 'b', { start_date: '2024-03-01' });
+    const report = await repo.sync.replay();
+
+    expect(report.applied).toBe(0);
+    expect(report.conflicts).toHaveLength(1);
+    expect(repo.sync.pendingCount()).toBe(0);
+    expect(stored(backend, 'a')?.start_date).toBe('2024-01-01');
+    expect(stored(backend, 'b')?.start_date).toBe('2024-03-01');
+  });
+
+  it('stops replaying while the network is still down', async () => {
+    const { backend, repo } = setup();
+    backend.setOnline(false);
+    await repo.tasks.update('a', { progress: 10 });
+
+    const report = await repo.sync.replay();
+    expect(report.remaining).toBe(1);
+    expect(repo.sync.pendingCount()).toBe(1);
+  });
+});
+
+describe('realtime echo', () => {
+  const watchLocal = (repo: ReturnType<typeof setup>['repo']) => {
+    const seen: { id: string | null; local: boolean }[] = [];
+    repo.watch((change) => seen.push({ id: change.id, local: change.local }));
+    return seen;
+  };
+
+  it('marks the echo of our own write as local', async () => {
+    const { repo } = setup();
+    await repo.tasks.list();
+    const seen = watchLocal(repo);
+    await repo.tasks.update('a', { progress: 20 });
+
+    // optimistic + echo จาก backend
+    expect(seen).toEqual([
+      { id: 'a', local: true },
+      { id: 'a', local: true },
+    ]);
+  });
+
+  it('does not treat a teammate edit right after ours as local', async () => {
+    const { backend, repo } = setup();
+    await repo.tasks.list();
+    await repo.tasks.update('a', { progress: 20 });
+    const seen = watchLocal(repo);
+
+    await backend.update('tasks', 'a', { name: 'Teammate edit' });
+    expect(seen).toEqual([{ id: 'a', local: false }]);
+  });
+
+  it('forgets the echo when the write fails', async () => {
+    const { backend, repo } = setup();
+    await repo.tasks.list();
+    backend.failNext('permission denied');
+    await repo.tasks.update('a', { progress: 20 });
+    const seen = watchLocal(repo);
+
+    await backend.update('tasks', 'a', { progress: 20 });
+    expect(seen).toEqual([{ id: 'a', local: false }]);
+  });
+});
+
+describe('offline queue per user', () => {
+  it('keeps each user queue apart and clears it on sign-out', async () => {
+    const queue = createMemoryQueueStore();
+    const { backend, repo } = setup(undefined, queue);
+    backend.setOnline(false);
+    await repo.tasks.update('a', { progress: 10 });
+
+    repo.sync.setUser('user-2');
+    await repo.tasks.list();
+    expect(repo.sync.pendingCount()).toBe(0);
+
+    repo.sync.setUser('user-1');
+    await repo.tasks.list();
+    expect(repo.sync.pendingCount()).toBe(1);
+
+    await repo.sync.clear();
+    expect(repo.sync.pendingCount()).toBe(0);
+    expect(await queue.load('user-1')).toEqual([]);
+  });
+
+  it('replays writes queued by another tab in order', async () => {
+    const queue = createMemoryQueueStore();
+    const first = setup(undefined, queue);
+    first.backend.setOnline(false);
+    await first.repo.tasks.update('a', { progress: 10 });
+
+    // tab ที่สองใช้ store เดียวกัน: seq ต่อจากของ tab แรก ไม่ชนกัน
+    const second = createRepository(first.backend, queue);
+    second.sync.setUser('user-1');
+    await second.tasks.update('a', { progress: 20 });
+    expect((await queue.load('user-1')).map((w) => w.seq)).toEqual([1, 2]);
+
+    first.backend.setOnline(true);
+    const report = await first.repo.sync.replay();
+    expect(report.applied).toBe(2);
+    expect(stored(first.backend, 'a')?.progress).toBe(20);
+    expect(await second.sync.replay()).toMatchObject({ applied: 0 });
+  });
+});
+
+describe('newId', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('builds a v4 uuid without crypto.randomUUID', () => {
+    const real = globalThis.crypto;
+    vi.stubGlobal('crypto', {
+      getRandomValues: (bytes: Uint8Array) => real.getRandomValues(bytes),
+    });
+    const id = newId();
+    expect(id).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+    );
+  });
+
+  it('fails loudly without Web Crypto', () => {
+    vi.stubGlobal('crypto', undefined);
+    expect(() => newId()).toThrow(/random ids/);
+  });
+});
+
+describe('comments', () => {
+  it('counts unread comments per task for the signed-in user', async () => {
+    const { backend, repo } = setup();
+    backend.setActor('user-2');
+    await repo.comments.create({
+      task_id: 'a',
+      author_id: 'user-2',
+      body: 'Hi @user-1',
+      mentions: ['user-1'],
+    });
+    await repo.comments.create({
+      task_id: 'b',
+      author_id: 'user-2',
+      body: 'Second',
+      mentions: [],
+    });
+
+    backend.setActor('user-1');
+    const latest = backend.rows('task_comments')[1].created_at;
+    await repo.comments.markRead('b', 'user-1', latest);
+    const { data } = await repo.comments.unread();
+
+    expect(data).toEqual({ a: { count: 1, mentioned: true } });
+  });
+
+  it('stamps updated_at only when the content changes', async () => {
+    const { backend, repo } = setup();
+    const { data } = await repo.comments.create({
+      task_id: 'a',
+      author_id: 'user-1',
+      body: 'Draft',
+      mentions: [],
+    });
+    await backend.update('task_comments', data!.id, {
+      updated_at: '2000-01-01T00:00:00Z',
+    });
+    expect(backend.rows('task_comments')[0].updated_at).toBeNull();
+
+    await repo.comments.update(data!.id, { body: 'Final', mentions: [] });
+    expect(backend.rows('task_comments')[0].updated_at).not.toBeNull();
+  });
+});
+
+describe('attachments', () => {
+  it('stores each upload under the task id and a uuid', async () => {
+    const { backend, repo } = setup();
+    const file = new File(['hello'], 'Meeting notes.txt', {
+      type: 'text/plain',
+    });
+    const first = await repo.attachments.upload('a', file);
+    const second = await repo.attachments.upload('a', file);
+
+    expect(first.data!.path).toMatch(
+      /^a\/[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}-Meeting-notes\.txt$/,
+    );
+    expect(second.data!.path).not.toBe(first.data!.path);
+    expect(backend.files('task-attachments')).toHaveLength(2);
+  });
+});
+
+describe('baselines', () => {
+  it('snapshots the given tasks under a new baseline', async () => {
+    const { backend, repo } = setup();
+    const res = await repo.baselines.create(' Plan A ', [
+      task('a', { progress: 40 }),
+    ]);
+
+    expect(res.data?.name).toBe('Plan A');
+    expect(backend.rows('task_baseline_items')).toMatchObject([
+      { baseline_id: res.data!.id, task_id: 'a', progress: 40 },
+    ]);
+  });
+
+  it('removes the header when its items cannot be saved', async () => {
+    const { backend, repo } = setup();
+    const insert = backend.insert;
+    vi.spyOn(backend, 'insert').mockImplementation((table, rows) =>
+      table === 'task_baseline_items'
+        ? Promise.resolve({ data: null, error: { message: 'denied' } })
+        : insert(table, rows),
+    );
+    const res = await repo.baselines.create('Plan B', [task('a')]);
+
+    expect(res.error?.message).toBe('denied');
+    expect(backend.rows('task_baselines')).toEqual([]);
+  });
+});
@@ -0,0 +1,1406 @@
+// utils/repository.ts
+// data access ของ tasks / profiles / teams ผ่าน backend ที่สลับได้
+// (Supabase ตอนใช้งานจริง, in-memory ตอนทดสอบ logic โดยไม่ต้องมี project จริง)
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Baseline,
+  BaselineItem,
+  Profile,
+  Task,
+  TaskActivity,
+  TaskAttachment,
+  TaskComment,
+  TaskCommentRead,
+  Team,
+} from '../types';
+import type {
+  QueuedUpdate,
+  QueuedWrite,
+  WriteQueueStore,
+} from './writeQueue';
+import { COMMENT_MAX_LENGTH, type UnreadInfo } from './comments';
+import {
+  ATTACHMENT_BUCKET,
+  ATTACHMENT_URL_TTL,
+  MAX_ATTACHMENTS_PER_TASK,
+  attachmentMimeType,
+  checkAttachment,
+  safeFileName,
+} from './attachments';
+import type { WorkCalendarRow, WorkCalendarRowInput } from './workCalendar';
+
+// ====== backend ======
+
+// ชนิดของแถวในแต่ละตาราง (select / insert / realtime คืนชนิดตามตาราง)
+export interface TableRows {
+  tasks: Task;
+  profiles: Profile;
+  teams: Team;
+  task_activity: TaskActivity;
+  task_comments: TaskComment;
+  task_comment_reads: TaskCommentRead;
+  task_attachments: TaskAttachment;
+  work_calendars: WorkCalendarRow;
+  task_baselines: Baseline;
+  task_baseline_items: BaselineItem;
+}
+export type TableName = keyof TableRows;
+// แถวที่ไม่รู้ตาราง (diff / match / ที่เก็บของ memory backend)
+export type Row = Record<string, unknown>;
+
+export interface BackendError {
+  message: string;
+  details?: string | null;
+  hint?: string | null;
+  code?: string | null;
+}
+
+export interface BackendResult<T> {
+  data: T | null;
+  error: BackendError | null;
+}
+
+// comment ที่ยังไม่อ่านของผู้ใช้ปัจจุบัน นับใน DB ต่อ task
+export interface UnreadCountRow {
+  task_id: string;
+  unread: number;
+  mentioned: boolean;
+}
+
+export interface SelectQuery {
+  columns?: string[]; // ไม่ระบุ = ทุก column
+  match?: Row; // column = value ทุกตัว
+  orderBy?: { column: string; ascending?: boolean };
+  limit?: number;
+}
+
+// การเปลี่ยนแปลงจากฝั่ง DB (realtime) — เช็ค table แล้ว row เป็นชนิดของตารางนั้น
+export type RowChange = {
+  [K in TableName]: {
+    table: K;
+    type: 'INSERT' | 'UPDATE' | 'DELETE';
+    row: TableRows[K] | null; // แถวใหม่ทั้งแถว (DELETE = null)
+    id: string | null; // id ของแถวที่เปลี่ยน
+  };
+}[TableName];
+
+export interface DataBackend {
+  select<K extends TableName>(
+    table: K,
+    query?: SelectQuery,
+  ): Promise<BackendResult<TableRows[K][]>>;
+  insert<K extends TableName>(
+    table: K,
+    rows: Partial<TableRows[K]>[],
+  ): Promise<BackendResult<TableRows[K][]>>;
+  update<K extends TableName>(
+    table: K,
+    id: string,
+    patch: Partial<TableRows[K]>,
+  ): Promise<BackendResult<null>>;
+  // แก้หลายแถวใน transaction เดียว: แถวไหนแก้ไม่ได้ = ยกเลิกทั้งชุด
+  updateBatch<K extends TableName>(
+    table: K,
+    updates: { id: string; patch: Partial<TableRows[K]> }[],
+  ): Promise<BackendResult<null>>;
+  remove(table: TableName, id: string): Promise<BackendResult<null>>;
+  // insert หรือแทนที่แถวที่ค่า onConflict ตรงกัน (ตารางที่ไม่มี id)
+  upsert<K extends TableName>(
+    table: K,
+    rows: Partial<TableRows[K]>[],
+    onConflict: (keyof TableRows[K] & string)[],
+  ): Promise<BackendResult<null>>;
+  // เฉพาะ task ที่มี comment ยังไม่อ่าน (ไม่ต้องดึง comment ทุกแถวมานับเอง)
+  commentUnreadCounts(): Promise<BackendResult<UnreadCountRow[]>>;
+  // คืนฟังก์ชันยกเลิก subscription
+  subscribe(
+    tables: TableName[],
+    onChange: (change: RowChange) => void,
+  ): () => void;
+
+  // ไฟล์ใน Storage
+  uploadFile(
+    bucket: string,
+    path: string,
+    file: Blob,
+    contentType: string,
+  ): Promise<BackendResult<null>>;
+  removeFiles(bucket: string, paths: string[]): Promise<BackendResult<null>>;
+  // URL ชั่วคราว (bucket private); download = ชื่อไฟล์ตอนบันทึก
+  signedUrl(
+    bucket: string,
+    path: string,
+    expiresIn: number,
+    download?: string,
+  ): Promise<BackendResult<string>>;
+}
+
+let channelCount = 0;
+
+export function createSupabaseBackend(client: SupabaseClient): DataBackend {
+  return {
+    async select(table, query = {}) {
+      let q = client
+        .from(table)
+        .select(query.columns ? query.columns.join(',') : '*');
+      for (const [column, value] of Object.entries(query.match || {})) {
+        q = q.eq(column, value);
+      }
+      if (query.orderBy) {
+        q = q.order(query.orderBy.column, {
+          ascending: query.orderBy.ascending ?? true,
+        });
+      }
+      if (query.limit) q = q.limit(query.limit);
+      const { data, error } = await q.returns<TableRows[typeof table][]>();
+      return { data, error };
+    },
+    async insert(table, rows) {
+      const { data, error } = await client
+        .from(table)
+        // ไม่มี generated schema → บอกชนิดแถวเอง
+        .insert(rows as TableRows[typeof table][])
+        .select()
+        .returns<TableRows[typeof table][]>();
+      return { data, error };
+    },
+    async update(table, id, patch) {
+      const { error } = await client
+        .from(table)
+        .update(patch as TableRows[typeof table])
+        .eq('id', id);
+      return { data: null, error };
+    },
+    async updateBatch(table, updates) {
+      // RPC update_<table>_batch (ดู Readme-Maintain)
+      const { error } = await client.rpc(`update_${table}_batch`, { updates });
+      return { data: null, error };
+    },
+    async remove(table, id) {
+      const { error } = await client.from(table).delete().eq('id', id);
+      return { data: null, error };
+    },
+    async upsert(table, rows, onConflict) {
+      const { error } = await client
+        .from(table)
+        .upsert(rows as TableRows[typeof table][], {
+          onConflict: onConflict.join(','),
+        });
+      return { data: null, error };
+    },
+    async commentUnreadCounts() {
+      // RPC comment_unread_counts (ดู Readme-Maintain)
+      const { data, error } = await client.rpc('comment_unread_counts');
+      return { data, error };
+    },
+    subscribe(tables, onChange) {
+      // ต้องเพิ่ม table ใน publication supabase_realtime ก่อน (ดู Readme-Maintain)
+      let channel = client.channel(`db-changes-${++channelCount}`);
+      for (const table of tables) {
+        channel = channel.on<{ id: string }>(
+          'postgres_changes',
+          { event: '*', schema: 'public', table },
+          (payload) => {
+            const deleted = payload.eventType === 'DELETE';
+            const row = deleted ? null : payload.new;
+            onChange({
+              table,
+              type: payload.eventType,
+              row,
+              id: (deleted ? payload.old.id : row.id) ?? null,
+            } as RowChange);
+          },
+        );
+      }
+      channel.subscribe();
+      return () => {
+        client.removeChannel(channel);
+      };
+    },
+    async uploadFile(bucket, path, file, contentType) {
+      const { error } = await client.storage
+        .from(bucket)
+        .upload(path, file, { contentType, upsert: false });
+      return { data: null, error };
+    },
+    async removeFiles(bucket, paths) {
+      const { error } = await client.storage.from(bucket).remove(paths);
+      return { data: null, error };
+    },
+    async signedUrl(bucket, path, expiresIn, download) {
+      const { data, error } = await client.storage
+        .from(bucket)
+        .createSignedUrl(path, expiresIn, download ? { download } : undefined);
+      return { data: data?.signedUrl ?? null, error };
+    },
+  };
+}
+
+// ====== errors ======
+
+// network = ต่อ server ไม่ได้ (เข้าคิว offline ได้), backend = server ปฏิเสธ
+export type RepositoryErrorKind = 'validation' | 'backend' | 'network';
+
+export class RepositoryError extends Error {
+  op: string; // เช่น "tasks.update"
+  kind: RepositoryErrorKind;
+  details: string | null;
+  hint: string | null;
+  code: string | null;
+
+  constructor(
+    op: string,
+    kind: RepositoryErrorKind,
+    message: string,
+    extra: Omit<BackendError, 'message'> = {},
+  ) {
+    super(message);
+    this.name = 'RepositoryError';
+    this.op = op;
+    this.kind = kind;
+    this.details = extra.details ?? null;
+    this.hint = extra.hint ?? null;
+    this.code = extra.code ?? null;
+  }
+}
+
+export interface RepoResult<T> {
+  data: T | null;
+  error: RepositoryError | null;
+  queued?: boolean; // offline: เก็บในคิวแล้ว จะส่งเมื่อต่อเน็ตได้
+}
+
+// log แบบเดียวกันทุกที่ (แทน console.error + (error as any).details ที่ copy กันไปมา)
+export function logRepositoryError(label: string, error: unknown) {
+  if (error instanceof RepositoryError) {
+    console.error(label, {
+      op: error.op,
+      message: error.message,
+      details: error.details,
+      hint: error.hint,
+    });
+  } else {
+    console.error(label, error);
+  }
+}
+
+const ok = <T>(data: T): RepoResult<T> => ({ data, error: null });
+
+const fail = <T>(
+  op: string,
+  kind: RepositoryErrorKind,
+  message: string,
+  extra?: Omit<BackendError, 'message'>,
+): RepoResult<T> => ({
+  data: null,
+  error: new RepositoryError(op, kind, message, extra),
+});
+
+// fetch ล้มเหลว (supabase-js คืนเป็น error message ไม่ได้ throw)
+const NETWORK_ERROR =
+  /failed to fetch|networkerror|network request failed|load failed|fetch failed/i;
+
+const errorKind = (message: string): RepositoryErrorKind =>
+  NETWORK_ERROR.test(message) ||
+  (typeof navigator !== 'undefined' && navigator.onLine === false)
+    ? 'network'
+    : 'backend';
+
+// error จาก backend / exception → RepositoryError
+async function run<T>(
+  op: string,
+  call: () => Promise<BackendResult<T>>,
+): Promise<RepoResult<T>> {
+  try {
+    const { data, error } = await call();
+    if (error) {
+      const message = error.message || 'Unknown database error';
+      return fail(op, errorKind(message), message, {
+        details: error.details,
+        hint: error.hint,
+        code: error.code,
+      });
+    }
+    return ok(data as T);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return fail(op, errorKind(message), message);
+  }
+}
+
+// ====== tasks: validation + row building ======
+
+export type TaskChanges = Partial<Omit<Task, 'id'>>;
+
+const TASK_COLUMNS: (keyof TaskChanges)[] = [
+  'name',
+  'description',
+  'start_date',
+  'end_date',
+  'status',
+  'priority',
+  'progress',
+  'assignee',
+  'is_recurring',
+  'recurring_type',
+  'recurring_interval',
+  'recurring_unit',
+  'dependencies',
+  'team_id',
+  'parent_id',
+  'work_type',
+  'is_milestone',
+  'sort_order',
+];
+
+const STATUSES: Task['status'][] = [
+  'To Do',
+  'In Progress',
+  'Blocked',
+  'In problem Need Help',
+  'Done',
+];
+const PRIORITIES: Task['priority'][] = ['Low', 'Medium', 'High'];
+const RECURRING_TYPES = ['none', 'weekly', 'monthly', 'quarterly', 'custom'];
+const RECURRING_UNITS = ['day', 'week', 'month', 'year'];
+
+const isIsoDate = (v: unknown) =>
+  typeof v === 'string' &&
+  /^\d{4}-\d{2}-\d{2}$/.test(v) &&
+  !Number.isNaN(Date.parse(`${v}T00:00:00Z`));
+
+/**
+ * เก็บเฉพาะ column ของ tasks + normalize ค่าว่าง (assignee '' → null)
+ * คืนข้อความ error ถ้าค่าไม่ถูกต้อง
+ */
+export function cleanTaskChanges(
+  changes: Partial<Task>,
+  taskId?: string,
+): TaskChanges | string {
+  const source: TaskChanges = changes;
+  const row: TaskChanges = {};
+  const copy = <K extends keyof TaskChanges>(key: K) => {
+    row[key] = source[key];
+  };
+  for (const key of TASK_COLUMNS) {
+    if (key in changes) copy(key);
+  }
+
+  if ('name' in row) {
+    if (typeof row.name !== 'string' || !row.name.trim()) {
+      return 'Task name is required.';
+    }
+    row.name = row.name.trim();
+  }
+  for (const key of ['start_date', 'end_date'] as const) {
+    if (key in row) {
+      if (row[key] === '' || row[key] === undefined) row[key] = null;
+      if (row[key] !== null && !isIsoDate(row[key])) {
+        return `Invalid ${key.replace('_', ' ')}: ${row[key]}`;
+      }
+    }
+  }
+  if ('status' in row && !STATUSES.includes(row.status)) {
+    return `Unknown status: ${row.status}`;
+  }
+  if ('priority' in row && !PRIORITIES.includes(row.priority)) {
+    return `Unknown priority: ${row.priority}`;
+  }
+  if ('progress' in row) {
+    const p = Number(row.progress);
+    if (!Number.isFinite(p) || p < 0 || p > 100) {
+      return 'Progress must be between 0 and 100.';
+    }
+    row.progress = Math.round(p);
+  }
+  if ('assignee' in row && !row.assignee) row.assignee = null;
+  if ('parent_id' in row) {
+    if (!row.parent_id) row.parent_id = null;
+    if (taskId && row.parent_id === taskId) {
+      return 'A task cannot be its own parent.';
+    }
+  }
+  if (
+    'recurring_type' in row &&
+    row.recurring_type != null &&
+    !RECURRING_TYPES.includes(row.recurring_type)
+  ) {
+    return `Unknown recurrence: ${row.recurring_type}`;
+  }
+  if (
+    'recurring_unit' in row &&
+    row.recurring_unit != null &&
+    !RECURRING_UNITS.includes(row.recurring_unit)
+  ) {
+    return `Unknown recurrence unit: ${row.recurring_unit}`;
+  }
+  return row;
+}
+
+/**
+ * row สำหรับ insert task ใหม่: ใส่ค่า default ให้ครบทุก column
+ * (ใช้ร่วมกันทั้งสร้างใหม่ / duplicate / สร้างรอบของงานที่ทำซ้ำ)
+ */
+export function buildTaskRow(input: Partial<Task>): TaskChanges {
+  const recurring = input.is_recurring ?? false;
+  return {
+    name: input.name ?? '',
+    description: input.description ?? '',
+    start_date: input.start_date ?? null,
+    end_date: input.end_date ?? null,
+    status: input.status ?? 'To Do',
+    priority: input.priority ?? 'Medium',
+    progress: input.progress ?? 0,
+    assignee: input.assignee ?? null,
+    is_recurring: recurring,
+    recurring_type: recurring ? input.recurring_type ?? 'none' : 'none',
+    recurring_interval: recurring ? input.recurring_interval ?? 1 : null,
+    recurring_unit: recurring ? input.recurring_unit ?? 'month' : null,
+    dependencies: input.dependencies ?? '',
+    is_milestone: input.is_milestone ?? false,
+    team_id: input.team_id ?? null,
+    parent_id: input.parent_id ?? null,
+    work_type: input.work_type ?? 'routine',
+  };
+}
+
+// ====== repository ======
+
+// echo ที่รอได้มากสุด (ไม่มี watcher รับ echo = ไม่โตไม่สิ้นสุด)
+const MAX_PENDING_ECHOES = 500;
+
+// realtime ที่คาดว่าจะได้จากการเขียนของเราเอง
+interface PendingEcho {
+  table: TableName;
+  type: RowChange['type'];
+  id: string;
+  values: object | null; // ค่าที่เขียนไป (DELETE = null)
+}
+
+export interface ReplayReport {
+  applied: number;
+  remaining: number; // ยังต่อไม่ได้ (รอรอบหน้า)
+  conflicts: string[];
+  failed: string[];
+}
+
+type Watcher = (change: RowChange & { local: boolean }) => void;
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * uuid v4 สำหรับ id ที่สร้างฝั่ง client (task ตอน offline, path ไฟล์แนบ)
+ * crypto.randomUUID มีเฉพาะ secure context (https / localhost) → ประกอบเองจาก getRandomValues
+ */
+export function newId(): string {
+  const c = typeof crypto !== 'undefined' ? crypto : undefined;
+  if (c?.randomUUID) return c.randomUUID();
+  if (!c?.getRandomValues) {
+    throw new Error('This browser cannot generate random ids (no Web Crypto).');
+  }
+  const bytes = c.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40; // version 4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // variant 10xx
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join(
+    '',
+  );
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join('-');
+}
+
+// ชื่อ lock ของ replay (Web Locks: กันหลาย tab ส่งคิวเดียวกันซ้ำ)
+const REPLAY_LOCK = 'work-tracker-write-queue';
+
+// ใส่ write ที่ยังค้างในคิวทับข้อมูลจาก server (reload ระหว่าง offline ไม่ทำให้ของที่แก้หาย)
+function applyPending(rows: Task[], pending: QueuedWrite[]): Task[] {
+  let result = rows;
+  for (const w of pending) {
+    if (w.op === 'remove') {
+      result = result.filter((t) => t.id !== w.id);
+    } else if (w.op === 'update') {
+      result = result.map((t) =>
+        t.id === w.id ? { ...t, ...w.changes } : t,
+      );
+    } else if (w.op === 'batch') {
+      for (const u of w.updates || []) {
+        result = result.map((t) =>
+          t.id === u.id ? { ...t, ...u.changes } : t,
+        );
+      }
+    } else if (!result.some((t) => t.id === w.id)) {
+      result = [...result, { ...w.changes, id: w.id } as Task];
+    }
+  }
+  return result;
+}
+
+// field ที่คนอื่นแก้ระหว่าง offline (ค่าบน server ไม่ใช่ทั้งค่าเดิมและค่าที่เราแก้)
+function clashingFields(u: QueuedUpdate, server: Task) {
+  const keys = Object.keys(u.changes || {}) as (keyof TaskChanges)[];
+  return keys.filter(
+    (k) =>
+      u.base &&
+      k in u.base &&
+      !sameValue(server[k], u.base[k]) &&
+      !sameValue(server[k], u.changes[k]),
+  );
+}
+
+/**
+ * queue = ที่เก็บคิว offline; ไม่ส่งมา = เขียนไม่สำเร็จก็คืน error ทันที
+ * ทุกการเขียน task แจ้ง watcher ทันที (optimistic) แล้ว rollback ถ้า server ปฏิเสธ
+ */
+export function createRepository(
+  backend: DataBackend,
+  queue?: WriteQueueStore,
+) {
+  // echo ของเราเอง = แถวเดียวกัน + ค่าตรงกับที่เราเขียน (ไม่ดูเวลา:
+  // คนอื่นแก้แถวเดียวกันตามหลังมาติด ๆ ก็ยังนับเป็นของเขา)
+  const echoes: PendingEcho[] = [];
+  const forgetEcho = (echo: PendingEcho) => {
+    const i = echoes.indexOf(echo);
+    if (i >= 0) echoes.splice(i, 1);
+  };
+  const isOwnEcho = (change: RowChange) => {
+    const echo = echoes.find(
+      (e) =>
+        e.table === change.table &&
+        e.type === change.type &&
+        e.id === change.id &&
+        (!e.values ||
+          (!!change.row &&
+            Object.entries(e.values).every(([k, v]) =>
+              sameValue((change.row as object as Row)[k], v),
+            ))),
+    );
+    if (echo) forgetEcho(echo);
+    return !!echo;
+  };
+  // ลงทะเบียน echo ก่อนส่ง (realtime อาจมาก่อนคำตอบ) แล้วทิ้งถ้าเขียนไม่สำเร็จ
+  const expectEcho = async <T>(
+    expected: PendingEcho[],
+    call: () => Promise<RepoResult<T>>,
+  ): Promise<RepoResult<T>> => {
+    echoes.push(...expected);
+    echoes.splice(0, Math.max(0, echoes.length - MAX_PENDING_ECHOES));
+    const res = await call();
+    if (res.error) expected.forEach(forgetEcho);
+    return res;
+  };
+
+  // ค่าล่าสุดของ task ที่รู้ (จาก list / realtime / optimistic) ไว้ rollback
+  const known = new Map<string, Task>();
+  const track = (change: RowChange) => {
+    if (change.table !== 'tasks' || !change.id) return;
+    if (change.row) known.set(change.id, change.row);
+    else known.delete(change.id);
+  };
+
+  const watchers = new Set<Watcher>();
+  const emitLocal = (change: RowChange) => {
+    track(change);
+    watchers.forEach((w) => w({ ...change, local: true }));
+  };
+
+  // แสดงค่าใหม่ทันที (optimistic) แล้วคืน write ที่ใช้เข้าคิว / rollback
+  const applyLocalUpdate = (id: string, row: TaskChanges) => {
+    const before = known.get(id);
+    if (before) {
+      emitLocal({
+        table: 'tasks',
+        type: 'UPDATE',
+        row: { ...before, ...row },
+        id,
+      });
+    }
+    const keys = Object.keys(row) as (keyof TaskChanges)[];
+    const base = before
+      ? (Object.fromEntries(
+          keys.map((k) => [k, before[k] ?? null]),
+        ) as TaskChanges)
+      : undefined;
+    return {
+      op: 'update' as const,
+      id,
+      name: before?.name || id,
+      changes: row,
+      base,
+    };
+  };
+
+  // rollback เฉพาะ field ที่เราแก้ (field อื่นอาจมีคนแก้มาแล้ว)
+  const rollbackUpdate = (write: ReturnType<typeof applyLocalUpdate>) => {
+    const current = known.get(write.id);
+    if (current && write.base) {
+      emitLocal({
+        table: 'tasks',
+        type: 'UPDATE',
+        row: { ...current, ...write.base },
+        id: write.id,
+      });
+    }
+  };
+
+  // ====== offline queue ======
+  // คิวเป็นของผู้ใช้ที่ login อยู่ (ยังไม่รู้ว่าเป็นใคร = ไม่เข้าคิว)
+  let userId: string | null = null;
+  let pending: QueuedWrite[] = [];
+  let queueLoaded: Promise<void> | null = null;
+  const queueListeners = new Set<(count: number) => void>();
+  const notifyQueue = () => queueListeners.forEach((l) => l(pending.length));
+  const reloadQueue = async () => {
+    const user = userId;
+    if (!queue || !user) return;
+    try {
+      const rows = await queue.load(user);
+      if (user === userId) pending = rows;
+    } catch (err) {
+      logRepositoryError('write queue load error:', err);
+    }
+    notifyQueue();
+  };
+  const loadQueue = () => (queueLoaded = queueLoaded || reloadQueue());
+
+  /**
+   * เก็บ write ลงคิว (แสดงผลไปแล้ว); เก็บไม่ได้ = undo ที่แสดงไป แล้วคืน error
+   * เพราะถ้าปิดหน้าไปการแก้นี้จะหายเงียบ ๆ
+   */
+  const enqueue = async <T>(
+    op: string,
+    writes: Omit<QueuedWrite, 'seq' | 'user_id' | 'queuedAt'>[],
+    data: T,
+    undo: () => void,
+  ): Promise<RepoResult<T>> => {
+    const added: QueuedWrite[] = [];
+    try {
+      for (const write of writes) {
+        added.push(
+          await queue!.add({
+            ...write,
+            user_id: userId!,
+            queuedAt: new Date().toISOString(),
+          }),
+        );
+      }
+    } catch (err) {
+      logRepositoryError('write queue save error:', err);
+      await Promise.all(added.map((w) => queue!.delete(w.seq))).catch(
+        () => undefined,
+      );
+      undo();
+      const message = err instanceof Error ? err.message : String(err);
+      return fail(op, 'network', `Offline and cannot queue change: ${message}`);
+    }
+    pending = [...pending, ...added];
+    notifyQueue();
+    return { data, error: null, queued: true };
+  };
+
+  const dequeue = async (seq: number) => {
+    pending = pending.filter((w) => w.seq !== seq);
+    notifyQueue();
+    try {
+      await queue!.delete(seq);
+    } catch (err) {
+      logRepositoryError('write queue delete error:', err);
+    }
+  };
+
+  // มีคิวค้าง = เขียนต่อท้ายคิว (รักษาลำดับ) / เน็ตหลุด = เข้าคิว
+  const shouldQueue = (error: RepositoryError | null) =>
+    !!queue && !!userId && (pending.length > 0 || error?.kind === 'network');
+
+  const tasks = {
+    async list(): Promise<RepoResult<Task[]>> {
+      const res = await run('tasks.list', () =>
+        backend.select('tasks', {
+          orderBy: { column: 'start_date', ascending: true },
+        }),
+      );
+      if (res.error) return res;
+      await loadQueue();
+      const rows = applyPending(res.data || [], pending);
+      known.clear();
+      rows.forEach((t) => known.set(t.id, t));
+      return ok(rows);
+    },
+
+    // id ระบุเองได้เฉพาะตอนสร้างคืนจาก history (input.id ไม่ใช้ เช่นตอน duplicate)
+    async create(
+      input: Partial<Task>,
+      id = newId(),
+    ): Promise<RepoResult<Task>> {
+      const cleaned = cleanTaskChanges(buildTaskRow(input));
+      if (typeof cleaned === 'string') {
+        return fail('tasks.create', 'validation', cleaned);
+      }
+      const row = { ...cleaned, id } as Task;
+      emitLocal({ table: 'tasks', type: 'INSERT', row, id });
+      const undo = () =>
+        emitLocal({ table: 'tasks', type: 'DELETE', row: null, id });
+      const write = {
+        op: 'create' as const,
+        id,
+        name: row.name,
+        changes: cleaned,
+      };
+
+      await loadQueue();
+      if (shouldQueue(null)) {
+        return enqueue('tasks.create', [write], row, undo);
+      }
+      const res = await expectEcho(
+        [{ table: 'tasks', type: 'INSERT', id, values: row }],
+        () => run('tasks.create', () => backend.insert('tasks', [row])),
+      );
+      if (res.error) {
+        if (shouldQueue(res.error)) {
+          return enqueue('tasks.create', [write], row, undo);
+        }
+        undo();
+        return { data: null, error: res.error };
+      }
+      return ok(res.data?.[0] ?? null);
+    },
+
+    async update(
+      id: string,
+      changes: Partial<Task>,
+    ): Promise<RepoResult<null>> {
+      const row = cleanTaskChanges(changes, id);
+      if (typeof row === 'string') {
+        return fail('tasks.update', 'validation', row);
+      }
+      if (!Object.keys(row).length) return ok(null);
+
+      const write = applyLocalUpdate(id, row);
+      const undo = () => rollbackUpdate(write);
+      await loadQueue();
+      if (shouldQueue(null)) {
+        return enqueue('tasks.update', [write], null, undo);
+      }
+      const res = await expectEcho(
+        [{ table: 'tasks', type: 'UPDATE', id, values: row }],
+        () => run('tasks.update', () => backend.update('tasks', id, row)),
+      );
+      if (!res.error) return res;
+      if (shouldQueue(res.error)) {
+        return enqueue('tasks.update', [write], null, undo);
+      }
+      undo();
+      return res;
+    },
+
+    /**
+     * แก้หลาย task ใน transaction เดียว (เลื่อนหลายตัว / undo ทั้งชุด)
+     * server ปฏิเสธตัวไหน = ไม่มีตัวไหนเปลี่ยน และ rollback ทุกตัวที่แสดงไปแล้ว
+     * ตอน offline เข้าคิวเป็น write เดียว แล้ว replay ทั้งชุดผ่าน update_tasks_batch
+     */
+    async updateBatch(
+      updates: { id: string; changes: Partial<Task> }[],
+    ): Promise<RepoResult<null>> {
+      const rows: { id: string; patch: TaskChanges }[] = [];
+      for (const u of updates) {
+        const row = cleanTaskChanges(u.changes, u.id);
+        if (typeof row === 'string') {
+          return fail('tasks.updateBatch', 'validation', row);
+        }
+        if (Object.keys(row).length) rows.push({ id: u.id, patch: row });
+      }
+      if (!rows.length) return ok(null);
+
+      const writes = rows.map((r) => applyLocalUpdate(r.id, r.patch));
+      const undo = () => writes.forEach(rollbackUpdate);
+      const batch = {
+        op: 'batch' as const,
+        id: writes[0].id,
+        name:
+          writes.length > 1
+            ? `${writes[0].name} (+${writes.length - 1} tasks)`
+            : writes[0].name,
+        updates: writes.map(({ id, name, changes, base }) => ({
+          id,
+          name,
+          changes,
+          base,
+        })),
+      };
+      const queueAll = () => enqueue('tasks.updateBatch', [batch], null, undo);
+      await loadQueue();
+      if (shouldQueue(null)) return queueAll();
+      const res = await expectEcho(
+        rows.map((r) => ({
+          table: 'tasks' as const,
+          type: 'UPDATE' as const,
+          id: r.id,
+          values: r.patch,
+        })),
+        () =>
+          run('tasks.updateBatch', () => backend.updateBatch('tasks', rows)),
+      );
+      if (!res.error) return res;
+      if (shouldQueue(res.error)) return queueAll();
+      undo();
+      return res;
+    },
+
+    async remove(id: string): Promise<RepoResult<null>> {
+      const before = known.get(id);
+      emitLocal({ table: 'tasks', type: 'DELETE', row: null, id });
+      const write = { op: 'remove' as const, id, name: before?.name || id };
+      const undo = () => {
+        if (before) {
+          emitLocal({ table: 'tasks', type: 'INSERT', row: before, id });
+        }
+      };
+
+      await loadQueue();
+      if (shouldQueue(null)) {
+        return enqueue('tasks.remove', [write], null, undo);
+      }
+      const res = await expectEcho(
+        [{ table: 'tasks', type: 'DELETE', id, values: null }],
+        () => run('tasks.remove', () => backend.remove('tasks', id)),
+      );
+      if (!res.error) return res;
+      if (shouldQueue(res.error)) {
+        return enqueue('tasks.remove', [write], null, undo);
+      }
+      undo();
+      return res;
+    },
+  };
+
+  const profiles = {
+    list: () =>
+      run('profiles.list', () =>
+        backend.select('profiles', {
+          orderBy: { column: 'display_name', ascending: true },
+        }),
+      ),
+
+    async findBy(
+      column: 'id' | 'email',
+      value: string,
+    ): Promise<RepoResult<Profile | null>> {
+      const res = await run('profiles.find', () =>
+        backend.select('profiles', { match: { [column]: value }, limit: 1 }),
+      );
+      if (res.error) return { data: null, error: res.error };
+      return ok(res.data?.[0] ?? null);
+    },
+
+    // role ใช้ default ของ DB ('user')
+    async create(
+      profile: Pick<Profile, 'id' | 'email' | 'display_name'>,
+    ): Promise<RepoResult<Profile>> {
+      if (!profile.id || !profile.email) {
+        return fail(
+          'profiles.create',
+          'validation',
+          'Profile needs an id and email.',
+        );
+      }
+      const res = await expectEcho(
+        [
+          {
+            table: 'profiles',
+            type: 'INSERT',
+            id: profile.id,
+            values: profile,
+          },
+        ],
+        () =>
+          run('profiles.create', () => backend.insert('profiles', [profile])),
+      );
+      if (res.error) return { data: null, error: res.error };
+      return ok(res.data?.[0] ?? null);
+    },
+  };
+
+  const teams = {
+    list: () =>
+      run('teams.list', () =>
+        backend.select('teams', {
+          orderBy: { column: 'name', ascending: true },
+        }),
+      ),
+  };
+
+  // ปฏิทินกลาง + override ของแต่ละทีม (RLS: เห็นเฉพาะทีมที่เห็นได้, แก้ตาม can_edit_calendar)
+  const calendars = {
+    list: () =>
+      run('calendars.list', () => backend.select('work_calendars')),
+
+    save: (rows: WorkCalendarRowInput[]) =>
+      run('calendars.save', () =>
+        backend.upsert('work_calendars', rows, ['id']),
+      ),
+  };
+
+  // snapshot วันที่ / progress ไว้เทียบ planned vs actual (RLS: ทีมของคนสร้าง)
+  const baselines = {
+    list: () =>
+      run('baselines.list', () =>
+        backend.select('task_baselines', {
+          orderBy: { column: 'created_at', ascending: false },
+        }),
+      ),
+
+    items: (baselineId: string) =>
+      run('baselines.items', () =>
+        backend.select('task_baseline_items', {
+          match: { baseline_id: baselineId },
+        }),
+      ),
+
+    // header ก่อนแล้วค่อย items; items ไม่ผ่าน = ลบ header ทิ้ง (ไม่เก็บ baseline ว่าง ๆ)
+    async create(name: string, list: Task[]): Promise<RepoResult<Baseline>> {
+      if (!name.trim()) {
+        return fail(
+          'baselines.create',
+          'validation',
+          'Baseline name is required.',
+        );
+      }
+      const res = await run('baselines.create', () =>
+        backend.insert('task_baselines', [{ name: name.trim() }]),
+      );
+      if (res.error) return { data: null, error: res.error };
+      const baseline = res.data?.[0];
+      if (!baseline) {
+        return fail('baselines.create', 'backend', 'Baseline was not saved.');
+      }
+      if (!list.length) return ok(baseline);
+
+      const items = await run('baselines.create', () =>
+        backend.insert(
+          'task_baseline_items',
+          list.map((t) => ({
+            baseline_id: baseline.id,
+            task_id: t.id,
+            start_date: t.start_date,
+            end_date: t.end_date,
+            progress: t.progress ?? 0,
+          })),
+        ),
+      );
+      if (!items.error) return ok(baseline);
+      const cleanup = await run('baselines.create', () =>
+        backend.remove('task_baselines', baseline.id),
+      );
+      if (cleanup.error) {
+        logRepositoryError('baseline cleanup error:', cleanup.error);
+      }
+      return { data: null, error: items.error };
+    },
+  };
+
+  // ประวัติเขียนโดย trigger ใน DB อย่างเดียว ฝั่ง client อ่านได้อย่างเดียว
+  const activity = {
+    forTask: (taskId: string, limit = 100) =>
+      run('activity.forTask', () =>
+        backend.select('task_activity', {
+          match: { task_id: taskId },
+          orderBy: { column: 'id', ascending: false },
+          limit,
+        }),
+      ),
+
+    recent: (limit = 200) =>
+      run('activity.recent', () =>
+        backend.select('task_activity', {
+          orderBy: { column: 'id', ascending: false },
+          limit,
+        }),
+      ),
+  };
+
+  // comment ไม่เข้าคิว offline (ต้องเห็นว่าโพสต์ได้จริงก่อน)
+  const checkCommentBody = (op: string, body: string) => {
+    if (!body.trim()) {
+      return fail<never>(op, 'validation', 'Comment is empty.');
+    }
+    if (body.length > COMMENT_MAX_LENGTH) {
+      return fail<never>(
+        op,
+        'validation',
+        `Comment is too long (max ${COMMENT_MAX_LENGTH} characters).`,
+      );
+    }
+    return null;
+  };
+
+  const comments = {
+    forTask: (taskId: string) =>
+      run('comments.forTask', () =>
+        backend.select('task_comments', {
+          match: { task_id: taskId },
+          orderBy: { column: 'created_at', ascending: true },
+        }),
+      ),
+
+    async create(
+      comment: Pick<
+        TaskComment,
+        'task_id' | 'author_id' | 'body' | 'mentions'
+      >,
+    ): Promise<RepoResult<TaskComment>> {
+      const invalid = checkCommentBody('comments.create', comment.body);
+      if (invalid) return invalid;
+      const res = await run('comments.create', () =>
+        backend.insert('task_comments', [
+          { ...comment, body: comment.body.trim() },
+        ]),
+      );
+      if (res.error) return { data: null, error: res.error };
+      return ok(res.data?.[0] ?? null);
+    },
+
+    // RLS ให้แก้ / ลบได้เฉพาะ comment ของตัวเอง; updated_at ใส่โดย trigger ใน DB
+    async update(
+      id: string,
+      changes: Pick<TaskComment, 'body' | 'mentions'>,
+    ): Promise<RepoResult<null>> {
+      const invalid = checkCommentBody('comments.update', changes.body);
+      if (invalid) return invalid;
+      return run('comments.update', () =>
+        backend.update('task_comments', id, {
+          body: changes.body.trim(),
+          mentions: changes.mentions,
+        }),
+      );
+    },
+
+    remove: (id: string) =>
+      run('comments.remove', () => backend.remove('task_comments', id)),
+
+    // readAt = created_at ของ comment ล่าสุดที่เห็น (เวลาฝั่ง server ไม่ขึ้นกับนาฬิกาเครื่อง)
+    markRead: (taskId: string, userId: string, readAt: string) =>
+      run('comments.markRead', () =>
+        backend.upsert(
+          'task_comment_reads',
+          [{ task_id: taskId, user_id: userId, last_read_at: readAt }],
+          ['task_id', 'user_id'],
+        ),
+      ),
+
+    // ของผู้ใช้ที่ login อยู่ (auth.uid() ฝั่ง DB)
+    async unread(): Promise<RepoResult<Record<string, UnreadInfo>>> {
+      const res = await run('comments.unread', () =>
+        backend.commentUnreadCounts(),
+      );
+      if (res.error) return { data: null, error: res.error };
+      const result: Record<string, UnreadInfo> = {};
+      (res.data || []).forEach((r) => {
+        result[r.task_id] = { count: r.unread, mentioned: r.mentioned };
+      });
+      return ok(result);
+    },
+
+    // realtime ของ comment ทุก task (แยกจาก watch: ใช้เฉพาะที่แสดง comment / unread)
+    watch: (onChange: (change: RowChange) => void) =>
+      backend.subscribe(['task_comments'], onChange),
+  };
+
+  const attachments = {
+    forTask: (taskId: string) =>
+      run('attachments.forTask', () =>
+        backend.select('task_attachments', {
+          match: { task_id: taskId },
+          orderBy: { column: 'created_at', ascending: true },
+        }),
+      ),
+
+    /**
+     * upload ไฟล์แล้วบันทึกแถวใน task_attachments
+     * ถ้าบันทึกแถวไม่ได้ ลบไฟล์ที่เพิ่ง upload ทิ้ง (ไม่ให้มีไฟล์กำพร้า)
+     */
+    async upload(
+      taskId: string,
+      file: File,
+      existingCount = 0,
+    ): Promise<RepoResult<TaskAttachment>> {
+      const invalid = checkAttachment(file);
+      if (invalid) return fail('attachments.upload', 'validation', invalid);
+      if (existingCount >= MAX_ATTACHMENTS_PER_TASK) {
+        return fail(
+          'attachments.upload',
+          'validation',
+          `A task can have at most ${MAX_ATTACHMENTS_PER_TASK} attachments.`,
+        );
+      }
+
+      const mimeType = attachmentMimeType(file.name, file.type);
+      const path = `${taskId}/${newId()}-${safeFileName(file.name)}`;
+      const uploaded = await run('attachments.upload', () =>
+        backend.uploadFile(ATTACHMENT_BUCKET, path, file, mimeType),
+      );
+      if (uploaded.error) return { data: null, error: uploaded.error };
+
+      const res = await run('attachments.upload', () =>
+        backend.insert('task_attachments', [
+          {
+            task_id: taskId,
+            path,
+            name: file.name,
+            size: file.size,
+            mime_type: mimeType,
+          },
+        ]),
+      );
+      if (res.error) {
+        await backend.removeFiles(ATTACHMENT_BUCKET, [path]);
+        return { data: null, error: res.error };
+      }
+      return ok(res.data?.[0] ?? null);
+    },
+
+    // ลบแถวก่อน (RLS ตรวจสิทธิ์) แล้วค่อยลบไฟล์
+    async remove(attachment: TaskAttachment): Promise<RepoResult<null>> {
+      const res = await run('attachments.remove', () =>
+        backend.remove('task_attachments', attachment.id),
+      );
+      if (res.error) return res;
+      const removed = await run('attachments.remove', () =>
+        backend.removeFiles(ATTACHMENT_BUCKET, [attachment.path]),
+      );
+      // ลบไฟล์ไม่สำเร็จก็ไม่เป็นไร: path เข้า task_attachment_orphans แล้ว server ลบตามให้
+      if (removed.error) {
+        logRepositoryError('attachment file remove error:', removed.error);
+      }
+      return ok(null);
+    },
+
+    // download = บังคับดาวน์โหลดด้วยชื่อไฟล์เดิม (ไม่เปิดใน browser)
+    url: (attachment: TaskAttachment, download = false) =>
+      run('attachments.url', () =>
+        backend.signedUrl(
+          ATTACHMENT_BUCKET,
+          attachment.path,
+          ATTACHMENT_URL_TTL,
+          download ? attachment.name : undefined,
+        ),
+      ),
+  };
+
+  /**
+   * ติดตามการเปลี่ยนแปลงของ tasks / profiles / teams แบบ realtime
+   * local = echo ของการเขียนของเราเอง (แถว + ค่าตรงกับที่ส่งไป)
+   */
+  // subscription เดียวใช้ร่วมกันทุก watcher (echo ถูกจับคู่ครั้งเดียวต่อ change)
+  let unsubscribeBackend: (() => void) | null = null;
+  const watch = (onChange: Watcher) => {
+    watchers.add(onChange);
+    unsubscribeBackend =
+      unsubscribeBackend ||
+      backend.subscribe(['tasks', 'profiles', 'teams'], (change) => {
+        track(change);
+        const local = isOwnEcho(change);
+        watchers.forEach((w) => w({ ...change, local }));
+      });
+    return () => {
+      watchers.delete(onChange);
+      if (!watchers.size && unsubscribeBackend) {
+        unsubscribeBackend();
+        unsubscribeBackend = null;
+      }
+    };
+  };
+
+  // ====== replay คิว offline ตามลำดับ ======
+  let replaying: Promise<ReplayReport> | null = null;
+
+  // tab อื่นใช้คิวเดียวกัน → replay ทีละ tab และอ่านคิวใหม่จาก store ทุกครั้ง
+  // (browser ที่ไม่มี Web Locks กันซ้อนได้แค่ใน tab เดียว)
+  const withReplayLock = <T>(task: () => Promise<T>): Promise<T> =>
+    typeof navigator !== 'undefined' && navigator.locks
+      ? navigator.locks.request(REPLAY_LOCK, task)
+      : task();
+
+  const replayQueue = async (): Promise<ReplayReport> => {
+    const user = userId;
+    await reloadQueue();
+    const report: ReplayReport = {
+      applied: 0,
+      remaining: 0,
+      conflicts: [],
+      failed: [],
+    };
+
+    // logout ระหว่าง replay = หยุด (คิวเป็นของคนเดิม)
+    while (pending.length && user === userId) {
+      const w = pending[0];
+      let res: RepoResult<unknown>;
+
+      if (w.op === 'update') {
+        const current = await run('tasks.replay', () =>
+          backend.select('tasks', { match: { id: w.id }, limit: 1 }),
+        );
+        if (current.error?.kind === 'network') break;
+        const server = current.data?.[0];
+        if (current.error) {
+          res = current;
+        } else if (!server) {
+          report.conflicts.push(
+            `"${w.name}" was deleted while you were offline; your change was discarded.`,
+          );
+          await dequeue(w.seq);
+          continue;
+        } else {
+          // field ที่คนอื่นแก้ระหว่าง offline → เก็บของเขาไว้
+          const clashing = clashingFields(
+            { id: w.id, name: w.name, changes: w.changes, base: w.base },
+            server,
+          );
+          if (clashing.length) {
+            report.conflicts.push(
+              `"${w.name}": ${clashing.join(', ')} changed by someone else while you were offline; kept their version.`,
+            );
+          }
+          const apply: TaskChanges = { ...w.changes };
+          clashing.forEach((k) => delete apply[k]);
+          res = Object.keys(apply).length
+            ? await expectEcho(
+                [{ table: 'tasks', type: 'UPDATE', id: w.id, values: apply }],
+                () =>
+                  run('tasks.replay', () =>
+                    backend.update('tasks', w.id, apply),
+                  ),
+              )
+            : ok(null);
+        }
+      } else if (w.op === 'batch') {
+        // ทั้งชุดหรือไม่เลย: มีแถวไหนถูกลบ / ถูกแก้ทับ = ทิ้งทั้งชุด
+        // (เข้าบางแถวจะได้ schedule ครึ่ง ๆ กลาง ๆ)
+        const updates = w.updates || [];
+        const conflicts: string[] = [];
+        let current: RepoResult<Task[]> = ok([]);
+        for (const u of updates) {
+          current = await run('tasks.replay', () =>
+            backend.select('tasks', { match: { id: u.id }, limit: 1 }),
+          );
+          if (current.error) break;
+          const server = current.data?.[0];
+          if (!server) {
+            conflicts.push(`"${u.name}" was deleted`);
+            continue;
+          }
+          const clashing = clashingFields(u, server);
+          if (clashing.length) {
+            conflicts.push(`"${u.name}": ${clashing.join(', ')} changed`);
+          }
+        }
+        if (current.error?.kind === 'network') break;
+        if (current.error) {
+          res = current;
+        } else if (conflicts.length) {
+          report.conflicts.push(
+            `"${w.name}": ${conflicts.join('; ')} while you were offline; the whole change was discarded.`,
+          );
+          await dequeue(w.seq);
+          continue;
+        } else {
+          const rows = updates.map((u) => ({ id: u.id, patch: u.changes }));
+          res = await expectEcho(
+            rows.map((r) => ({
+              table: 'tasks' as const,
+              type: 'UPDATE' as const,
+              id: r.id,
+              values: r.patch,
+            })),
+            () =>
+              run('tasks.replay', () => backend.updateBatch('tasks', rows)),
+          );
+        }
+      } else if (w.op === 'create') {
+        const row = { ...w.changes, id: w.id };
+        res = await expectEcho(
+          [{ table: 'tasks', type: 'INSERT', id: w.id, values: row }],
+          () => run('tasks.replay', () => backend.insert('tasks', [row])),
+        );
+        // ส่งไปแล้วแต่ไม่ได้คำตอบตอนเน็ตหลุด → มีอยู่แล้ว
+        if (res.error?.code === '23505') res = ok(null);
+      } else {
+        res = await expectEcho(
+          [{ table: 'tasks', type: 'DELETE', id: w.id, values: null }],
+          () => run('tasks.replay', () => backend.remove('tasks', w.id)),
+        );
+      }
+
+      if (res.error?.kind === 'network') break;
+      if (res.error) {
+        report.failed.push(`"${w.name}": ${res.error.message}`);
+        logRepositoryError('offline replay error:', res.error);
+      } else {
+        report.applied += 1;
+      }
+      await dequeue(w.seq);
+    }
+
+    report.remaining = pending.length;
+    return report;
+  };
+
+  const sync = {
+    pendingCount: () => pending.length,
+    // แจ้งจำนวน write ที่ค้างในคิวทุกครั้งที่เปลี่ยน
+    onPendingChange(listener: (count: number) => void) {
+      queueListeners.add(listener);
+      loadQueue().then(() => listener(pending.length));
+      return () => {
+        queueListeners.delete(listener);
+      };
+    },
+    // replay ซ้อนกันไม่ได้ (online event + timer อาจมาพร้อมกัน)
+    replay(): Promise<ReplayReport> {
+      replaying =
+        replaying ||
+        withReplayLock(replayQueue).finally(() => {
+          replaying = null;
+        });
+      return replaying;
+    },
+    // ผู้ใช้ที่ login อยู่ (null = ยังไม่รู้ / logout แล้ว) — คิวแยกตามผู้ใช้
+    setUser(id: string | null) {
+      if (id === userId) return;
+      userId = id;
+      pending = [];
+      queueLoaded = null;
+      notifyQueue();
+      if (id) loadQueue();
+    },
+    // logout: ทิ้งการแก้ที่ยังไม่ได้ส่งของผู้ใช้นี้ (เครื่องนี้อาจมีคนอื่นใช้ต่อ)
+    async clear() {
+      const user = userId;
+      sync.setUser(null);
+      if (!queue || !user) return;
+      try {
+        await queue.clear(user);
+      } catch (err) {
+        logRepositoryError('write queue clear error:', err);
+      }
+    },
+  };
+
+  return {
+    tasks,
+    profiles,
+    teams,
+    calendars,
+    baselines,
+    activity,
+    comments,
+    attachments,
+    watch,
+    sync,
+  };
+}
+
+export type Repository = ReturnType<typeof createRepository>;
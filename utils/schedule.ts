@@ -0,0 +1,489 @@
+// utils/schedule.ts
+import type { Task } from '../types';
+import { toDayNumber, fromDayNumber } from './dates';
+import {
+  addWorkingDays,
+  countWorkingDays,
+  type WorkCalendar,
+} from './workCalendar';
+
+// dependencies เก็บเป็น string "id1, id2"
+export function parseDependencies(raw: string | null | undefined): string[] {
+  if (!raw) return [];
+  return raw
+    .split(',')
+    .map((d) => d.trim())
+    .filter(Boolean);
+}
+
+// -------- Critical path (CPM backward pass on the stored dates) --------
+
+export interface CriticalPathInfo {
+  critical: boolean;
+  totalFloat: number; // days the task can slip before the final end date moves
+}
+
+/**
+ * Work out total float for every dated task from its finish-to-start
+ * dependencies. Tasks without dates, or caught in a dependency cycle,
+ * are left out of the result.
+ */
+export function computeCriticalPath(
+  tasks: Task[],
+): Record<string, CriticalPathInfo> {
+  const nodes: Record<string, { start: number; end: number }> = {};
+  for (const t of tasks) {
+    const start = toDayNumber(t.start_date) ?? toDayNumber(t.end_date);
+    const end = toDayNumber(t.end_date) ?? start;
+    if (start == null || end == null) continue;
+    nodes[t.id] = { start, end: Math.max(start, end) };
+  }
+
+  // successors[pred] = [task ที่รอ pred เสร็จก่อน]
+  const successors: Record<string, string[]> = {};
+  const pendingSuccessors: Record<string, number> = {};
+  for (const id of Object.keys(nodes)) {
+    successors[id] = [];
+    pendingSuccessors[id] = 0;
+  }
+  for (const t of tasks) {
+    if (!nodes[t.id]) continue;
+    for (const dep of parseDependencies(t.dependencies)) {
+      if (!nodes[dep] || dep === t.id) continue;
+      successors[dep].push(t.id);
+      pendingSuccessors[dep] += 1;
+    }
+  }
+
+  const ids = Object.keys(nodes);
+  if (!ids.length) return {};
+
+  const projectEnd = Math.max(...ids.map((id) => nodes[id].end));
+
+  // เดินจาก task ปลายทาง (ไม่มี successor) ย้อนกลับไปหา predecessor
+  const lateFinish: Record<string, number> = {};
+  const queue = ids.filter((id) => pendingSuccessors[id] === 0);
+  const predecessors: Record<string, string[]> = {};
+  for (const id of ids) {
+    for (const succ of successors[id]) {
+      (predecessors[succ] = predecessors[succ] || []).push(id);
+    }
+  }
+
+  while (queue.length) {
+    const id = queue.shift()!;
+    const node = nodes[id];
+
+    let lf = projectEnd;
+    for (const succ of successors[id]) {
+      const succLateStart =
+        lateFinish[succ] - (nodes[succ].end - nodes[succ].start);
+      lf = Math.min(lf, succLateStart - 1);
+    }
+    lateFinish[id] = lf;
+
+    for (const pred of predecessors[id] || []) {
+      pendingSuccessors[pred] -= 1;
+      if (pendingSuccessors[pred] === 0) queue.push(pred);
+    }
+  }
+
+  const result: Record<string, CriticalPathInfo> = {};
+  for (const id of Object.keys(lateFinish)) {
+    const totalFloat = lateFinish[id] - nodes[id].end;
+    result[id] = { critical: totalFloat <= 0, totalFloat };
+  }
+  return result;
+}
+
+// -------- Auto-schedule: push downstream dependents forward --------
+
+export interface ScheduleChange {
+  id: string;
+  name: string;
+  fromStart: string | null;
+  fromEnd: string | null;
+  start_date: string;
+  end_date: string;
+}
+
+/**
+ * ระยะเลื่อนจาก from → to (วันปฏิทิน หรือวันทำงานถ้ามี calendar, ติดลบ = ถอยหลัง)
+ */
+export function shiftDelta(
+  from: string,
+  to: string,
+  calendar?: WorkCalendar | null,
+  teamId?: string | null,
+): number {
+  const delta = toDayNumber(to)! - toDayNumber(from)!;
+  if (!calendar || delta === 0) return delta;
+  return delta > 0
+    ? countWorkingDays(
+        calendar,
+        fromDayNumber(toDayNumber(from)! + 1),
+        to,
+        teamId,
+      )
+    : -countWorkingDays(
+        calendar,
+        to,
+        fromDayNumber(toDayNumber(from)! - 1),
+        teamId,
+      );
+}
+
+/**
+ * เมื่อ task ถูกเลื่อนไป newStart/newEnd ให้เลื่อน task ที่พึ่งพามัน (ทุกชั้น)
+ * ไปข้างหน้าเท่ากัน และไม่ให้เริ่มก่อน predecessor จบ (finish-to-start).
+ * ถ้าส่ง calendar มา จะนับระยะเลื่อน/ความยาวงานเป็นวันทำงาน
+ * คืนค่า change ของทุก task ที่วันที่เปลี่ยน รวม task ที่ถูกลากด้วย
+ */
+export function planDependentShift(
+  tasks: Task[],
+  movedId: string,
+  newStart: string,
+  newEnd: string,
+  calendar?: WorkCalendar | null,
+): ScheduleChange[] {
+  const byId: Record<string, Task> = {};
+  for (const t of tasks) byId[t.id] = t;
+
+  const moved = byId[movedId];
+  if (!moved) return [];
+
+  const successors: Record<string, string[]> = {};
+  for (const t of tasks) {
+    for (const dep of parseDependencies(t.dependencies)) {
+      if (!byId[dep] || dep === t.id) continue;
+      (successors[dep] = successors[dep] || []).push(t.id);
+    }
+  }
+
+  const delta = shiftDelta(
+    moved.start_date ?? newStart,
+    newStart,
+    calendar,
+    moved.team_id,
+  );
+
+  // วันที่ใหม่ของ task ที่ถูกเลื่อนแล้ว
+  const planned: Record<string, { start: string; end: string }> = {
+    [movedId]: { start: newStart, end: newEnd },
+  };
+
+  const originalDates = (id: string) => {
+    const t = byId[id];
+    const start = t.start_date ?? t.end_date;
+    const end = t.end_date ?? start;
+    if (!start || !end) return null;
+    return { start, end };
+  };
+  const datesOf = (id: string) => planned[id] ?? originalDates(id);
+
+  // เลื่อนวันเริ่ม n วัน (วันปฏิทิน หรือวันทำงานถ้ามี calendar)
+  const shiftStart = (date: string, n: number, t: Task) =>
+    calendar
+      ? addWorkingDays(calendar, date, n, t.team_id)
+      : fromDayNumber(toDayNumber(date)! + n);
+
+  // วันจบใหม่ โดยคงความยาวงานเดิมไว้
+  const endFor = (
+    orig: { start: string; end: string },
+    start: string,
+    t: Task,
+  ) =>
+    calendar
+      ? addWorkingDays(
+          calendar,
+          start,
+          Math.max(
+            countWorkingDays(calendar, orig.start, orig.end, t.team_id) - 1,
+            0,
+          ),
+          t.team_id,
+        )
+      : fromDayNumber(
+          toDayNumber(start)! + toDayNumber(orig.end)! - toDayNumber(orig.start)!,
+        );
+
+  // เดินตาม successor; task ที่มีหลาย predecessor อาจถูกคำนวณซ้ำเมื่อ
+  // predecessor ตัวอื่นเลื่อน (จำกัดรอบกันวนไม่จบกรณี dependency เป็น cycle)
+  const queue = [...(successors[movedId] || [])];
+  let budget = tasks.length * tasks.length + 1;
+  while (queue.length && budget-- > 0) {
+    const id = queue.shift()!;
+    if (id === movedId) continue;
+
+    const original = originalDates(id);
+    if (!original) continue;
+    const t = byId[id];
+
+    let earliest =
+      delta > 0 ? shiftStart(original.start, delta, t) : original.start;
+    for (const dep of parseDependencies(t.dependencies)) {
+      if (!byId[dep]) continue;
+      const predDates = datesOf(dep);
+      if (!predDates) continue;
+      const afterPred = shiftStart(predDates.end, 1, t);
+      if (afterPred > earliest) earliest = afterPred;
+    }
+
+    const prev = planned[id];
+    if (earliest > original.start && (!prev || prev.start !== earliest)) {
+      planned[id] = { start: earliest, end: endFor(original, earliest, t) };
+      queue.push(...(successors[id] || []));
+    }
+  }
+
+  return Object.keys(planned)
+    .map((id) => {
+      const t = byId[id];
+      return {
+        id,
+        name: t.name,
+        fromStart: t.start_date,
+        fromEnd: t.end_date,
+        start_date: planned[id].start,
+        end_date: planned[id].end,
+      };
+    })
+    .filter(
+      (c) =>
+        c.id === movedId ||
+        c.start_date !== c.fromStart ||
+        c.end_date !== c.fromEnd,
+    );
+}
+
+// -------- Parent rollup (summary tasks) --------
+
+export interface Rollup {
+  start_date: string | null;
+  end_date: string | null;
+  progress: number;
+}
+
+/**
+ * คำนวณวันที่ + progress ของ task ที่มีลูก จาก subtask ทั้งหมดข้างใต้
+ * start = ลูกที่เริ่มเร็วสุด, end = ลูกที่จบช้าสุด,
+ * progress = ค่าเฉลี่ยถ่วงน้ำหนักด้วยจำนวนวันของลูกแต่ละตัว
+ */
+export function computeRollups(tasks: Task[]): Record<string, Rollup> {
+  const childrenOf: Record<string, Task[]> = {};
+  for (const t of tasks) {
+    if (t.parent_id && t.parent_id !== t.id) {
+      (childrenOf[t.parent_id] = childrenOf[t.parent_id] || []).push(t);
+    }
+  }
+
+  const result: Record<string, Rollup> = {};
+  const visiting = new Set<string>();
+
+  const valuesOf = (t: Task): Rollup => {
+    if (!childrenOf[t.id] || visiting.has(t.id)) {
+      return {
+        start_date: t.start_date,
+        end_date: t.end_date,
+        progress: t.progress ?? 0,
+      };
+    }
+    if (result[t.id]) return result[t.id];
+
+    visiting.add(t.id);
+    let start: number | null = null;
+    let end: number | null = null;
+    let weighted = 0;
+    let totalWeight = 0;
+
+    for (const child of childrenOf[t.id]) {
+      const v = valuesOf(child);
+      const s = toDayNumber(v.start_date) ?? toDayNumber(v.end_date);
+      const e = toDayNumber(v.end_date) ?? s;
+      if (s != null && (start == null || s < start)) start = s;
+      if (e != null && (end == null || e > end)) end = e;
+
+      // ลูกที่ไม่มีวันที่นับน้ำหนักเป็น 1 วัน
+      const weight = s != null && e != null ? Math.max(e - s + 1, 1) : 1;
+      weighted += (v.progress ?? 0) * weight;
+      totalWeight += weight;
+    }
+    visiting.delete(t.id);
+
+    result[t.id] = {
+      start_date: start != null ? fromDayNumber(start) : t.start_date,
+      end_date: end != null ? fromDayNumber(end) : t.end_date,
+      progress: totalWeight ? Math.round(weighted / totalWeight) : 0,
+    };
+    return result[t.id];
+  };
+
+  for (const t of tasks) valuesOf(t);
+  return result;
+}
+
+/**
+ * หลังแก้ task ในชุด ids ให้หา parent/ancestor ที่ค่า rollup ไม่ตรงกับที่เก็บใน DB
+ * (tasks ต้องเป็นสถานะหลังแก้แล้ว)
+ */
+export function planRollupUpdates(
+  tasks: Task[],
+  ids: Array<string | null | undefined>,
+): Array<{ id: string } & Rollup> {
+  const byId: Record<string, Task> = {};
+  for (const t of tasks) byId[t.id] = t;
+
+  const rollups = computeRollups(tasks);
+  const affected = new Set<string>();
+
+  for (const startId of ids) {
+    let id: string | null | undefined = startId;
+    while (id && byId[id] && !affected.has(id)) {
+      affected.add(id);
+      id = byId[id].parent_id;
+    }
+  }
+
+  const updates: Array<{ id: string } & Rollup> = [];
+  affected.forEach((id) => {
+    const r = rollups[id];
+    const t = byId[id];
+    if (!r) return;
+    if (
+      r.start_date !== t.start_date ||
+      r.end_date !== t.end_date ||
+      r.progress !== (t.progress ?? 0)
+    ) {
+      updates.push({ id, ...r });
+    }
+  });
+  return updates;
+}
+
+/**
+ * ชุดการแก้ task + ค่า rollup ใหม่ของ ancestor ที่ได้รับผล (บันทึกพร้อมกันใน batch เดียว)
+ * นับ parent เดิมด้วย กรณีย้าย task ไปอยู่ใต้ parent อื่น
+ */
+export function withRollupUpdates(
+  tasks: Task[],
+  updates: Array<{ id: string; changes: Partial<Task> }>,
+): Array<{ id: string; changes: Partial<Task> }> {
+  const changesOf: Record<string, Partial<Task>> = {};
+  updates.forEach((u) => (changesOf[u.id] = u.changes));
+  const after = tasks.map((t) =>
+    changesOf[t.id] ? { ...t, ...changesOf[t.id] } : t,
+  );
+  const ids = updates.flatMap((u) => [
+    u.id,
+    tasks.find((t) => t.id === u.id)?.parent_id,
+  ]);
+
+  const result = updates.map((u) => ({ ...u }));
+  for (const { id, ...rollup } of planRollupUpdates(after, ids)) {
+    const existing = result.find((u) => u.id === id);
+    if (existing) existing.changes = { ...existing.changes, ...rollup };
+    else result.push({ id, changes: rollup });
+  }
+  return result;
+}
+
+// -------- Dependency editing (ลากเส้นใน Gantt / แก้ใน TaskModal) --------
+
+export function formatDependencies(ids: string[]): string {
+  return ids.join(', ');
+}
+
+/**
+ * ตรวจว่าถ้า taskId พึ่งพา deps ชุดใหม่ จะเกิด dependency วนไหม
+ * คืน path ของ cycle (taskId → ... → taskId) ถ้ามี ไม่งั้นคืน null
+ */
+export function findDependencyCycle(
+  tasks: Task[],
+  taskId: string,
+  deps: string[],
+): string[] | null {
+  const predecessorsOf: Record<string, string[]> = {};
+  for (const t of tasks) {
+    predecessorsOf[t.id] = parseDependencies(t.dependencies);
+  }
+  predecessorsOf[taskId] = deps;
+
+  // DFS จาก taskId ตาม predecessor; ถ้าวนกลับมาเจอ taskId = cycle
+  const visited = new Set<string>();
+  const walk = (id: string, path: string[]): string[] | null => {
+    for (const pred of predecessorsOf[id] || []) {
+      if (pred === taskId) return [...path, pred];
+      if (visited.has(pred)) continue;
+      visited.add(pred);
+      const found = walk(pred, [...path, pred]);
+      if (found) return found;
+    }
+    return null;
+  };
+  return walk(taskId, [taskId]);
+}
+
+/**
+ * เลื่อนหลาย task พร้อมกัน days วัน (วันทำงานถ้ามี calendar) โดยคงความยาวงานเดิม
+ * parent ที่ถูกเลือก = เลื่อน subtask ทุกชั้นแทน (วันที่ parent rollup จากลูกเอง)
+ */
+export function planBulkShift(
+  tasks: Task[],
+  ids: string[],
+  days: number,
+  calendar?: WorkCalendar | null,
+): ScheduleChange[] {
+  if (!days) return [];
+
+  const children: Record<string, string[]> = {};
+  for (const t of tasks) {
+    if (t.parent_id && t.parent_id !== t.id) {
+      (children[t.parent_id] = children[t.parent_id] || []).push(t.id);
+    }
+  }
+
+  // รวม subtask ทุกชั้นของที่เลือก
+  const picked = new Set<string>();
+  const stack = [...ids];
+  while (stack.length) {
+    const id = stack.pop()!;
+    if (picked.has(id)) continue;
+    picked.add(id);
+    stack.push(...(children[id] || []));
+  }
+
+  const changes: ScheduleChange[] = [];
+  for (const t of tasks) {
+    if (!picked.has(t.id) || children[t.id]) continue;
+    const start = t.start_date ?? t.end_date;
+    const end = t.end_date ?? start;
+    if (!start || !end) continue;
+
+    let newStart: string;
+    let newEnd: string;
+    if (calendar) {
+      newStart = addWorkingDays(calendar, start, days, t.team_id);
+      newEnd = t.is_milestone
+        ? newStart
+        : addWorkingDays(
+            calendar,
+            newStart,
+            Math.max(countWorkingDays(calendar, start, end, t.team_id) - 1, 0),
+            t.team_id,
+          );
+    } else {
+      newStart = fromDayNumber(toDayNumber(start)! + days);
+      newEnd = fromDayNumber(toDayNumber(end)! + days);
+    }
+
+    changes.push({
+      id: t.id,
+      name: t.name,
+      fromStart: t.start_date,
+      fromEnd: t.end_date,
+      start_date: newStart,
+      end_date: newEnd,
+    });
+  }
+  return changes;
+}
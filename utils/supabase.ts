@@ -1,5 +1,7 @@
 // utils/supabase.ts
 import { createClient } from '@supabase/supabase-js';
+import { createRepository, createSupabaseBackend } from './repository';
+import { createIndexedDbQueueStore } from './writeQueue';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
@@ -11,3 +13,10 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
     detectSessionInUrl: true,
   },
 });
+
+// tasks / profiles / teams ผ่าน repository (ตรวจค่า + error แบบเดียวกัน)
+// การแก้ task ตอนเน็ตหลุดเก็บใน IndexedDB แล้วส่งต่อเมื่อกลับมา online
+export const repo = createRepository(
+  createSupabaseBackend(supabase),
+  createIndexedDbQueueStore(),
+);
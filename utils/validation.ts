@@ -0,0 +1,288 @@
+// utils/validation.ts
+// ตรวจความสอดคล้องของแผนงาน (วันที่ / parent / dependency) แล้วแนะนำวิธีแก้
+import type { Task } from '../types';
+import { toDayNumber, fromDayNumber } from './dates';
+import {
+  computeRollups,
+  formatDependencies,
+  parseDependencies,
+} from './schedule';
+import { addWorkingDays, type WorkCalendar } from './workCalendar';
+import type { TaskPatch } from './history';
+
+export type IssueKind =
+  | 'end_before_start'
+  | 'stale_rollup'
+  | 'before_predecessor'
+  | 'missing_dependency'
+  | 'parent_cycle'
+  | 'dependency_cycle';
+
+export interface ScheduleIssue {
+  kind: IssueKind;
+  message: string;
+  fix: {
+    label: string; // ข้อความแนะนำ
+    taskId?: string; // task ที่ต้องแก้ (ไม่จำเป็นต้องเป็นตัวที่ถูก flag)
+    patch?: TaskPatch; // ไม่มี = แก้เองด้วยมือ
+  };
+}
+
+/**
+ * ตรวจ task ทั้งหมด คืน issue แยกตาม task id (task ที่ไม่มีปัญหาไม่อยู่ในผลลัพธ์)
+ * ถ้าส่ง calendar มา วันที่แนะนำจะตกวันทำงาน
+ */
+export function validateSchedule(
+  tasks: Task[],
+  calendar?: WorkCalendar | null,
+): Record<string, ScheduleIssue[]> {
+  const byId: Record<string, Task> = {};
+  for (const t of tasks) byId[t.id] = t;
+  const nameOf = (id: string) => byId[id]?.name || id;
+
+  const result: Record<string, ScheduleIssue[]> = {};
+  const add = (id: string, issue: ScheduleIssue) =>
+    (result[id] = result[id] || []).push(issue);
+
+  const depCycle = dependencyCycles(tasks, byId);
+  const rollups = computeRollups(tasks);
+
+  for (const t of tasks) {
+    const start = toDayNumber(t.start_date);
+    const end = toDayNumber(t.end_date);
+
+    // 1) end ก่อน start
+    if (start != null && end != null && end < start) {
+      add(t.id, {
+        kind: 'end_before_start',
+        message: `Ends (${t.end_date}) before it starts (${t.start_date}).`,
+        fix: {
+          label: `Set the end date to ${t.start_date}`,
+          taskId: t.id,
+          patch: { end_date: t.start_date },
+        },
+      });
+    }
+
+    // 2) parent วน
+    if (inParentCycle(t, byId)) {
+      add(t.id, {
+        kind: 'parent_cycle',
+        message: `Parent chain loops back to itself via "${nameOf(
+          t.parent_id!,
+        )}".`,
+        fix: {
+          label: 'Remove the parent',
+          taskId: t.id,
+          patch: { parent_id: null },
+        },
+      });
+    } else if (rollups[t.id]) {
+      // 3) parent ที่ค่าไม่ตรงกับ rollup ของ subtask
+      // (ปกติบันทึกพร้อมการแก้ subtask อยู่แล้ว — เจอเมื่อข้อมูลถูกแก้จากที่อื่น)
+      const r = rollups[t.id];
+      if (
+        r.start_date !== t.start_date ||
+        r.end_date !== t.end_date ||
+        r.progress !== (t.progress ?? 0)
+      ) {
+        add(t.id, {
+          kind: 'stale_rollup',
+          message: `Dates or progress don't match its subtasks (${r.start_date} – ${r.end_date}, ${r.progress}%).`,
+          fix: {
+            label: `Update to ${r.start_date} – ${r.end_date}, ${r.progress}%`,
+            taskId: t.id,
+            patch: {
+              start_date: r.start_date,
+              end_date: r.end_date,
+              progress: r.progress,
+            },
+          },
+        });
+      }
+    }
+
+    // 4) dependency ที่ไม่มีอยู่แล้ว
+    const deps = parseDependencies(t.dependencies);
+    const missing = deps.filter((d) => !byId[d]);
+    if (missing.length) {
+      add(t.id, {
+        kind: 'missing_dependency',
+        message:
+          (missing.length === 1
+            ? 'Depends on a task that no longer exists'
+            : `Depends on ${missing.length} tasks that no longer exist`) +
+          ` (${missing.join(', ')}).`,
+        fix: {
+          label: 'Remove the missing dependencies',
+          taskId: t.id,
+          patch: {
+            dependencies:
+              formatDependencies(deps.filter((d) => byId[d])) || null,
+          },
+        },
+      });
+    }
+
+    // 5) dependency วน
+    const cycle = depCycle[t.id];
+    if (cycle) {
+      const inCycle = deps.filter((d) => cycle.members.has(d));
+      add(t.id, {
+        kind: 'dependency_cycle',
+        message:
+          'Dependency cycle: ' + cycle.path.map(nameOf).join(' → ') + '.',
+        fix: {
+          label: `Remove the dependency on ${inCycle
+            .map((d) => `"${nameOf(d)}"`)
+            .join(', ')}`,
+          taskId: t.id,
+          patch: {
+            dependencies:
+              formatDependencies(deps.filter((d) => !cycle.members.has(d))) ||
+              null,
+          },
+        },
+      });
+      continue; // วันที่ของ task ใน cycle ไม่มีทางถูกต้อง ไม่ต้องเตือนซ้ำ
+    }
+
+    // 6) เริ่มก่อน predecessor จบ (finish-to-start; milestone อยู่วันเดียวกับที่ pred จบได้)
+    const s = start ?? end;
+    if (s == null) continue;
+    const endOf = (p: Task) =>
+      toDayNumber(p.end_date) ?? toDayNumber(p.start_date);
+    let latest: Task | null = null;
+    for (const dep of deps) {
+      const pred = byId[dep];
+      if (!pred || dep === t.id) continue;
+      const predEnd = endOf(pred);
+      if (predEnd == null) continue;
+      const tooEarly = t.is_milestone ? s < predEnd : s <= predEnd;
+      if (tooEarly && (!latest || predEnd > endOf(latest)!)) latest = pred;
+    }
+    if (latest) {
+      const predEnd = latest.end_date || latest.start_date!;
+      const newStart = t.is_milestone
+        ? predEnd
+        : calendar
+          ? addWorkingDays(calendar, predEnd, 1, t.team_id)
+          : fromDayNumber(toDayNumber(predEnd)! + 1);
+      const length = Math.max((end ?? s) - s, 0);
+      const newEnd = fromDayNumber(toDayNumber(newStart)! + length);
+      add(t.id, {
+        kind: 'before_predecessor',
+        message: `Starts before its predecessor "${latest.name}" ends (${predEnd}).`,
+        fix: {
+          label: `Move to ${newStart} – ${newEnd}`,
+          taskId: t.id,
+          patch: { start_date: newStart, end_date: newEnd },
+        },
+      });
+    }
+  }
+
+  return result;
+}
+
+// ข้อความสั้น ๆ สำหรับ tooltip
+export function describeIssues(issues: ScheduleIssue[]): string {
+  return issues
+    .map((i) => `⚠ ${i.message}\n   Fix: ${i.fix.label}`)
+    .join('\n');
+}
+
+function inParentCycle(task: Task, byId: Record<string, Task>): boolean {
+  const seen = new Set<string>();
+  let id = task.parent_id;
+  while (id && byId[id] && !seen.has(id)) {
+    if (id === task.id) return true;
+    seen.add(id);
+    id = byId[id].parent_id;
+  }
+  return false;
+}
+
+/**
+ * หา task ที่อยู่ใน dependency cycle (strongly connected component ที่มี > 1 ตัว
+ * หรือพึ่งพาตัวเอง) พร้อม path ตัวอย่างของ cycle ที่ผ่าน task นั้น
+ */
+function dependencyCycles(
+  tasks: Task[],
+  byId: Record<string, Task>,
+): Record<string, { members: Set<string>; path: string[] }> {
+  const preds: Record<string, string[]> = {};
+  for (const t of tasks) {
+    preds[t.id] = parseDependencies(t.dependencies).filter((d) => byId[d]);
+  }
+
+  // Tarjan SCC
+  let counter = 0;
+  const index: Record<string, number> = {};
+  const low: Record<string, number> = {};
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+
+  const visit = (id: string) => {
+    index[id] = low[id] = counter++;
+    stack.push(id);
+    onStack.add(id);
+    for (const p of preds[id]) {
+      if (index[p] == null) {
+        visit(p);
+        low[id] = Math.min(low[id], low[p]);
+      } else if (onStack.has(p)) {
+        low[id] = Math.min(low[id], index[p]);
+      }
+    }
+    if (low[id] === index[id]) {
+      const comp: string[] = [];
+      let top: string;
+      do {
+        top = stack.pop()!;
+        onStack.delete(top);
+        comp.push(top);
+      } while (top !== id);
+      components.push(comp);
+    }
+  };
+  for (const t of tasks) if (index[t.id] == null) visit(t.id);
+
+  const result: Record<string, { members: Set<string>; path: string[] }> = {};
+  for (const comp of components) {
+    const members = new Set(comp);
+    if (comp.length === 1 && !preds[comp[0]].includes(comp[0])) continue;
+
+    for (const id of comp) {
+      // BFS ตาม predecessor ภายใน component จนวนกลับมาที่ id
+      const from: Record<string, string> = {};
+      const queue = [id];
+      let found = false;
+      while (queue.length && !found) {
+        const cur = queue.shift()!;
+        for (const p of preds[cur]) {
+          if (!members.has(p)) continue;
+          if (p === id) {
+            from[id] = cur;
+            found = true;
+            break;
+          }
+          if (from[p] != null) continue;
+          from[p] = cur;
+          queue.push(p);
+        }
+      }
+      // ย้อน path: id → pred → ... → id
+      const path = [id];
+      let cur = from[id];
+      while (cur !== id && path.length <= comp.length) {
+        path.splice(1, 0, cur);
+        cur = from[cur];
+      }
+      path.push(id);
+      result[id] = { members, path };
+    }
+  }
+  return result;
+}
@@ -0,0 +1,342 @@
+// utils/workCalendar.ts
+import { toDayNumber, fromDayNumber } from './dates';
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+export interface CalendarOverride {
+  weekend?: number[]; // 0 = Sunday ... 6 = Saturday
+  holidays?: Holiday[]; // วันหยุดเพิ่มเติมของทีม
+  workingDays?: string[]; // วันที่ทีมนี้ทำงาน แม้เป็นวันหยุดของ workspace
+}
+
+export interface WorkCalendar {
+  weekend: number[];
+  holidays: Holiday[];
+  teams: Record<string, CalendarOverride>; // key = team_id
+}
+
+// วันหยุดราชการไทย (ตรวจสอบกับประกาศ ครม. ทุกปี แล้ว import ไฟล์ใหม่ได้)
+const THAI_HOLIDAYS: Holiday[] = [
+  { date: '2025-01-01', name: 'วันขึ้นปีใหม่' },
+  { date: '2025-02-12', name: 'วันมาฆบูชา' },
+  { date: '2025-04-07', name: 'ชดเชยวันจักรี' },
+  { date: '2025-04-14', name: 'วันสงกรานต์' },
+  { date: '2025-04-15', name: 'วันสงกรานต์' },
+  { date: '2025-04-16', name: 'ชดเชยวันสงกรานต์' },
+  { date: '2025-05-01', name: 'วันแรงงานแห่งชาติ' },
+  { date: '2025-05-05', name: 'ชดเชยวันฉัตรมงคล' },
+  { date: '2025-05-12', name: 'ชดเชยวันวิสาขบูชา' },
+  { date: '2025-06-03', name: 'วันเฉลิมพระชนมพรรษา พระราชินี' },
+  { date: '2025-07-10', name: 'วันอาสาฬหบูชา' },
+  { date: '2025-07-11', name: 'วันเข้าพรรษา' },
+  { date: '2025-07-28', name: 'วันเฉลิมพระชนมพรรษา ร.10' },
+  { date: '2025-08-12', name: 'วันแม่แห่งชาติ' },
+  { date: '2025-10-13', name: 'วันนวมินทรมหาราช' },
+  { date: '2025-10-23', name: 'วันปิยมหาราช' },
+  { date: '2025-12-05', name: 'วันพ่อแห่งชาติ' },
+  { date: '2025-12-10', name: 'วันรัฐธรรมนูญ' },
+  { date: '2025-12-31', name: 'วันสิ้นปี' },
+  { date: '2026-01-01', name: 'วันขึ้นปีใหม่' },
+  { date: '2026-03-03', name: 'วันมาฆบูชา' },
+  { date: '2026-04-06', name: 'วันจักรี' },
+  { date: '2026-04-13', name: 'วันสงกรานต์' },
+  { date: '2026-04-14', name: 'วันสงกรานต์' },
+  { date: '2026-04-15', name: 'วันสงกรานต์' },
+  { date: '2026-05-01', name: 'วันแรงงานแห่งชาติ' },
+  { date: '2026-05-04', name: 'วันฉัตรมงคล' },
+  { date: '2026-06-01', name: 'ชดเชยวันวิสาขบูชา' },
+  { date: '2026-06-03', name: 'วันเฉลิมพระชนมพรรษา พระราชินี' },
+  { date: '2026-07-28', name: 'วันเฉลิมพระชนมพรรษา ร.10' },
+  { date: '2026-07-29', name: 'วันอาสาฬหบูชา' },
+  { date: '2026-07-30', name: 'วันเข้าพรรษา' },
+  { date: '2026-08-12', name: 'วันแม่แห่งชาติ' },
+  { date: '2026-10-13', name: 'วันนวมินทรมหาราช' },
+  { date: '2026-10-23', name: 'วันปิยมหาราช' },
+  { date: '2026-12-07', name: 'ชดเชยวันพ่อแห่งชาติ' },
+  { date: '2026-12-10', name: 'วันรัฐธรรมนูญ' },
+  { date: '2026-12-31', name: 'วันสิ้นปี' },
+];
+
+export const DEFAULT_WORK_CALENDAR: WorkCalendar = {
+  weekend: [0, 6],
+  holidays: THAI_HOLIDAYS,
+  teams: {},
+};
+
+// -------- แถวใน table work_calendars --------
+
+export const WORKSPACE_CALENDAR_ID = 'workspace';
+
+// แถว 'workspace' = ปฏิทินกลาง, แถวของทีม (id = team id) = override ของทีมนั้น
+export interface WorkCalendarRow {
+  id: string;
+  team_id: string | null;
+  config: Partial<WorkCalendar> | CalendarOverride;
+  updated_at?: string;
+}
+
+export type WorkCalendarRowInput = Pick<
+  WorkCalendarRow,
+  'id' | 'team_id' | 'config'
+>;
+
+// รวมแถวเข้ากับปฏิทินที่มีอยู่ (แถว workspace ก่อน แล้ว override ของทีมทับ)
+export function applyCalendarRows(
+  cal: WorkCalendar,
+  rows: WorkCalendarRowInput[],
+): WorkCalendar {
+  let next: WorkCalendar = { ...cal, teams: { ...cal.teams } };
+  const ordered = [...rows].sort(
+    (a, b) => Number(!!a.team_id) - Number(!!b.team_id),
+  );
+  for (const row of ordered) {
+    if (row.team_id) {
+      next.teams[row.team_id] = row.config as CalendarOverride;
+      continue;
+    }
+    const shared = row.config as Partial<WorkCalendar>;
+    next = {
+      weekend: shared.weekend ?? next.weekend,
+      holidays: shared.holidays ?? next.holidays,
+      // ข้อมูลเก่าเก็บ override ของทุกทีมไว้ในแถว workspace
+      teams: { ...next.teams, ...(shared.teams || {}) },
+    };
+  }
+  return next;
+}
+
+/**
+ * แถวที่ต้องบันทึกตอน import
+ * teamId = null (admin) → ปฏิทินกลาง + override ทุกทีมในไฟล์
+ * teamId = ทีมของผู้ใช้ → override ของทีมนั้นอย่างเดียว (ไม่มีในไฟล์ = ใช้ weekend / holidays ของไฟล์)
+ */
+export function calendarRowsToSave(
+  config: WorkCalendar,
+  teamId: string | null,
+): WorkCalendarRowInput[] {
+  if (teamId) {
+    return [
+      {
+        id: teamId,
+        team_id: teamId,
+        config: config.teams[teamId] ?? {
+          weekend: config.weekend,
+          holidays: config.holidays,
+        },
+      },
+    ];
+  }
+  return [
+    {
+      id: WORKSPACE_CALENDAR_ID,
+      team_id: null,
+      config: { weekend: config.weekend, holidays: config.holidays },
+    },
+    ...Object.entries(config.teams).map(([team, override]) => ({
+      id: team,
+      team_id: team,
+      config: override,
+    })),
+  ];
+}
+
+// -------- working day checks (ทำงานบน day number จาก dates.ts) --------
+
+function isWorkingDayNumber(
+  cal: WorkCalendar,
+  day: number,
+  teamId?: string | null,
+): boolean {
+  const override = teamId ? cal.teams[teamId] : undefined;
+  const date = fromDayNumber(day);
+
+  if (override?.workingDays?.includes(date)) return true;
+  if (override?.holidays?.some((h) => h.date === date)) return false;
+  if (cal.holidays.some((h) => h.date === date)) return false;
+
+  const weekend = override?.weekend ?? cal.weekend;
+  // day 0 = 1970-01-01 = Thursday (4)
+  const weekday = (((day + 4) % 7) + 7) % 7;
+  return !weekend.includes(weekday);
+}
+
+export function isWorkingDay(
+  cal: WorkCalendar,
+  date: string,
+  teamId?: string | null,
+): boolean {
+  const day = toDayNumber(date);
+  return day == null ? true : isWorkingDayNumber(cal, day, teamId);
+}
+
+export function holidayName(
+  cal: WorkCalendar,
+  date: string,
+  teamId?: string | null,
+): string | null {
+  const override = teamId ? cal.teams[teamId] : undefined;
+  const found =
+    override?.holidays?.find((h) => h.date === date) ??
+    cal.holidays.find((h) => h.date === date);
+  return found?.name ?? null;
+}
+
+// จำนวนวันทำงานตั้งแต่ start ถึง end (นับทั้งสองฝั่ง)
+export function countWorkingDays(
+  cal: WorkCalendar,
+  start: string,
+  end: string,
+  teamId?: string | null,
+): number {
+  const s = toDayNumber(start);
+  const e = toDayNumber(end);
+  if (s == null || e == null) return 0;
+
+  let count = 0;
+  for (let d = s; d <= e; d++) {
+    if (isWorkingDayNumber(cal, d, teamId)) count++;
+  }
+  return count;
+}
+
+// เลื่อนวันไป n วันทำงาน (n < 0 = ถอยหลัง); n = 0 → เลื่อนไปวันทำงานถัดไปถ้าตกวันหยุด
+export function addWorkingDays(
+  cal: WorkCalendar,
+  date: string,
+  n: number,
+  teamId?: string | null,
+): string {
+  let day = toDayNumber(date);
+  if (day == null) return date;
+
+  const dir = n < 0 ? -1 : 1;
+  let remaining = Math.abs(n);
+  // กันวนไม่จบถ้า calendar ตั้งให้หยุดทุกวัน
+  let guard = 3660 + remaining * 7;
+  while (!isWorkingDayNumber(cal, day, teamId) && guard-- > 0) day += dir;
+  while (remaining > 0 && guard-- > 0) {
+    day += dir;
+    if (isWorkingDayNumber(cal, day, teamId)) remaining--;
+  }
+  return fromDayNumber(day);
+}
+
+/**
+ * งานเลยกำหนดจริงเมื่อมีวันทำงานอย่างน้อย 1 วันผ่านไปหลัง end_date
+ * (งานที่ครบกำหนดก่อนช่วงสงกรานต์ จึงยังไม่ overdue ระหว่างวันหยุด)
+ */
+export function isOverdueWorking(
+  cal: WorkCalendar,
+  endDate: string,
+  today: string,
+  teamId?: string | null,
+): boolean {
+  const e = toDayNumber(endDate);
+  const t = toDayNumber(today);
+  if (e == null || t == null || t <= e) return false;
+
+  // นับวันนี้ด้วย: วันทำงานแรกหลังกำหนดส่งก็เลยกำหนดแล้ว
+  for (let d = e + 1; d <= t; d++) {
+    if (isWorkingDayNumber(cal, d, teamId)) return true;
+  }
+  return false;
+}
+
+// -------- import จากไฟล์ --------
+
+/**
+ * รองรับ 2 แบบ
+ *  - JSON: { weekend?: number[], holidays: [{ date, name }], teams?: {...} }
+ *  - CSV/text: แต่ละบรรทัด "YYYY-MM-DD,ชื่อวันหยุด"
+ */
+export function parseWorkCalendarFile(text: string): WorkCalendar {
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('{')) {
+    const raw = JSON.parse(trimmed);
+    if (!Array.isArray(raw.holidays)) {
+      throw new Error('Calendar file must contain a "holidays" array.');
+    }
+    if (raw.teams != null && !isPlainObject(raw.teams)) {
+      throw new Error('"teams" must be an object keyed by team id.');
+    }
+    const teams: Record<string, CalendarOverride> = {};
+    for (const [teamId, override] of Object.entries(raw.teams || {})) {
+      teams[teamId] = normalizeOverride(teamId, override);
+    }
+    return {
+      weekend:
+        raw.weekend != null ? normalizeWeekend(raw.weekend, 'weekend') : [0, 6],
+      holidays: raw.holidays.map(normalizeHoliday),
+      teams,
+    };
+  }
+
+  const holidays: Holiday[] = [];
+  for (const line of trimmed.split(/\r?\n/)) {
+    const [date, ...rest] = line.split(',');
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date.trim())) continue; // ข้าม header
+    holidays.push({ date: date.trim(), name: rest.join(',').trim() });
+  }
+  if (!holidays.length) {
+    throw new Error('No "YYYY-MM-DD,name" lines found in calendar file.');
+  }
+  return { weekend: [0, 6], holidays, teams: {} };
+}
+
+function normalizeHoliday(h: unknown): Holiday {
+  const raw: { date?: unknown; name?: unknown } = isPlainObject(h) ? h : {};
+  const date = String(raw.date ?? '').slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new Error(`Invalid holiday date: ${JSON.stringify(h)}`);
+  }
+  return { date, name: String(raw.name ?? '') };
+}
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === 'object' && !Array.isArray(v);
+
+function normalizeWeekend(value: unknown, field: string): number[] {
+  const days = Array.isArray(value) ? value.map(Number) : [];
+  if (
+    !Array.isArray(value) ||
+    days.some((d) => !Number.isInteger(d) || d < 0 || d > 6)
+  ) {
+    throw new Error(`"${field}" must be a list of weekdays 0–6.`);
+  }
+  return days;
+}
+
+// override ของทีม: ตรวจแบบเดียวกับค่าระดับ workspace (ไฟล์ผิด = ไม่ import เลย)
+function normalizeOverride(teamId: string, raw: unknown): CalendarOverride {
+  if (!isPlainObject(raw)) {
+    throw new Error(`Invalid calendar for team ${teamId}.`);
+  }
+  const override: CalendarOverride = {};
+  if (raw.weekend != null) {
+    override.weekend = normalizeWeekend(raw.weekend, `teams.${teamId}.weekend`);
+  }
+  for (const key of ['holidays', 'workingDays'] as const) {
+    if (raw[key] != null && !Array.isArray(raw[key])) {
+      throw new Error(`"teams.${teamId}.${key}" must be an array.`);
+    }
+  }
+  if (Array.isArray(raw.holidays)) {
+    override.holidays = raw.holidays.map(normalizeHoliday);
+  }
+  if (Array.isArray(raw.workingDays)) {
+    override.workingDays = raw.workingDays.map((d: unknown) => {
+      const date = String(d ?? '').slice(0, 10);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        throw new Error(
+          `Invalid working day for team ${teamId}: ${JSON.stringify(d)}`,
+        );
+      }
+      return date;
+    });
+  }
+  return override;
+}
@@ -0,0 +1,122 @@
+// utils/workload.ts
+// จำนวนงานที่แต่ละคนถือพร้อมกัน (ต่อวัน) แล้วสรุปเป็นช่วง วัน / สัปดาห์ / เดือน
+import type { Task } from '../types';
+import { toDayNumber, fromDayNumber } from './dates';
+import { isWorkingDay, type WorkCalendar } from './workCalendar';
+
+export type WorkloadBucket = 'day' | 'week' | 'month';
+
+export interface WorkloadCell {
+  start: string; // วันแรกของช่วง
+  end: string; // วันแรกของช่วงถัดไป (exclusive)
+  peak: number; // จำนวนงานพร้อมกันสูงสุดในช่วง
+}
+
+export interface WorkloadRow {
+  assignee: string;
+  cells: WorkloadCell[];
+}
+
+// งานที่นับเป็น load: มีคนรับผิดชอบ + มีวันที่, ไม่ใช่ milestone / summary / งานที่เสร็จแล้ว
+function countsAsLoad(t: Task, parentIds: Set<string>): boolean {
+  return (
+    !!t.assignee &&
+    !!(t.start_date || t.end_date) &&
+    !t.is_milestone &&
+    t.status !== 'Done' &&
+    !parentIds.has(t.id)
+  );
+}
+
+// day number ของวันแรกของช่วงที่ day อยู่
+function bucketStart(day: number, bucket: WorkloadBucket): number {
+  if (bucket === 'day') return day;
+  if (bucket === 'week') {
+    // day 0 = Thursday → เริ่มสัปดาห์วันจันทร์
+    const weekday = (((day + 4) % 7) + 7) % 7;
+    return day - ((weekday + 6) % 7);
+  }
+  return toDayNumber(fromDayNumber(day).slice(0, 8) + '01')!;
+}
+
+function nextBucket(start: number, bucket: WorkloadBucket): number {
+  if (bucket === 'day') return start + 1;
+  if (bucket === 'week') return start + 7;
+  const [y, m] = fromDayNumber(start).split('-').map(Number);
+  const next =
+    m === 12
+      ? `${y + 1}-01-01`
+      : `${y}-${String(m + 1).padStart(2, '0')}-01`;
+  return toDayNumber(next)!;
+}
+
+/**
+ * คำนวณ load ของแต่ละ assignee ตั้งแต่ rangeStart ถึง rangeEnd (YYYY-MM-DD)
+ * ถ้าส่ง calendar มา วันหยุดจะไม่ถูกนับ (peak ของช่วงดูเฉพาะวันทำงาน)
+ */
+export function computeWorkload(
+  tasks: Task[],
+  assignees: string[],
+  rangeStart: string,
+  rangeEnd: string,
+  bucket: WorkloadBucket,
+  calendar?: WorkCalendar | null,
+): WorkloadRow[] {
+  const from = toDayNumber(rangeStart);
+  const to = toDayNumber(rangeEnd);
+  if (from == null || to == null || to < from) return [];
+
+  const parentIds = new Set<string>();
+  for (const t of tasks) if (t.parent_id) parentIds.add(t.parent_id);
+
+  const length = to - from + 1;
+  // difference array ต่อ assignee: +1 วันเริ่ม, -1 วันหลังจบ
+  const diffs: Record<string, Int32Array> = {};
+  const teamOf: Record<string, string | null> = {};
+  for (const a of assignees) diffs[a] = new Int32Array(length + 1);
+
+  for (const t of tasks) {
+    if (!countsAsLoad(t, parentIds) || !diffs[t.assignee!]) continue;
+    const s = toDayNumber(t.start_date) ?? toDayNumber(t.end_date)!;
+    const e = Math.max(toDayNumber(t.end_date) ?? s, s);
+    if (e < from || s > to) continue;
+
+    const arr = diffs[t.assignee!];
+    arr[Math.max(s, from) - from] += 1;
+    arr[Math.min(e, to) - from + 1] -= 1;
+    if (teamOf[t.assignee!] === undefined) {
+      teamOf[t.assignee!] = t.team_id ?? null;
+    }
+  }
+
+  return assignees.map((assignee) => {
+    const arr = diffs[assignee];
+    const daily: number[] = new Array(length);
+    let running = 0;
+    for (let i = 0; i < length; i++) {
+      running += arr[i];
+      const date = fromDayNumber(from + i);
+      daily[i] =
+        calendar && !isWorkingDay(calendar, date, teamOf[assignee])
+          ? 0
+          : running;
+    }
+
+    const cells: WorkloadCell[] = [];
+    let start = bucketStart(from, bucket);
+    while (start <= to) {
+      const end = nextBucket(start, bucket);
+      let peak = 0;
+      for (let d = Math.max(start, from); d < Math.min(end, to + 1); d++) {
+        peak = Math.max(peak, daily[d - from]);
+      }
+      cells.push({
+        start: fromDayNumber(start),
+        end: fromDayNumber(end),
+        peak,
+      });
+      start = end;
+    }
+    return { assignee, cells };
+  });
+}
@@ -0,0 +1,142 @@
+// utils/writeQueue.ts
+// คิวการเขียน task ตอน offline: เก็บใน IndexedDB แล้ว replay ตามลำดับเมื่อต่อเน็ตได้
+import type { TaskChanges } from './repository';
+
+export interface QueuedUpdate {
+  id: string;
+  name: string;
+  changes: TaskChanges;
+  base?: TaskChanges;
+}
+
+export interface QueuedWrite {
+  seq: number; // ลำดับที่ต้อง replay (store เป็นคนออกเลข ไม่ชนกันข้าม tab)
+  user_id: string; // คิวของใครของมัน (เครื่องเดียวกันเข้าหลาย account ได้)
+  op: 'create' | 'update' | 'remove' | 'batch';
+  id: string; // task id (create ใช้ id ที่สร้างฝั่ง client, batch ใช้ตัวแรก)
+  name: string; // ชื่อ task ไว้แสดงตอนรายงาน conflict
+  changes?: TaskChanges;
+  base?: TaskChanges; // ค่าก่อนแก้ของ field ที่แก้ (ไว้ตรวจว่ามีคนแก้ทับระหว่าง offline)
+  // batch: ทุกแถวต้องเข้าพร้อมกันหรือไม่เข้าเลย (เลื่อนทั้ง chain / undo ทั้งชุด)
+  updates?: QueuedUpdate[];
+  queuedAt: string;
+}
+
+export interface WriteQueueStore {
+  load(userId: string): Promise<QueuedWrite[]>;
+  // คืน write พร้อม seq ที่ได้
+  add(write: Omit<QueuedWrite, 'seq'>): Promise<QueuedWrite>;
+  delete(seq: number): Promise<void>;
+  clear(userId: string): Promise<void>;
+}
+
+const bySeq = (a: QueuedWrite, b: QueuedWrite) => a.seq - b.seq;
+
+// ใช้ตอนไม่มี IndexedDB (SSR / ทดสอบ) — หายเมื่อปิดหน้า
+export function createMemoryQueueStore(): WriteQueueStore {
+  const rows = new Map<number, QueuedWrite>();
+  let nextSeq = 1;
+  return {
+    load: async (userId) =>
+      Array.from(rows.values())
+        .filter((w) => w.user_id === userId)
+        .sort(bySeq),
+    add: async (write) => {
+      const queued = { ...write, seq: nextSeq++ };
+      rows.set(queued.seq, queued);
+      return { ...queued };
+    },
+    delete: async (seq) => {
+      rows.delete(seq);
+    },
+    clear: async (userId) => {
+      rows.forEach((w, seq) => {
+        if (w.user_id === userId) rows.delete(seq);
+      });
+    },
+  };
+}
+
+const DB_NAME = 'work-tracker';
+// v2: seq แบบ autoIncrement + index user_id (คิว v1 ไม่รู้ว่าเป็นของใคร ทิ้งไป)
+const DB_VERSION = 2;
+const STORE_NAME = 'write-queue';
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * เปิด database ตอนใช้งานครั้งแรก (import บน server ได้โดยไม่พัง)
+ * ถ้า browser ไม่มี IndexedDB จะใช้คิวในหน่วยความจำแทน
+ */
+export function createIndexedDbQueueStore(): WriteQueueStore {
+  let fallback: WriteQueueStore | null = null;
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!dbPromise) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (db.objectStoreNames.contains(STORE_NAME)) {
+          db.deleteObjectStore(STORE_NAME);
+        }
+        db.createObjectStore(STORE_NAME, {
+          keyPath: 'seq',
+          autoIncrement: true,
+        }).createIndex('user_id', 'user_id');
+      };
+      dbPromise = promisify(request);
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> => {
+    const db = await open();
+    const store = db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    return promisify(run(store));
+  };
+
+  const memoryFallback = (): WriteQueueStore | null => {
+    if (typeof indexedDB !== 'undefined') return null;
+    return (fallback = fallback || createMemoryQueueStore());
+  };
+
+  return {
+    async load(userId) {
+      const mem = memoryFallback();
+      if (mem) return mem.load(userId);
+      const rows = await withStore('readonly', (s) =>
+        s.index('user_id').getAll(userId),
+      );
+      return (rows as QueuedWrite[]).sort(bySeq);
+    },
+    async add(write) {
+      const mem = memoryFallback();
+      if (mem) return mem.add(write);
+      const seq = await withStore('readwrite', (s) => s.add(write));
+      return { ...write, seq: seq as number };
+    },
+    async delete(seq) {
+      const mem = memoryFallback();
+      if (mem) return mem.delete(seq);
+      await withStore('readwrite', (s) => s.delete(seq));
+    },
+    async clear(userId) {
+      const mem = memoryFallback();
+      if (mem) return mem.clear(userId);
+      const seqs = await withStore('readonly', (s) =>
+        s.index('user_id').getAllKeys(userId),
+      );
+      for (const seq of seqs) {
+        await withStore('readwrite', (s) => s.delete(seq));
+      }
+    },
+  };
+}